@@ -1,7 +1,17 @@
-import { describe, it, expect } from "vitest";
-import { render, screen } from "@testing-library/react";
-import { Avatar, defaultConfig, generateRandomConfig } from "../components/Avatar";
-import { BACKGROUNDS, SKINS, TSHIRTS, EXPRESSIONS, HAIRS } from "../types";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { act, render } from "@testing-library/react";
+import { Avatar } from "../components/Avatar";
+import { defaultConfig } from "../utils/export";
+import { generateRandomConfig } from "../utils/random";
+import {
+  BACKGROUNDS,
+  SKINS,
+  TSHIRTS,
+  EXPRESSIONS,
+  HAIRS,
+  HAIR_COLORS,
+  FACE_DETAILS,
+} from "../types";
 
 describe("Avatar", () => {
   describe("rendering", () => {
@@ -108,6 +118,17 @@ describe("Avatar", () => {
       });
     });
 
+    it("should render each skin option differently", () => {
+      const markups = SKINS.map((skin) => {
+        const { container, unmount } = render(<Avatar skin={skin} />);
+        const html = container.innerHTML;
+        unmount();
+        return html;
+      });
+
+      expect(new Set(markups).size).toBe(SKINS.length);
+    });
+
     it("should render with all tshirt options", () => {
       TSHIRTS.forEach((tshirt) => {
         const { container, unmount } = render(<Avatar tshirt={tshirt} />);
@@ -160,16 +181,118 @@ describe("Avatar", () => {
       const clipPath = container.querySelector("clipPath");
 
       expect(clipPath).toBeInTheDocument();
-      expect(clipPath).toHaveAttribute("id", "avatarClip");
+      expect(clipPath?.id).toMatch(/avatarClip$/);
     });
 
     it("should contain clipped group", () => {
       const { container } = render(<Avatar />);
-      const group = container.querySelector('g[clip-path="url(#avatarClip)"]');
+      const clipId = container.querySelector("clipPath")?.id;
+      const group = container.querySelector(`g[clip-path="url(#${clipId})"]`);
 
       expect(group).toBeInTheDocument();
     });
   });
+
+  describe("SVG ids", () => {
+    const collectIds = (root: Element) =>
+      Array.from(root.querySelectorAll("[id]")).map((el) => el.id);
+
+    const collectReferences = (root: Element) =>
+      Array.from(root.querySelectorAll("*")).flatMap((el) =>
+        Array.from(el.attributes)
+          .map((attr) => attr.value.match(/^url\(#(.+)\)$/)?.[1])
+          .filter((id): id is string => id !== undefined),
+      );
+
+    it("should not duplicate ids across avatars on the same page", () => {
+      const { container } = render(
+        <>
+          <Avatar skin="deepBrown" tshirt="blue" hair="bob" expression="sad" />
+          <Avatar skin="lightCream" tshirt="pink" hair="braids" />
+          <Avatar skin="deepBrown" tshirt="blue" hair="bob" expression="sad" />
+        </>,
+      );
+      const ids = collectIds(container);
+
+      expect(ids.length).toBeGreaterThan(0);
+      expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    it("should only reference ids defined in the same avatar", () => {
+      const { container } = render(
+        <>
+          <Avatar hair="afroPuffs" expression="angry" />
+          <Avatar hair="afroPuffs" expression="angry" />
+        </>,
+      );
+
+      container.querySelectorAll("svg").forEach((svg) => {
+        const ids = new Set(collectIds(svg));
+        const references = collectReferences(svg);
+
+        expect(references.length).toBeGreaterThan(0);
+        references.forEach((id) => expect(ids).toContain(id));
+      });
+    });
+  });
+
+  describe("animation", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should be static by default", () => {
+      const { container } = render(<Avatar speaking />);
+
+      expect(container.querySelector("style")).toBeNull();
+      expect(container.querySelector(".avatar-talk")).toBeNull();
+    });
+
+    it("should blink and breathe when animated", () => {
+      const { container } = render(<Avatar animated />);
+
+      expect(container.querySelector("style")?.textContent).toContain(
+        "prefers-reduced-motion",
+      );
+      expect(container.querySelectorAll(".avatar-blink")).toHaveLength(2);
+      expect(container.querySelector(".avatar-breathe")).toBeInTheDocument();
+      expect(container.querySelector(".avatar-talk")).toBeNull();
+    });
+
+    it("should talk while speaking", () => {
+      const { container } = render(<Avatar animated speaking />);
+
+      expect(container.querySelector(".avatar-talk")).toBeInTheDocument();
+    });
+
+    it("should crossfade to a new expression", () => {
+      vi.useFakeTimers();
+      const { container, rerender } = render(
+        <Avatar animated expression="happy" />,
+      );
+
+      rerender(<Avatar animated expression="laughing" />);
+      expect(container.querySelector(".avatar-leave")).toBeInTheDocument();
+      expect(container.querySelector(".avatar-enter")).toBeInTheDocument();
+      const ids = Array.from(container.querySelectorAll("[id]")).map(
+        (el) => el.id,
+      );
+      expect(new Set(ids).size).toBe(ids.length);
+
+      act(() => {
+        vi.advanceTimersByTime(300);
+      });
+      expect(container.querySelector(".avatar-leave")).toBeNull();
+      expect(container.querySelector(".avatar-enter")).toBeNull();
+    });
+
+    it("should switch expressions at once when not animated", () => {
+      const { container, rerender } = render(<Avatar expression="happy" />);
+
+      rerender(<Avatar expression="laughing" />);
+      expect(container.querySelector(".avatar-leave")).toBeNull();
+    });
+  });
 });
 
 describe("defaultConfig", () => {
@@ -246,6 +369,16 @@ describe("generateRandomConfig", () => {
     expect(HAIRS).toContain(config.hair);
   });
 
+  it("should return valid hairColor value", () => {
+    const config = generateRandomConfig();
+    expect(HAIR_COLORS).toContain(config.hairColor);
+  });
+
+  it("should return valid faceDetail value", () => {
+    const config = generateRandomConfig();
+    expect(FACE_DETAILS).toContain(config.faceDetail);
+  });
+
   it("should generate different configs (with high probability)", () => {
     const configs = Array.from({ length: 10 }, () => generateRandomConfig());
     const uniqueConfigs = new Set(configs.map((c) => JSON.stringify(c)));
@@ -254,6 +387,97 @@ describe("generateRandomConfig", () => {
     expect(uniqueConfigs.size).toBeGreaterThan(1);
   });
 
+  describe("constraints", () => {
+    it("should keep locked attributes", () => {
+      for (let i = 0; i < 20; i++) {
+        const config = generateRandomConfig({
+          locked: { background: "mintGreen", hair: "bob" },
+        });
+
+        expect(config.background).toBe("mintGreen");
+        expect(config.hair).toBe("bob");
+      }
+    });
+
+    it("should only draw allow-listed options", () => {
+      const allowed = ["happy", "focused"] as const;
+
+      for (let i = 0; i < 20; i++) {
+        const config = generateRandomConfig({
+          include: { expression: allowed },
+        });
+
+        expect(allowed).toContain(config.expression);
+      }
+    });
+
+    it("should never draw deny-listed options", () => {
+      const denied = HAIRS.filter((hair) => hair !== "braids");
+
+      for (let i = 0; i < 20; i++) {
+        expect(generateRandomConfig({ exclude: { hair: denied } }).hair).toBe(
+          "braids",
+        );
+      }
+    });
+
+    it("should honor weights", () => {
+      const config = generateRandomConfig({
+        weights: { tshirt: { blue: 1, amber: 0 } },
+        include: { tshirt: ["amber", "blue"] },
+      });
+
+      expect(config.tshirt).toBe("blue");
+    });
+
+    it("should pick options in proportion to their weights", () => {
+      // random() = 0.5 falls into the second half of a 1 + 1 weight range
+      const config = generateRandomConfig({
+        include: { skin: ["deepBrown", "lightCream"] },
+        weights: { skin: { deepBrown: 3 } },
+        random: () => 0.5,
+      });
+
+      expect(config.skin).toBe("deepBrown");
+    });
+
+    it("should use the provided random source", () => {
+      const config = generateRandomConfig({ random: () => 0 });
+
+      expect(config).toEqual({
+        background: BACKGROUNDS[0],
+        skin: SKINS[0],
+        tshirt: TSHIRTS[0],
+        expression: EXPRESSIONS[0],
+        hair: HAIRS[0],
+        hairColor: HAIR_COLORS[0],
+        faceDetail: FACE_DETAILS[0],
+      });
+    });
+
+    it("should only include accessories when locked", () => {
+      expect(generateRandomConfig()).not.toHaveProperty("accessories");
+      expect(
+        generateRandomConfig({ locked: { accessories: ["cap"] } }).accessories,
+      ).toEqual(["cap"]);
+    });
+
+    it("should throw when no options are left", () => {
+      expect(() =>
+        generateRandomConfig({
+          include: { expression: ["happy"] },
+          exclude: { expression: ["happy"] },
+        }),
+      ).toThrow("No expression options left to choose from");
+    });
+
+    it("should throw on invalid weights", () => {
+      expect(() =>
+        generateRandomConfig({ weights: { hair: { bob: -1 } } }),
+      ).toThrow('Invalid weight for hair "bob": -1');
+    });
+  });
+
   it("should be usable with Avatar component", () => {
     const config = generateRandomConfig();
     const { container } = render(<Avatar {...config} />);
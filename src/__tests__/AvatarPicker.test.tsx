@@ -1,8 +1,18 @@
 import { describe, it, expect, vi } from "vitest";
-import { render, screen, fireEvent } from "@testing-library/react";
+import { render, screen, fireEvent, within } from "@testing-library/react";
 import { AvatarPicker } from "../components/AvatarPicker";
-import { AvatarConfig, BACKGROUNDS, TSHIRTS, EXPRESSIONS, HAIRS } from "../types";
-import { defaultConfig } from "../components/Avatar";
+import {
+  AvatarConfig,
+  BACKGROUNDS,
+  SKINS,
+  TSHIRTS,
+  EXPRESSIONS,
+  HAIRS,
+  HAIR_COLORS,
+  FACE_DETAILS,
+  ACCESSORIES,
+} from "../types";
+import { defaultConfig } from "../utils/export";
 
 describe("AvatarPicker", () => {
   describe("rendering", () => {
@@ -20,6 +30,9 @@ describe("AvatarPicker", () => {
       expect(screen.getByText("T-Shirt")).toBeInTheDocument();
       expect(screen.getByText("Expression")).toBeInTheDocument();
       expect(screen.getByText("Hair")).toBeInTheDocument();
+      expect(screen.getByText("Hair Color")).toBeInTheDocument();
+      expect(screen.getByText("Face Detail")).toBeInTheDocument();
+      expect(screen.getByText("Accessories")).toBeInTheDocument();
     });
 
     it("should render randomize button", () => {
@@ -41,33 +54,133 @@ describe("AvatarPicker", () => {
     it("should render background options", () => {
       render(<AvatarPicker />);
 
-      BACKGROUNDS.forEach((bg) => {
-        expect(screen.getByTitle(bg)).toBeInTheDocument();
-      });
+      expect(
+        within(
+          screen.getByRole("radiogroup", { name: "Background" }),
+        ).getAllByRole("radio"),
+      ).toHaveLength(BACKGROUNDS.length);
+    });
+
+    it("should render skin options", () => {
+      render(<AvatarPicker />);
+
+      expect(
+        within(screen.getByRole("radiogroup", { name: "Skin" })).getAllByRole(
+          "radio",
+        ),
+      ).toHaveLength(SKINS.length);
     });
 
     it("should render tshirt options", () => {
       render(<AvatarPicker />);
 
-      TSHIRTS.forEach((tshirt) => {
-        expect(screen.getByTitle(tshirt)).toBeInTheDocument();
-      });
+      expect(
+        within(
+          screen.getByRole("radiogroup", { name: "T-Shirt" }),
+        ).getAllByRole("radio"),
+      ).toHaveLength(TSHIRTS.length);
     });
 
     it("should render expression options", () => {
       render(<AvatarPicker />);
 
-      EXPRESSIONS.forEach((expression) => {
-        expect(screen.getByTitle(expression)).toBeInTheDocument();
-      });
+      expect(
+        within(
+          screen.getByRole("radiogroup", { name: "Expression" }),
+        ).getAllByRole("radio"),
+      ).toHaveLength(EXPRESSIONS.length);
     });
 
     it("should render hair options", () => {
       render(<AvatarPicker />);
 
-      HAIRS.forEach((hair) => {
-        expect(screen.getByTitle(hair)).toBeInTheDocument();
-      });
+      expect(
+        within(screen.getByRole("radiogroup", { name: "Hair" })).getAllByRole(
+          "radio",
+        ),
+      ).toHaveLength(HAIRS.length);
+    });
+
+    it("should render hair color options after the hairstyle's own color", () => {
+      render(<AvatarPicker />);
+
+      const radios = within(
+        screen.getByRole("radiogroup", { name: "Hair Color" }),
+      ).getAllByRole("radio");
+      expect(radios).toHaveLength(HAIR_COLORS.length + 1);
+      expect(radios[0]).toHaveAccessibleName("Hairstyle's own color");
+      expect(radios[0]).toHaveAttribute("aria-checked", "true");
+    });
+
+    it("should go back to the hairstyle's own color", () => {
+      const onChange = vi.fn();
+      render(<AvatarPicker onChange={onChange} />);
+
+      fireEvent.click(screen.getByTitle("Auburn"));
+      fireEvent.click(screen.getByTitle("Hairstyle's own color"));
+
+      expect(onChange.mock.lastCall?.[0].hairColor).toBeUndefined();
+    });
+  });
+
+  describe("face detail", () => {
+    it("should render face detail options with none selected", () => {
+      render(<AvatarPicker />);
+
+      expect(
+        within(
+          screen.getByRole("radiogroup", { name: "Face Detail" }),
+        ).getAllByRole("radio"),
+      ).toHaveLength(FACE_DETAILS.length);
+      expect(screen.getByTitle("None").style.borderColor).toBe(
+        "rgb(19, 174, 255)",
+      );
+    });
+
+    it("should turn a face detail on and off", () => {
+      const onChange = vi.fn();
+      render(<AvatarPicker onChange={onChange} />);
+
+      fireEvent.click(screen.getByTitle("Full beard"));
+      expect(onChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ faceDetail: "fullBeard" }),
+      );
+
+      fireEvent.click(screen.getByTitle("None"));
+      expect(onChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ faceDetail: "none" }),
+      );
+    });
+  });
+
+  describe("accessories", () => {
+    it("should render accessory options", () => {
+      render(<AvatarPicker />);
+
+      expect(
+        within(screen.getByLabelText("Accessories")).getAllByRole("checkbox"),
+      ).toHaveLength(ACCESSORIES.length);
+    });
+
+    it("should put accessories on and take them off", () => {
+      const onChange = vi.fn();
+      render(<AvatarPicker onChange={onChange} />);
+
+      fireEvent.click(screen.getByTitle("Round glasses"));
+      fireEvent.click(screen.getByTitle("Beanie"));
+      expect(onChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ accessories: ["roundGlasses", "beanie"] }),
+      );
+
+      fireEvent.click(screen.getByTitle("Cap"));
+      expect(onChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ accessories: ["roundGlasses", "cap"] }),
+      );
+
+      fireEvent.click(screen.getByTitle("Round glasses"));
+      expect(onChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ accessories: ["cap"] }),
+      );
     });
   });
 
@@ -77,7 +190,7 @@ describe("AvatarPicker", () => {
       render(<AvatarPicker onChange={onChange} />);
 
       // Click a different background to trigger onChange
-      fireEvent.click(screen.getByTitle("coralRed"));
+      fireEvent.click(screen.getByTitle("Coral red"));
 
       expect(onChange).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -94,15 +207,20 @@ describe("AvatarPicker", () => {
       const onChange = vi.fn();
       render(<AvatarPicker onChange={onChange} />);
 
-      fireEvent.click(screen.getByTitle("mintGreen"));
+      fireEvent.click(screen.getByTitle("Mint green"));
       expect(onChange).toHaveBeenLastCalledWith(
         expect.objectContaining({ background: "mintGreen" }),
       );
 
-      fireEvent.click(screen.getByTitle("blue"));
+      fireEvent.click(screen.getByTitle("Blue"));
       expect(onChange).toHaveBeenLastCalledWith(
         expect.objectContaining({ tshirt: "blue" }),
       );
+
+      fireEvent.click(screen.getByTitle("Auburn"));
+      expect(onChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ hairColor: "auburn" }),
+      );
     });
   });
 
@@ -120,7 +238,7 @@ describe("AvatarPicker", () => {
       render(<AvatarPicker value={customConfig} onChange={onChange} />);
 
       // Click a different option
-      fireEvent.click(screen.getByTitle("mintGreen"));
+      fireEvent.click(screen.getByTitle("Mint green"));
 
       expect(onChange).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -149,7 +267,7 @@ describe("AvatarPicker", () => {
       rerender(<AvatarPicker value={newConfig} onChange={onChange} />);
 
       // Click something to verify state was updated
-      fireEvent.click(screen.getByTitle("coralRed"));
+      fireEvent.click(screen.getByTitle("Coral red"));
 
       expect(onChange).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -166,7 +284,7 @@ describe("AvatarPicker", () => {
       const onChange = vi.fn();
       render(<AvatarPicker onChange={onChange} />);
 
-      fireEvent.click(screen.getByTitle("peach"));
+      fireEvent.click(screen.getByTitle("Peach"));
 
       expect(onChange).toHaveBeenCalledTimes(1);
       expect(onChange).toHaveBeenCalledWith(
@@ -174,11 +292,22 @@ describe("AvatarPicker", () => {
       );
     });
 
+    it("should call onChange when skin is changed", () => {
+      const onChange = vi.fn();
+      render(<AvatarPicker onChange={onChange} />);
+
+      fireEvent.click(screen.getByTitle("Deep brown"));
+
+      expect(onChange).toHaveBeenCalledWith(
+        expect.objectContaining({ skin: "deepBrown" }),
+      );
+    });
+
     it("should call onChange when tshirt is changed", () => {
       const onChange = vi.fn();
       render(<AvatarPicker onChange={onChange} />);
 
-      fireEvent.click(screen.getByTitle("charcoal"));
+      fireEvent.click(screen.getByTitle("Charcoal"));
 
       expect(onChange).toHaveBeenCalledWith(
         expect.objectContaining({ tshirt: "charcoal" }),
@@ -189,7 +318,7 @@ describe("AvatarPicker", () => {
       const onChange = vi.fn();
       render(<AvatarPicker onChange={onChange} />);
 
-      fireEvent.click(screen.getByTitle("sleepy"));
+      fireEvent.click(screen.getByTitle("Sleepy"));
 
       expect(onChange).toHaveBeenCalledWith(
         expect.objectContaining({ expression: "sleepy" }),
@@ -200,7 +329,7 @@ describe("AvatarPicker", () => {
       const onChange = vi.fn();
       render(<AvatarPicker onChange={onChange} />);
 
-      fireEvent.click(screen.getByTitle("braids"));
+      fireEvent.click(screen.getByTitle("Braids"));
 
       expect(onChange).toHaveBeenCalledWith(
         expect.objectContaining({ hair: "braids" }),
@@ -211,7 +340,7 @@ describe("AvatarPicker", () => {
       render(<AvatarPicker />);
 
       expect(() => {
-        fireEvent.click(screen.getByTitle("coralRed"));
+        fireEvent.click(screen.getByTitle("Coral red"));
       }).not.toThrow();
     });
   });
@@ -243,6 +372,7 @@ describe("AvatarPicker", () => {
       const config = onChange.mock.calls[0][0] as AvatarConfig;
 
       expect(BACKGROUNDS).toContain(config.background);
+      expect(SKINS).toContain(config.skin);
       expect(TSHIRTS).toContain(config.tshirt);
       expect(EXPRESSIONS).toContain(config.expression);
       expect(HAIRS).toContain(config.hair);
@@ -257,7 +387,7 @@ describe("AvatarPicker", () => {
       const randomConfig = onChange.mock.calls[0][0] as AvatarConfig;
 
       // Now click a specific option
-      fireEvent.click(screen.getByTitle("coralRed"));
+      fireEvent.click(screen.getByTitle("Coral red"));
 
       // Should preserve random config except for the changed property
       expect(onChange).toHaveBeenLastCalledWith(
@@ -271,11 +401,157 @@ describe("AvatarPicker", () => {
     });
   });
 
+  describe("lock toggles", () => {
+    it("should render a lock toggle per category", () => {
+      render(<AvatarPicker />);
+
+      [
+        "Background",
+        "Skin",
+        "T-Shirt",
+        "Expression",
+        "Hair",
+        "Hair Color",
+        "Face Detail",
+        "Accessories",
+      ].forEach((label) => {
+        expect(screen.getByLabelText(`Lock ${label}`)).toHaveAttribute(
+          "aria-pressed",
+          "false",
+        );
+      });
+    });
+
+    it("should toggle the pressed state", () => {
+      render(<AvatarPicker />);
+      const lock = screen.getByLabelText("Lock Hair");
+
+      fireEvent.click(lock);
+      expect(lock).toHaveAttribute("aria-pressed", "true");
+
+      fireEvent.click(lock);
+      expect(lock).toHaveAttribute("aria-pressed", "false");
+    });
+
+    it("should keep locked categories on randomize", () => {
+      const onChange = vi.fn();
+      render(<AvatarPicker onChange={onChange} />);
+
+      fireEvent.click(screen.getByTitle("Coral red"));
+      fireEvent.click(screen.getByTitle("Braids"));
+      fireEvent.click(screen.getByLabelText("Lock Background"));
+      fireEvent.click(screen.getByLabelText("Lock Hair"));
+
+      for (let i = 0; i < 3; i++) {
+        fireEvent.click(screen.getByText("Randomize"));
+
+        expect(onChange).toHaveBeenLastCalledWith(
+          expect.objectContaining({ background: "coralRed", hair: "braids" }),
+        );
+      }
+    });
+
+    it("should keep locked categories unset on randomize", () => {
+      const onChange = vi.fn();
+      render(<AvatarPicker onChange={onChange} />);
+
+      fireEvent.click(screen.getByLabelText("Lock Hair Color"));
+      fireEvent.click(screen.getByLabelText("Lock Face Detail"));
+
+      for (let i = 0; i < 5; i++) {
+        fireEvent.click(screen.getByText("Randomize"));
+
+        const [config] = onChange.mock.lastCall ?? [];
+        expect(config.hairColor).toBeUndefined();
+        expect(config.faceDetail).toBeUndefined();
+      }
+    });
+
+    it("should apply randomizeOptions", () => {
+      const onChange = vi.fn();
+      render(
+        <AvatarPicker
+          onChange={onChange}
+          randomizeOptions={{ include: { expression: ["focused"] } }}
+        />,
+      );
+
+      fireEvent.click(screen.getByText("Randomize"));
+
+      expect(onChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ expression: "focused" }),
+      );
+    });
+  });
+
+  describe("layout", () => {
+    it("should show one category at a time in the tabs layout", () => {
+      render(<AvatarPicker layout="tabs" />);
+
+      expect(screen.getAllByRole("tab")).toHaveLength(8);
+      expect(screen.getByRole("tab", { name: "Background" })).toHaveAttribute(
+        "aria-selected",
+        "true",
+      );
+      expect(screen.getByTitle("Coral red")).toBeInTheDocument();
+      expect(screen.queryByTitle("Braids")).toBeNull();
+
+      fireEvent.click(screen.getByRole("tab", { name: "Hair" }));
+
+      expect(screen.getByTitle("Braids")).toBeInTheDocument();
+      expect(screen.queryByTitle("Coral red")).toBeNull();
+      expect(screen.getByRole("tabpanel")).toHaveAttribute(
+        "aria-labelledby",
+        screen.getByRole("tab", { name: "Hair" }).id,
+      );
+    });
+
+    it("should keep the selection when switching tabs", () => {
+      const onChange = vi.fn();
+      render(<AvatarPicker layout="tabs" onChange={onChange} />);
+
+      fireEvent.click(screen.getByTitle("Coral red"));
+      fireEvent.click(screen.getByRole("tab", { name: "Hair" }));
+      fireEvent.click(screen.getByTitle("Braids"));
+
+      expect(onChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ background: "coralRed", hair: "braids" }),
+      );
+    });
+
+    it("should lay each category out in one scrolling row in the compact layout", () => {
+      render(<AvatarPicker layout="compact" />);
+      const row = screen.getByTitle("Braids").parentElement;
+
+      expect(row).toHaveStyle({ overflowX: "auto" });
+      expect(row?.style.flexWrap).toBe("");
+      expect(screen.queryByRole("tablist")).toBeNull();
+    });
+
+    it("should show a live preview", () => {
+      render(<AvatarPicker preview layout="tabs" />);
+      const preview = screen.getByRole("img", { name: "Preview" });
+      const before = preview.innerHTML;
+
+      expect(preview.querySelector("svg")).toHaveAttribute("width", "160");
+
+      fireEvent.click(screen.getByTitle("Coral red"));
+
+      expect(preview.innerHTML).not.toBe(before);
+    });
+
+    it("should not show a preview by default", () => {
+      render(<AvatarPicker />);
+
+      expect(screen.queryByRole("img", { name: "Preview" })).toBeNull();
+    });
+  });
+
   describe("accessibility", () => {
     it("should have button type on all option buttons", () => {
-      render(<AvatarPicker />);
+      const { container } = render(<AvatarPicker />);
 
-      const buttons = screen.getAllByRole("button");
+      const buttons = container.querySelectorAll("button");
       buttons.forEach((button) => {
         expect(button).toHaveAttribute("type", "button");
       });
@@ -285,9 +561,119 @@ describe("AvatarPicker", () => {
       render(<AvatarPicker />);
 
       // Check a few representative options
-      expect(screen.getByTitle("babyBlue")).toBeInTheDocument();
-      expect(screen.getByTitle("happy")).toBeInTheDocument();
-      expect(screen.getByTitle("shortBuzz")).toBeInTheDocument();
+      expect(screen.getByTitle("Baby blue")).toBeInTheDocument();
+      expect(screen.getByTitle("Happy")).toBeInTheDocument();
+      expect(screen.getByTitle("Short buzz")).toBeInTheDocument();
+    });
+
+    it("should label each option with a human-readable name", () => {
+      render(<AvatarPicker />);
+
+      expect(screen.getByLabelText("Bob side part")).toHaveAttribute(
+        "role",
+        "radio",
+      );
+      expect(screen.getByLabelText("Round glasses")).toHaveAttribute(
+        "role",
+        "checkbox",
+      );
+    });
+
+    it("should mark the selected option as checked", () => {
+      render(<AvatarPicker value={{ ...defaultConfig, hair: "braids" }} />);
+      const hair = within(screen.getByRole("radiogroup", { name: "Hair" }));
+
+      expect(hair.getByRole("radio", { name: "Braids" })).toHaveAttribute(
+        "aria-checked",
+        "true",
+      );
+      expect(
+        hair.getAllByRole("radio", { checked: true }).map(({ title }) => title),
+      ).toEqual(["Braids"]);
+    });
+
+    it("should put only the selected option in the tab order", () => {
+      render(<AvatarPicker value={{ ...defaultConfig, skin: "warmBrown" }} />);
+      const skin = within(screen.getByRole("radiogroup", { name: "Skin" }));
+
+      expect(
+        skin
+          .getAllByRole("radio")
+          .filter((radio) => radio.tabIndex === 0)
+          .map(({ title }) => title),
+      ).toEqual(["Warm brown"]);
+    });
+
+    it("should move the selection with the arrow, Home and End keys", () => {
+      const onChange = vi.fn();
+      render(<AvatarPicker onChange={onChange} />);
+      const group = screen.getByRole("radiogroup", { name: "Background" });
+      const radio = (name: string) =>
+        within(group).getByRole("radio", { name });
+
+      fireEvent.keyDown(radio("Baby blue"), { key: "ArrowRight" });
+      expect(radio("Coral red")).toHaveFocus();
+      expect(radio("Coral red")).toHaveAttribute("tabindex", "0");
+      expect(radio("Baby blue")).toHaveAttribute("tabindex", "-1");
+      expect(onChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ background: "coralRed" }),
+      );
+
+      fireEvent.keyDown(radio("Coral red"), { key: "End" });
+      expect(radio("Soft pink")).toHaveFocus();
+
+      fireEvent.keyDown(radio("Soft pink"), { key: "ArrowDown" });
+      expect(radio("Baby blue")).toHaveFocus();
+
+      fireEvent.keyDown(radio("Baby blue"), { key: "ArrowLeft" });
+      expect(radio("Soft pink")).toHaveFocus();
+
+      fireEvent.keyDown(radio("Soft pink"), { key: "Home" });
+      expect(radio("Baby blue")).toHaveFocus();
+      expect(onChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ background: "babyBlue" }),
+      );
+    });
+
+    it("should move the focus between accessories without toggling them", () => {
+      const onChange = vi.fn();
+      render(<AvatarPicker onChange={onChange} />);
+      const group = screen.getByLabelText("Accessories");
+      const [first, second] = within(group).getAllByRole("checkbox");
+
+      fireEvent.keyDown(first, { key: "ArrowRight" });
+
+      expect(second).toHaveFocus();
+      expect(second).toHaveAttribute("aria-checked", "false");
+      expect(onChange).not.toHaveBeenCalled();
+    });
+
+    it("should switch tabs with the arrow keys", () => {
+      render(<AvatarPicker layout="tabs" />);
+
+      fireEvent.keyDown(screen.getByRole("tab", { name: "Background" }), {
+        key: "ArrowRight",
+      });
+
+      expect(screen.getByRole("tab", { name: "Skin" })).toHaveFocus();
+      expect(screen.getByRole("tab", { name: "Skin" })).toHaveAttribute(
+        "aria-selected",
+        "true",
+      );
+      expect(
+        screen.getByRole("radiogroup", { name: "Skin" }),
+      ).toBeInTheDocument();
+    });
+
+    it("should style the keyboard focus", () => {
+      const { container } = render(<AvatarPicker />);
+
+      expect(container.querySelector("style")?.textContent).toContain(
+        ".avatar-picker-focus:focus-visible",
+      );
+      expect(screen.getByRole("radio", { name: "Baby blue" })).toHaveClass(
+        "avatar-picker-focus",
+      );
     });
   });
 });
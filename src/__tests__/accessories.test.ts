@@ -0,0 +1,124 @@
+import { describe, it, expect } from "vitest";
+import {
+  accessoriesInLayer,
+  accessoryCombinations,
+  toggleAccessory,
+} from "../utils/accessories";
+import { generateSvg } from "../utils/export";
+import { ACCESSORIES, HAIRS } from "../types";
+
+describe("accessoriesInLayer", () => {
+  it("should assign every accessory to exactly one layer", () => {
+    const layers = (["underHair", "overHair", "overFace"] as const).flatMap(
+      (layer) => accessoriesInLayer(ACCESSORIES, layer),
+    );
+
+    expect([...layers].sort()).toEqual([...ACCESSORIES].sort());
+  });
+
+  it("should draw hats before headphones whatever the list order", () => {
+    expect(accessoriesInLayer(["headphones", "cap"], "overHair")).toEqual([
+      "cap",
+      "headphones",
+    ]);
+  });
+
+  it("should ignore unknown and duplicate entries", () => {
+    expect(
+      accessoriesInLayer(
+        ["beanie", "monocle", "beanie", "toString"],
+        "overHair",
+      ),
+    ).toEqual(["beanie"]);
+    expect(accessoriesInLayer(undefined, "overHair")).toEqual([]);
+  });
+});
+
+describe("toggleAccessory", () => {
+  it("should put an accessory on and take it off", () => {
+    expect(toggleAccessory([], "sunglasses")).toEqual(["sunglasses"]);
+    expect(toggleAccessory(["sunglasses", "cap"], "sunglasses")).toEqual([
+      "cap",
+    ]);
+  });
+
+  it("should replace the accessory worn in the same slot", () => {
+    expect(toggleAccessory(["beanie", "roundGlasses"], "cap")).toEqual([
+      "roundGlasses",
+      "cap",
+    ]);
+    expect(toggleAccessory(["hoopEarrings"], "headphones")).toEqual([
+      "headphones",
+    ]);
+  });
+});
+
+describe("accessoryCombinations", () => {
+  it("should combine at most one accessory per slot", () => {
+    // (none + 3 glasses) * (none + 2 hats) * (none + 2 earrings + headphones)
+    const combinations = accessoryCombinations(ACCESSORIES);
+
+    expect(combinations).toHaveLength(48);
+    expect(combinations[0]).toEqual([]);
+    expect(combinations).toContainEqual(["sunglasses", "cap", "headphones"]);
+    expect(combinations).not.toContainEqual(["beanie", "cap"]);
+  });
+
+  it("should list each set in ACCESSORIES order", () => {
+    for (const combination of accessoryCombinations(ACCESSORIES)) {
+      expect(combination).toEqual(
+        ACCESSORIES.filter((accessory) => combination.includes(accessory)),
+      );
+    }
+  });
+
+  it("should only use the given accessories", () => {
+    expect(accessoryCombinations(["cap", "roundGlasses"])).toEqual([
+      [],
+      ["cap"],
+      ["roundGlasses"],
+      ["roundGlasses", "cap"],
+    ]);
+    expect(accessoryCombinations([])).toEqual([[]]);
+  });
+});
+
+describe("accessory layering", () => {
+  const order = (svg: string, ...markers: string[]) =>
+    markers.map((marker) => svg.indexOf(marker));
+
+  it.each([...HAIRS])("should put hats over %s", (hair) => {
+    const svg = generateSvg({
+      hair,
+      hairColor: "#123456",
+      accessories: ["cap"],
+    });
+    const [hairAt, capAt] = order(svg, '"#123456"', '"#3A86FF"');
+
+    expect(hairAt).toBeGreaterThan(-1);
+    expect(capAt).toBeGreaterThan(hairAt);
+  });
+
+  it("should put earrings under the hair and glasses over the face", () => {
+    const svg = generateSvg({
+      hair: "longStraight",
+      hairColor: "#123456",
+      expression: "happy",
+      accessories: ["sunglasses", "hoopEarrings"],
+    });
+    const [earringsAt, hairAt, blushAt, glassesAt] = order(
+      svg,
+      '"#F4C542"',
+      '"#123456"',
+      '"#FF7472"',
+      '"#1F2430"',
+    );
+
+    expect(earringsAt).toBeLessThan(hairAt);
+    expect(blushAt).toBeLessThan(glassesAt);
+  });
+
+  it("should draw nothing extra without accessories", () => {
+    expect(generateSvg({ accessories: [] })).toBe(generateSvg({}));
+  });
+});
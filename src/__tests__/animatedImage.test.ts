@@ -0,0 +1,325 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { downloadAnimation, generateAnimation } from "../utils/animatedImage";
+import { generatePng, rasterizeSvg } from "../utils/rasterize";
+import { generateSvg } from "../utils/export";
+
+interface GifFrame {
+  delay: number;
+  transparentIndex: number | undefined;
+  indices: Uint8Array;
+}
+
+/** Reads the parts of a GIF the exporter writes, decoding every frame. */
+function decodeGif(gif: Uint8Array) {
+  const view = new DataView(gif.buffer, gif.byteOffset, gif.byteLength);
+  const width = view.getUint16(6, true);
+  const height = view.getUint16(8, true);
+  const palette = gif.subarray(13, 13 + 256 * 3);
+  const frames: GifFrame[] = [];
+  let loops: number | undefined;
+  let delay = 0;
+  let transparentIndex: number | undefined;
+
+  const readBlocks = (start: number) => {
+    const data: number[] = [];
+    let offset = start;
+    while (gif[offset] !== 0) {
+      data.push(...gif.subarray(offset + 1, offset + 1 + gif[offset]));
+      offset += gif[offset] + 1;
+    }
+    return { data, end: offset + 1 };
+  };
+
+  let offset = 13 + 256 * 3;
+  while (gif[offset] !== 0x3b) {
+    if (gif[offset] === 0x21 && gif[offset + 1] === 0xff) {
+      loops = view.getUint16(offset + 16, true);
+      offset = readBlocks(offset + 14).end;
+    } else if (gif[offset] === 0x21 && gif[offset + 1] === 0xf9) {
+      delay = view.getUint16(offset + 4, true);
+      transparentIndex = gif[offset + 3] & 1 ? gif[offset + 6] : undefined;
+      offset += 8;
+    } else if (gif[offset] === 0x2c) {
+      const { data, end } = readBlocks(offset + 11);
+      frames.push({
+        delay,
+        transparentIndex,
+        indices: decompressLzw(data, gif[offset + 10]),
+      });
+      offset = end;
+    } else {
+      throw new Error(`Unexpected block ${gif[offset]}`);
+    }
+  }
+  return { width, height, palette, loops, frames };
+}
+
+function decompressLzw(data: number[], minCodeSize: number): Uint8Array {
+  const clearCode = 1 << minCodeSize;
+  const output: number[] = [];
+  let table: number[][] = [];
+  let codeSize = minCodeSize + 1;
+  let previous: number[] | undefined;
+  let bit = 0;
+
+  const reset = () => {
+    table = Array.from({ length: clearCode + 2 }, (_, i) => [i]);
+    codeSize = minCodeSize + 1;
+    previous = undefined;
+  };
+  reset();
+
+  while (bit + codeSize <= data.length * 8) {
+    let code = 0;
+    for (let i = 0; i < codeSize; i++, bit++) {
+      code |= ((data[bit >> 3] >> (bit & 7)) & 1) << i;
+    }
+    if (code === clearCode) {
+      reset();
+      continue;
+    }
+    if (code === clearCode + 1) break;
+    const entry =
+      code < table.length ? table[code] : [...previous!, previous![0]];
+    output.push(...entry);
+    if (previous) table.push([...previous, entry[0]]);
+    if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+    previous = entry;
+  }
+  return new Uint8Array(output);
+}
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+function readChunks(png: Uint8Array): PngChunk[] {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: PngChunk[] = [];
+  for (let offset = 8; offset < png.length;) {
+    const length = view.getUint32(offset);
+    chunks.push({
+      type: String.fromCharCode(...png.subarray(offset + 4, offset + 8)),
+      data: png.subarray(offset + 8, offset + 8 + length),
+    });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+function uint32(data: Uint8Array, offset: number): number {
+  return new DataView(data.buffer, data.byteOffset).getUint32(offset);
+}
+
+function uint16(data: Uint8Array, offset: number): number {
+  return new DataView(data.buffer, data.byteOffset).getUint16(offset);
+}
+
+describe("generateAnimation", () => {
+  describe("gif", () => {
+    it("should write one frame per timeline entry", async () => {
+      const gif = await generateAnimation({}, ["happy", "laughing", "happy"], {
+        size: 64,
+      });
+      const decoded = decodeGif(gif);
+
+      expect(String.fromCharCode(...gif.subarray(0, 6))).toBe("GIF89a");
+      expect(decoded.width).toBe(64);
+      expect(decoded.height).toBe(64);
+      expect(decoded.loops).toBe(0);
+      expect(decoded.frames).toHaveLength(3);
+      expect(decoded.frames.map(({ delay }) => delay)).toEqual([50, 50, 50]);
+      for (const { indices } of decoded.frames) {
+        expect(indices).toHaveLength(64 * 64);
+      }
+    });
+
+    it("should draw each frame's expression", async () => {
+      const { frames } = decodeGif(
+        await generateAnimation({}, ["happy", "laughing", "happy"], {
+          size: 64,
+        }),
+      );
+
+      expect(frames[0].indices).toEqual(frames[2].indices);
+      expect(frames[0].indices).not.toEqual(frames[1].indices);
+    });
+
+    it("should match the rasterized avatar", async () => {
+      const config = { tshirt: "blue", expression: "sad" } as const;
+      const { palette, frames } = decodeGif(
+        await generateAnimation(config, ["sad"]),
+      );
+      const { pixels } = await rasterizeSvg(generateSvg(config), 474);
+      const [{ indices, transparentIndex }] = frames;
+
+      // Transparent corners, and opaque pixels in (nearly) their own color
+      let mismatched = 0;
+      indices.forEach((index, i) => {
+        const alpha = pixels[i * 4 + 3];
+        if (alpha === 0) {
+          expect(index).toBe(transparentIndex);
+        } else if (alpha === 255) {
+          const error = Math.max(
+            ...[0, 1, 2].map((channel) =>
+              Math.abs(palette[index * 3 + channel] - pixels[i * 4 + channel]),
+            ),
+          );
+          if (error > 8) mismatched++;
+        }
+      });
+      // Only a few anti-aliased edge pixels fall outside the palette
+      expect(mismatched).toBeLessThan(indices.length / 1000);
+    });
+
+    it("should fill the corners with the matte color", async () => {
+      const { palette, frames } = decodeGif(
+        await generateAnimation({}, ["happy"], {
+          size: 32,
+          matte: "#ff0000",
+        }),
+      );
+      const [frame] = frames;
+
+      expect(frame.transparentIndex).toBeUndefined();
+      expect(
+        Array.from(
+          palette.subarray(frame.indices[0] * 3, frame.indices[0] * 3 + 3),
+        ),
+      ).toEqual([255, 0, 0]);
+    });
+
+    it("should shut the eyes of a frame", async () => {
+      const { frames } = decodeGif(
+        await generateAnimation(
+          { expression: "starry" },
+          [{ duration: 2400 }, { eyesClosed: true, duration: 120 }],
+          { size: 64 },
+        ),
+      );
+
+      expect(frames.map(({ delay }) => delay)).toEqual([240, 12]);
+      expect(frames[0].indices).not.toEqual(frames[1].indices);
+    });
+
+    it("should write the number of plays", async () => {
+      const once = decodeGif(
+        await generateAnimation({}, ["happy"], { size: 8, plays: 1 }),
+      );
+      const thrice = decodeGif(
+        await generateAnimation({}, ["happy"], { size: 8, plays: 3 }),
+      );
+
+      expect(once.loops).toBeUndefined();
+      expect(thrice.loops).toBe(2);
+    });
+
+    it("should round short durations up to 20ms", async () => {
+      const { frames } = decodeGif(
+        await generateAnimation({}, [{ duration: 1 }, { duration: 1234 }], {
+          size: 8,
+        }),
+      );
+
+      expect(frames.map(({ delay }) => delay)).toEqual([2, 123]);
+    });
+  });
+
+  describe("apng", () => {
+    it("should write an animated PNG", async () => {
+      const apng = await generateAnimation(
+        { hair: "spaceBuns" },
+        ["happy", { expression: "laughing", duration: 800 }, "happy"],
+        { format: "apng", size: 48, plays: 2 },
+      );
+      const chunks = readChunks(apng);
+      const types = chunks.map(({ type }) => type);
+      const actl = chunks.find(({ type }) => type === "acTL")!;
+      const fctls = chunks.filter(({ type }) => type === "fcTL");
+
+      expect(Array.from(apng.subarray(1, 4))).toEqual([0x50, 0x4e, 0x47]);
+      expect(types.slice(0, 3)).toEqual(["IHDR", "acTL", "fcTL"]);
+      expect(types[types.length - 1]).toBe("IEND");
+      expect(types.indexOf("IDAT")).toBeLessThan(types.indexOf("fdAT"));
+      expect(uint32(actl.data, 0)).toBe(3);
+      expect(uint32(actl.data, 4)).toBe(2);
+      expect(fctls.map(({ data }) => uint16(data, 20))).toEqual([50, 80, 50]);
+      expect(fctls.map(({ data }) => uint16(data, 22))).toEqual([
+        100, 100, 100,
+      ]);
+    });
+
+    it("should number the frame chunks in order", async () => {
+      const apng = await generateAnimation({}, ["happy", "sad", "happy"], {
+        format: "apng",
+        size: 48,
+      });
+      const sequence = readChunks(apng)
+        .filter(({ type }) => type === "fcTL" || type === "fdAT")
+        .map(({ data }) => uint32(data, 0));
+
+      expect(sequence).toEqual(sequence.map((_, i) => i));
+    });
+
+    it("should show the PNG of the first frame where APNG is unsupported", async () => {
+      const idat = (png: Uint8Array) =>
+        readChunks(png)
+          .filter(({ type }) => type === "IDAT")
+          .map(({ data }) => Array.from(data));
+      const apng = await generateAnimation({}, ["sad", "happy"], {
+        format: "apng",
+        size: 48,
+      });
+
+      expect(idat(apng)).toEqual(
+        idat(await generatePng({ expression: "sad" }, 48)),
+      );
+    });
+  });
+
+  it("should accept shape options", async () => {
+    const round = await generateAnimation({}, ["happy"], { size: 32 });
+    const square = await generateAnimation({}, ["happy"], {
+      size: 32,
+      shape: "square",
+    });
+
+    expect(Buffer.from(round).equals(Buffer.from(square))).toBe(false);
+  });
+
+  it("should reject an empty timeline", async () => {
+    await expect(generateAnimation({}, [])).rejects.toThrow(
+      "An animation needs at least one frame",
+    );
+  });
+
+  it("should reject invalid durations", async () => {
+    for (const duration of [0, -100, NaN, Infinity]) {
+      await expect(
+        generateAnimation({}, [{ duration }], { size: 8 }),
+      ).rejects.toThrow("Invalid frame duration");
+    }
+  });
+
+  it("should reject invalid options", async () => {
+    await expect(
+      generateAnimation({}, ["happy"], { format: "webp" as never }),
+    ).rejects.toThrow("Unsupported animation format: webp");
+    await expect(generateAnimation({}, ["happy"], { size: 0 })).rejects.toThrow(
+      "Invalid size: 0",
+    );
+    await expect(
+      generateAnimation({}, ["happy"], { plays: 1.5 }),
+    ).rejects.toThrow("Invalid plays: 1.5");
+  });
+});
+
+describe("downloadAnimation", () => {
+  it("should throw outside the browser", async () => {
+    await expect(downloadAnimation({}, ["happy"])).rejects.toThrow(
+      "downloadAnimation is only available in browser environment",
+    );
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { animationStyle, closeEyes, markExpression } from "../utils/animation";
+import { getPart } from "../components/svg/parts";
+import { generateSvg } from "../utils/export";
+import { stringifySvg } from "../utils/svg";
+import { EXPRESSIONS } from "../types";
+
+const count = (markup: string, text: string) => markup.split(text).length - 1;
+
+describe("markExpression", () => {
+  it.each([...EXPRESSIONS])(
+    "should find the eyes and mouth of %s",
+    (expression) => {
+      const markup = stringifySvg(
+        markExpression(getPart("expression", expression)!, true),
+      );
+
+      expect(count(markup, 'class="avatar-blink"')).toBe(2);
+      expect(count(markup, 'class="avatar-talk"')).toBe(1);
+    },
+  );
+
+  it("should leave the mouth alone unless speaking", () => {
+    const markup = stringifySvg(
+      markExpression(getPart("expression", "happy")!, false),
+    );
+
+    expect(markup).toContain("avatar-blink");
+    expect(markup).not.toContain("avatar-talk");
+  });
+
+  it("should not mark the blush or the nose", () => {
+    const markup = stringifySvg(
+      markExpression(getPart("expression", "happy")!, true),
+    );
+
+    expect(markup).toMatch(/<circle opacity="0.2" cx="229" cy="279"/);
+    expect(markup).not.toMatch(/avatar-talk"><circle/);
+  });
+});
+
+describe("closeEyes", () => {
+  it.each([...EXPRESSIONS])("should shut both eyes of %s", (expression) => {
+    const markup = stringifySvg(closeEyes(getPart("expression", expression)!));
+
+    expect(count(markup, "scale(1 0.1)")).toBe(2);
+  });
+
+  it("should squeeze each eye about the middle of its mask", () => {
+    const markup = stringifySvg(closeEyes(getPart("expression", "happy")!));
+
+    // The eye masks of "happy" span y 208 to 283
+    expect(markup).toContain(
+      'transform="translate(0 245.5) scale(1 0.1) translate(0 -245.5)"',
+    );
+  });
+
+  it("should be used by generateSvg with eyesClosed", () => {
+    expect(generateSvg({}, 64)).not.toContain("scale(1 0.1)");
+    expect(generateSvg({}, 64, { eyesClosed: true })).toContain("scale(1 0.1)");
+  });
+});
+
+describe("animationStyle", () => {
+  it("should stop every animation when reduced motion is preferred", () => {
+    const { text } = animationStyle();
+
+    expect(text).toContain("@media (prefers-reduced-motion:reduce)");
+    for (const name of ["blink", "talk", "breathe", "enter"]) {
+      expect(text).toMatch(
+        new RegExp(`\\.avatar-${name}\\{[^}]*animation:avatar-`),
+      );
+    }
+  });
+});
+
+describe("generateSvg animated", () => {
+  it("should not animate by default", () => {
+    expect(generateSvg()).not.toContain("<style>");
+  });
+
+  it("should embed the animation in the SVG", () => {
+    const svg = generateSvg({}, 128, { animated: true });
+
+    expect(svg).toMatch(/^<svg [^>]*><style>[^<]*@keyframes avatar-blink/);
+    expect(svg).toContain('<g class="avatar-breathe">');
+    expect(svg).not.toContain('<g class="avatar-talk">');
+  });
+
+  it("should loop the mouth while speaking", () => {
+    expect(generateSvg({}, 128, { animated: true, speaking: true })).toContain(
+      '<g class="avatar-talk">',
+    );
+    expect(generateSvg({}, 128, { speaking: true })).not.toContain("<style>");
+  });
+
+  it("should scope ids as usual", () => {
+    const svg = generateSvg({}, 128, { animated: true, idPrefix: "chat" });
+
+    expect(svg).toContain('id="chat-avatarClip"');
+  });
+});
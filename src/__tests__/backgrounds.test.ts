@@ -0,0 +1,147 @@
+import { describe, it, expect } from "vitest";
+import { getFillBackground } from "../utils/backgrounds";
+import { generateSvg } from "../utils/export";
+import { stringifySvg } from "../utils/svg";
+import { BackgroundFill, BACKGROUND_PATTERNS } from "../types";
+
+const ids = (markup: string) =>
+  [...markup.matchAll(/ id="([^"]*)"/g)].map((match) => match[1]);
+
+const backgroundIds = (markup: string) =>
+  ids(markup).filter((id) => id.startsWith("background-"));
+
+describe("getFillBackground", () => {
+  it("should draw a linear gradient from top to bottom by default", () => {
+    const markup = stringifySvg(
+      getFillBackground({ type: "linear", colors: ["peach", "#E56464"] }),
+    );
+
+    expect(markup).toContain('x1="0.5" y1="0" x2="0.5" y2="1"');
+    expect(markup).toContain('<stop offset="0" stop-color="#FFCB80"/>');
+    expect(markup).toContain('<stop offset="1" stop-color="#E56464"/>');
+  });
+
+  it("should follow the CSS angle convention", () => {
+    const markup = stringifySvg(
+      getFillBackground({
+        type: "linear",
+        colors: ["peach", "softPink", "coralRed"],
+        angle: 90,
+      }),
+    );
+
+    expect(markup).toContain('x1="0" y1="0.5" x2="1" y2="0.5"');
+    expect(markup).toContain('offset="0.5" stop-color="#FFDFE0"');
+  });
+
+  it("should draw a radial gradient from the center", () => {
+    const markup = stringifySvg(
+      getFillBackground({ type: "radial", colors: ["#ffffff", "babyBlue"] }),
+    );
+
+    expect(markup).toContain('<radialGradient id="background-');
+    expect(markup).toContain('cx="0.5" cy="0.5" r="0.5"');
+  });
+
+  it("should skip unknown and malformed colors", () => {
+    const markup = stringifySvg(
+      getFillBackground({
+        type: "radial",
+        colors: ["babyBlue", "teal" as never, "#12345"],
+      }),
+    );
+
+    expect(markup.match(/<stop /g)).toHaveLength(1);
+  });
+
+  it.each([...BACKGROUND_PATTERNS])(
+    "should draw the %s pattern over its color",
+    (pattern) => {
+      const markup = stringifySvg(
+        getFillBackground({ type: "pattern", pattern, color: "#123456" }),
+      );
+
+      expect(markup).toContain('<pattern id="background-');
+      expect(markup).toContain('fill="#123456"');
+      expect(markup).toMatch(/fill="url\(#background-\w+\)"/);
+    },
+  );
+
+  it("should draw patterns over babyBlue by default", () => {
+    const markup = stringifySvg(
+      getFillBackground({ type: "pattern", pattern: "dots" }),
+    );
+
+    expect(markup).toContain('fill="#B9E8FF"');
+  });
+
+  it("should paint the whole pattern in a custom pattern color", () => {
+    const markup = stringifySvg(
+      getFillBackground({
+        type: "pattern",
+        pattern: "confetti",
+        patternColor: "#FF00AA",
+      }),
+    );
+    const pattern = markup.match(/<pattern.*<\/pattern>/s)![0];
+
+    expect([...pattern.matchAll(/fill="([^"]*)"/g)].map((m) => m[1])).toEqual(
+      Array(9).fill("#FF00AA"),
+    );
+  });
+
+  it("should draw nothing for a transparent background", () => {
+    expect(getFillBackground({ type: "transparent" })).toEqual([]);
+  });
+
+  it("should draw nothing for a missing background", () => {
+    expect(getFillBackground(undefined as unknown as BackgroundFill)).toEqual(
+      [],
+    );
+  });
+});
+
+describe("background ids", () => {
+  const sunset: BackgroundFill = {
+    type: "linear",
+    colors: ["peach", "coralRed"],
+  };
+  const sea: BackgroundFill = {
+    type: "linear",
+    colors: ["babyBlue", "mintGreen"],
+  };
+
+  it("should give different backgrounds different ids without a prefix", () => {
+    const [first] = backgroundIds(generateSvg({ background: sunset }));
+    const [second] = backgroundIds(generateSvg({ background: sea }));
+
+    expect(first).toBeDefined();
+    expect(second).toBeDefined();
+    expect(first).not.toBe(second);
+  });
+
+  it("should give the same background the same id", () => {
+    expect(ids(generateSvg({ background: sunset }))).toEqual(
+      ids(generateSvg({ background: { ...sunset } })),
+    );
+  });
+
+  it("should scope gradient and pattern ids with the idPrefix", () => {
+    const svg = generateSvg(
+      { background: { type: "pattern", pattern: "stripes" } },
+      96,
+      { idPrefix: "u1" },
+    );
+
+    expect(ids(svg).every((id) => id.startsWith("u1-"))).toBe(true);
+    expect(svg).toMatch(/fill="url\(#u1-background-\w+\)"/);
+  });
+
+  it("should keep the character inside the outline when transparent", () => {
+    const svg = generateSvg({ background: { type: "transparent" } });
+
+    // The only full-size circle left is the clip outline
+    expect(svg.match(/r="237"/g)).toHaveLength(1);
+    expect(svg).toContain('clip-path="url(#avatarClip)"');
+  });
+});
@@ -0,0 +1,237 @@
+import { describe, it, expect } from "vitest";
+import {
+  countConfigs,
+  enumerateConfigs,
+  getCatalogPage,
+  getConfigAt,
+} from "../utils/catalog";
+import { validateConfig } from "../utils/validate";
+import {
+  BACKGROUNDS,
+  CatalogOptions,
+  EXPRESSIONS,
+  FACE_DETAILS,
+  HAIR_COLORS,
+  HAIRS,
+  SKINS,
+  TSHIRTS,
+} from "../types";
+
+/** One background, skin, t-shirt and hairstyle; no accessories. */
+const SMALL: CatalogOptions = {
+  locked: { background: "mintGreen", skin: "softPeach", tshirt: "blue" },
+  include: { hair: ["bob", "spaceBuns"], faceDetail: ["none", "blush"] },
+  accessories: [],
+};
+
+describe("countConfigs", () => {
+  it("should count every combination", () => {
+    expect(countConfigs()).toBe(
+      BACKGROUNDS.length *
+        SKINS.length *
+        TSHIRTS.length *
+        EXPRESSIONS.length *
+        HAIRS.length *
+        // Each hairstyle's own color and the named colors
+        (HAIR_COLORS.length + 1) *
+        FACE_DETAILS.length *
+        48,
+    );
+  });
+
+  it("should count a filtered catalog", () => {
+    // 13 expressions * 2 hairstyles * 13 hair colors * 2 face details
+    expect(countConfigs(SMALL)).toBe(13 * 2 * 13 * 2);
+  });
+
+  it("should honor include and exclude lists", () => {
+    const base: CatalogOptions = {
+      accessories: [],
+      locked: { hairColor: undefined, faceDetail: "none" },
+    };
+
+    expect(countConfigs(base)).toBe(8 * 5 * 9 * 13 * 27);
+    expect(
+      countConfigs({
+        ...base,
+        include: { expression: ["happy", "sad"] },
+        exclude: { expression: ["sad"], background: ["darkGray"] },
+      }),
+    ).toBe(7 * 5 * 9 * 1 * 27);
+  });
+
+  it("should leave out each hairstyle's own color with a hair color allow-list", () => {
+    expect(
+      countConfigs({ ...SMALL, include: { hairColor: ["black", "red"] } }),
+    ).toBe(13 * 27 * 2 * 7);
+  });
+
+  it("should be zero when a filter leaves no options", () => {
+    expect(countConfigs({ include: { expression: [] } })).toBe(0);
+  });
+});
+
+describe("enumerateConfigs", () => {
+  it("should list every config of the catalog once", () => {
+    const configs = [...enumerateConfigs(SMALL)];
+    const keys = new Set(configs.map((config) => JSON.stringify(config)));
+
+    expect(configs).toHaveLength(countConfigs(SMALL));
+    expect(keys.size).toBe(configs.length);
+  });
+
+  it("should only list valid configs", () => {
+    for (const config of enumerateConfigs({
+      ...SMALL,
+      accessories: ["sunglasses", "cap", "headphones"],
+    })) {
+      expect(validateConfig(config)).toEqual([]);
+    }
+  });
+
+  it("should list the configs in index order", () => {
+    let index = 0;
+    for (const config of enumerateConfigs(SMALL)) {
+      expect(config).toEqual(getConfigAt(index++, SMALL));
+    }
+  });
+
+  it("should start with the first option of every attribute", () => {
+    const [first] = enumerateConfigs();
+
+    expect(first).toEqual({
+      background: "babyBlue",
+      skin: "deepBrown",
+      tshirt: "amber",
+      expression: "angry",
+      hair: "afroPuffs",
+      faceDetail: "none",
+    });
+  });
+
+  it("should be lazy", () => {
+    const iterator = enumerateConfigs();
+
+    expect(iterator.next().done).toBe(false);
+    expect(iterator.next().value).toHaveProperty("accessories");
+  });
+
+  it("should keep locked values, including custom colors", () => {
+    for (const config of enumerateConfigs({
+      ...SMALL,
+      locked: { tshirt: "#0B3D91", accessories: ["beanie"] },
+    })) {
+      expect(config.tshirt).toBe("#0B3D91");
+      expect(config.accessories).toEqual(["beanie"]);
+    }
+  });
+});
+
+describe("getConfigAt", () => {
+  it("should change the last attribute fastest", () => {
+    expect(getConfigAt(0, SMALL)).toEqual({
+      background: "mintGreen",
+      skin: "softPeach",
+      tshirt: "blue",
+      expression: "angry",
+      hair: "bob",
+      faceDetail: "none",
+    });
+    expect(getConfigAt(1, SMALL)).toMatchObject({ faceDetail: "blush" });
+    expect(getConfigAt(2, SMALL)).toMatchObject({
+      hairColor: "black",
+      faceDetail: "none",
+    });
+  });
+
+  it("should return the same config for the same index", () => {
+    expect(getConfigAt(123456789)).toEqual(getConfigAt(123456789));
+  });
+
+  it("should reach the last config", () => {
+    const last = getConfigAt(countConfigs() - 1);
+
+    expect(last).toMatchObject({
+      background: BACKGROUNDS[BACKGROUNDS.length - 1],
+      hair: HAIRS[HAIRS.length - 1],
+      hairColor: HAIR_COLORS[HAIR_COLORS.length - 1],
+      faceDetail: FACE_DETAILS[FACE_DETAILS.length - 1],
+    });
+    expect(last.accessories).toHaveLength(3);
+  });
+
+  it("should keep indices across releases", () => {
+    expect(getConfigAt(123456789)).toEqual({
+      background: "coralRed",
+      skin: "softPeach",
+      tshirt: "yellow",
+      expression: "shocked",
+      hair: "spaceBuns",
+      hairColor: "bubblegumPink",
+      faceDetail: "blush",
+      accessories: ["roundGlasses", "cap", "studEarrings"],
+    });
+  });
+
+  it("should reject unknown versions", () => {
+    expect(() => getConfigAt(0, { version: 2 as never })).toThrow(
+      "Unsupported catalog version: 2",
+    );
+  });
+
+  it("should reject indices outside the catalog", () => {
+    const total = countConfigs(SMALL);
+
+    for (const index of [-1, total, 1.5, NaN]) {
+      expect(() => getConfigAt(index, SMALL)).toThrow(
+        `Invalid catalog index: ${index} (the catalog has ${total} configurations)`,
+      );
+    }
+  });
+});
+
+describe("getCatalogPage", () => {
+  it("should pair each config with its index", () => {
+    const { entries } = getCatalogPage(2, 10, SMALL);
+
+    expect(entries.map(({ index }) => index)).toEqual([
+      20, 21, 22, 23, 24, 25, 26, 27, 28, 29,
+    ]);
+    for (const { index, config } of entries) {
+      expect(config).toEqual(getConfigAt(index, SMALL));
+    }
+  });
+
+  it("should report the totals", () => {
+    const page = getCatalogPage(0, 100, SMALL);
+
+    expect(page).toMatchObject({
+      page: 0,
+      pageSize: 100,
+      total: 676,
+      pageCount: 7,
+    });
+  });
+
+  it("should cover the catalog without gaps", () => {
+    const { pageCount } = getCatalogPage(0, 100, SMALL);
+    const indices = Array.from({ length: pageCount }, (_, page) =>
+      getCatalogPage(page, 100, SMALL).entries.map(({ index }) => index),
+    ).flat();
+
+    expect(indices).toEqual([...Array(676).keys()]);
+  });
+
+  it("should return an empty page past the end", () => {
+    expect(getCatalogPage(7, 100, SMALL).entries).toEqual([]);
+  });
+
+  it("should default to 50 configs per page", () => {
+    expect(getCatalogPage(0).entries).toHaveLength(50);
+  });
+
+  it("should reject invalid pages", () => {
+    expect(() => getCatalogPage(-1)).toThrow("Invalid page: -1");
+    expect(() => getCatalogPage(0, 0)).toThrow("Invalid page size: 0");
+  });
+});
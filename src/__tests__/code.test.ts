@@ -0,0 +1,277 @@
+import { describe, it, expect } from "vitest";
+import { encodeConfig, decodeConfig, LATEST_CODE_VERSION } from "../utils/code";
+import { defaultConfig } from "../utils/export";
+import { generateRandomConfig } from "../utils/random";
+import {
+  AvatarConfig,
+  BACKGROUNDS,
+  SKINS,
+  TSHIRTS,
+  EXPRESSIONS,
+  HAIRS,
+} from "../types";
+
+describe("encodeConfig", () => {
+  it("should produce short URL-safe codes", () => {
+    const code = encodeConfig(defaultConfig);
+
+    expect(code).toMatch(/^[0-9A-Za-z]{5}$/);
+    expect(encodeURIComponent(code)).toBe(code);
+  });
+
+  it("should prefix codes with the version", () => {
+    expect(LATEST_CODE_VERSION).toBe(2);
+    expect(encodeConfig(defaultConfig)[0]).toBe("2");
+    expect(encodeConfig(defaultConfig, 1)[0]).toBe("1");
+  });
+
+  it("should keep published codes stable", () => {
+    const config: AvatarConfig = {
+      background: "darkGray",
+      skin: "mediumTan",
+      tshirt: "green",
+      expression: "laughing",
+      hair: "bowlCut",
+    };
+
+    expect(encodeConfig(defaultConfig, 1)).toBe("12r6");
+    expect(encodeConfig(config, 1)).toBe("1AAD");
+    expect(encodeConfig(defaultConfig)).toBe("2HDXM");
+    expect(encodeConfig({ ...config, hairColor: "red" })).toBe("25OvTU");
+  });
+
+  it("should encode random configs", () => {
+    for (let i = 0; i < 50; i++) {
+      const config = generateRandomConfig();
+
+      expect(decodeConfig(encodeConfig(config))).toEqual(config);
+    }
+  });
+
+  it("should encode hair colors and face details", () => {
+    const config: AvatarConfig = {
+      ...defaultConfig,
+      hairColor: "electricBlue",
+      faceDetail: "goatee",
+    };
+
+    expect(decodeConfig(encodeConfig(config))).toEqual(config);
+    expect(
+      decodeConfig(encodeConfig({ ...defaultConfig, faceDetail: "none" })),
+    ).toEqual({ ...defaultConfig, faceDetail: "none" });
+  });
+
+  it("should encode accessories in the library's order", () => {
+    const code = encodeConfig({
+      ...defaultConfig,
+      accessories: ["headphones", "roundGlasses"],
+    });
+
+    expect(decodeConfig(code)).toEqual({
+      ...defaultConfig,
+      accessories: ["roundGlasses", "headphones"],
+    });
+    expect(encodeConfig({ ...defaultConfig, accessories: [] })).toBe(
+      encodeConfig(defaultConfig),
+    );
+    expect(() =>
+      encodeConfig({ ...defaultConfig, accessories: ["monocle"] } as never),
+    ).toThrow('Cannot encode accessory "monocle" in avatar code version 2');
+  });
+
+  it("should encode custom colors in uppercase", () => {
+    const code = encodeConfig({
+      ...defaultConfig,
+      background: "#000",
+      tshirt: "#0b3d91",
+      hairColor: "#B5651D",
+    });
+
+    expect(decodeConfig(code)).toEqual({
+      ...defaultConfig,
+      background: "#000000",
+      tshirt: "#0B3D91",
+      hairColor: "#B5651D",
+    });
+  });
+
+  it("should encode gradient, pattern and transparent backgrounds", () => {
+    for (const background of [
+      { type: "linear", colors: ["peach", "#123456"] },
+      { type: "linear", colors: ["peach", "coralRed", "softPink"], angle: 0 },
+      { type: "linear", colors: ["peach", "coralRed"], angle: 359 },
+      { type: "radial", colors: ["#FFFFFF", "mintGreen"] },
+      { type: "pattern", pattern: "dots" },
+      {
+        type: "pattern",
+        pattern: "confetti",
+        color: "#000000",
+        patternColor: "#FF0000",
+      },
+      { type: "transparent" },
+    ] as const satisfies AvatarConfig["background"][]) {
+      const config: AvatarConfig = { ...defaultConfig, background };
+
+      expect(decodeConfig(encodeConfig(config))).toEqual(config);
+    }
+  });
+
+  it("should encode no background", () => {
+    const config: AvatarConfig = { ...defaultConfig, background: "none" };
+
+    expect(decodeConfig(encodeConfig(config))).toEqual(config);
+  });
+
+  it("should reject gradients it cannot hold", () => {
+    expect(() =>
+      encodeConfig({
+        ...defaultConfig,
+        background: { type: "radial", colors: Array(9).fill("peach") },
+      }),
+    ).toThrow(
+      "Cannot encode a radial background with 9 colors in avatar code version 2",
+    );
+    expect(() =>
+      encodeConfig({
+        ...defaultConfig,
+        background: { type: "linear", colors: ["peach", "peach"], angle: 22.5 },
+      }),
+    ).toThrow('Cannot encode background angle "22.5" in avatar code version 2');
+  });
+
+  it("should reject values outside the version's option lists", () => {
+    expect(() =>
+      encodeConfig({ ...defaultConfig, hair: "mohawk" } as never),
+    ).toThrow('Cannot encode hair "mohawk" in avatar code version 2');
+    expect(() =>
+      encodeConfig({ ...defaultConfig, hair: "mohawk" } as never, 1),
+    ).toThrow('Cannot encode hair "mohawk" in avatar code version 1');
+  });
+
+  it("should reject unknown versions", () => {
+    expect(() => encodeConfig(defaultConfig, 3 as never)).toThrow(
+      "Unsupported avatar code version: 3",
+    );
+  });
+});
+
+describe("encodeConfig version 1", () => {
+  it("should reject custom colors", () => {
+    expect(() =>
+      encodeConfig({ ...defaultConfig, tshirt: "#0B3D91" }, 1),
+    ).toThrow('Cannot encode tshirt "#0B3D91" in avatar code version 1');
+    expect(() =>
+      encodeConfig({ ...defaultConfig, hairColor: "#B5651D" }, 1),
+    ).toThrow('Cannot encode hairColor "#B5651D" in avatar code version 1');
+  });
+
+  it("should reject face details", () => {
+    expect(() =>
+      encodeConfig({ ...defaultConfig, faceDetail: "goatee" }, 1),
+    ).toThrow('Cannot encode faceDetail "goatee" in avatar code version 1');
+    expect(encodeConfig({ ...defaultConfig, faceDetail: "none" }, 1)).toBe(
+      "12r6",
+    );
+  });
+
+  it("should reject backgrounds other than a named color", () => {
+    expect(() =>
+      encodeConfig(
+        {
+          ...defaultConfig,
+          background: { type: "linear", colors: ["peach", "coralRed"] },
+        },
+        1,
+      ),
+    ).toThrow("Cannot encode a linear background in avatar code version 1");
+    expect(() =>
+      encodeConfig(
+        { ...defaultConfig, background: { type: "transparent" } },
+        1,
+      ),
+    ).toThrow("Cannot encode a transparent background");
+    expect(() =>
+      encodeConfig({ ...defaultConfig, background: "none" }, 1),
+    ).toThrow('Cannot encode background "none" in avatar code version 1');
+  });
+
+  it("should reject accessories", () => {
+    expect(() =>
+      encodeConfig({ ...defaultConfig, accessories: ["cap"] }, 1),
+    ).toThrow("Cannot encode accessories in avatar code version 1");
+    expect(encodeConfig({ ...defaultConfig, accessories: [] }, 1)).toBe("12r6");
+  });
+});
+
+describe("decodeConfig", () => {
+  it("should round-trip every combination", () => {
+    const seen = new Set<string>();
+    for (const background of BACKGROUNDS) {
+      for (const skin of SKINS) {
+        for (const tshirt of TSHIRTS) {
+          for (const expression of EXPRESSIONS) {
+            for (const hair of HAIRS) {
+              const config: AvatarConfig = {
+                background,
+                skin,
+                tshirt,
+                expression,
+                hair,
+              };
+              const code = encodeConfig(config);
+              seen.add(code);
+
+              expect(decodeConfig(code)).toEqual(config);
+            }
+          }
+        }
+      }
+    }
+
+    expect(seen.size).toBe(126360);
+  });
+
+  it("should keep decoding version 1 codes", () => {
+    expect(decodeConfig("12r6")).toEqual(defaultConfig);
+    expect(decodeConfig("1AAD")).toEqual({
+      background: "darkGray",
+      skin: "mediumTan",
+      tshirt: "green",
+      expression: "laughing",
+      hair: "bowlCut",
+    });
+  });
+
+  it("should reject empty input", () => {
+    expect(() => decodeConfig("")).toThrow("expected a non-empty string");
+  });
+
+  it("should reject unknown versions", () => {
+    expect(() => decodeConfig("9000")).toThrow(
+      'Unsupported avatar code version "9"',
+    );
+  });
+
+  it("should reject codes of the wrong length", () => {
+    expect(() => decodeConfig("12e")).toThrow("expected 4 characters");
+    expect(() => decodeConfig("12egg")).toThrow("expected 4 characters");
+    expect(() => decodeConfig("2")).toThrow("expected at least 2 characters");
+  });
+
+  it("should reject version 2 codes padded with leading zeros", () => {
+    expect(() => decodeConfig("20HDXM")).toThrow("unexpected leading zero");
+    expect(() => decodeConfig("200")).toThrow("unexpected leading zero");
+    expect(decodeConfig("2HDXM")).toEqual(defaultConfig);
+  });
+
+  it("should reject characters outside the alphabet", () => {
+    expect(() => decodeConfig("12e-")).toThrow('unexpected character "-"');
+  });
+
+  it("should reject out-of-range values", () => {
+    expect(() => decodeConfig("1zzz")).toThrow("value out of range");
+    expect(() => decodeConfig(`2${"z".repeat(40)}HDXM`)).toThrow(
+      "value out of range",
+    );
+  });
+});
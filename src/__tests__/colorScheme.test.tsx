@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import { render } from "@testing-library/react";
+import { Avatar } from "../components/Avatar";
+import { generateSvg } from "../utils/export";
+import { AvatarConfig } from "../types";
+
+const config: AvatarConfig = {
+  background: "darkGray",
+  skin: "softPeach",
+  tshirt: "charcoal",
+  expression: "happy",
+  hair: "shortBuzz",
+};
+
+/** Colors of `darkGray` and `charcoal` in the `dark` theme. */
+const DARK_BACKGROUND = 'fill="#6E6E78"';
+const DARK_TSHIRT = 'fill="#6B6F78"';
+
+describe("colorScheme", () => {
+  it("should draw the light palette by default", () => {
+    const svg = generateSvg(config);
+
+    expect(svg).not.toContain(DARK_BACKGROUND);
+    expect(svg).not.toContain("<style>");
+  });
+
+  it("should draw the dark palette", () => {
+    const svg = generateSvg(config, 474, { colorScheme: "dark" });
+
+    expect(svg).toContain(DARK_BACKGROUND);
+    expect(svg).toContain(DARK_TSHIRT);
+    expect(svg).not.toContain("<style>");
+  });
+
+  it("should keep the colors of a theme", () => {
+    const svg = generateSvg(config, 474, {
+      colorScheme: "dark",
+      theme: { tshirt: { charcoal: "#ABCDEF" } },
+    });
+
+    expect(svg).toContain(DARK_BACKGROUND);
+    expect(svg).toContain('fill="#ABCDEF"');
+    expect(svg).not.toContain(DARK_TSHIRT);
+  });
+
+  it("should switch palettes with prefers-color-scheme", () => {
+    const svg = generateSvg(config, 474, { colorScheme: "auto" });
+    const dark = svg.indexOf('<g class="avatar-dark">');
+
+    expect(svg).toContain("@media (prefers-color-scheme:dark)");
+    expect(svg.indexOf('<g class="avatar-light">')).toBeGreaterThan(0);
+    expect(svg.indexOf(DARK_BACKGROUND)).toBeGreaterThan(dark);
+  });
+
+  it("should keep the ids of both palettes unique", () => {
+    const svg = generateSvg(config, 474, {
+      colorScheme: "auto",
+      idPrefix: "a",
+    });
+    const ids = [...svg.matchAll(/ id="([^"]+)"/g)].map((match) => match[1]);
+
+    expect(ids).toContain("a-avatarClip");
+    expect(ids).toContain("a-dark-avatarClip");
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it("should draw the dark palette in <Avatar>", () => {
+    const { container } = render(<Avatar {...config} colorScheme="dark" />);
+
+    expect(container.querySelector('[fill="#6E6E78"]')).not.toBeNull();
+  });
+});
+
+describe("outline", () => {
+  const ring = (svg: string) =>
+    /<g clip-path="url\(#avatarRingClip\)"><[^>]*stroke="([^"]+)" stroke-width="([^"]+)"/.exec(
+      svg,
+    );
+
+  it("should draw no ring by default", () => {
+    expect(ring(generateSvg(config))).toBeNull();
+  });
+
+  it("should draw a 2px ring that suits the palette", () => {
+    expect(ring(generateSvg(config, 474, { outline: true }))?.slice(1)).toEqual(
+      ["#D4D8DD", "4"],
+    );
+    expect(
+      ring(
+        generateSvg(config, 237, { outline: true, colorScheme: "dark" }),
+      )?.slice(1),
+    ).toEqual(["#F2F2F2", "8"]);
+  });
+
+  it("should draw the ring in a custom color for every shape", () => {
+    for (const shape of ["circle", "square", "rounded", "squircle"] as const) {
+      expect(
+        ring(generateSvg(config, 474, { outline: "#FF0000", shape }))?.[1],
+      ).toBe("#FF0000");
+    }
+  });
+
+  it("should draw no ring for fullBleed or a malformed color", () => {
+    expect(
+      ring(generateSvg(config, 474, { outline: true, shape: "fullBleed" })),
+    ).toBeNull();
+    expect(
+      ring(generateSvg(config, 474, { outline: "red" as "#000" })),
+    ).toBeNull();
+  });
+
+  it("should draw the ring in <Avatar>", () => {
+    const { container } = render(<Avatar {...config} outline="#FF0000" />);
+
+    expect(container.querySelector('[stroke="#FF0000"]')).not.toBeNull();
+  });
+});
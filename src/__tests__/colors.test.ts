@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import {
+  getColoredPart,
+  isHexColor,
+  recolorHair,
+  resolveHairColor,
+} from "../utils/colors";
+import { getPart } from "../components/svg/parts";
+import { generateSvg } from "../utils/export";
+import { stringifySvg } from "../utils/svg";
+import { HAIRS, HAIR_COLORS } from "../types";
+
+const fillOpacities = (markup: string) =>
+  [...markup.matchAll(/fill-opacity="([^"]*)"/g)].map((match) => match[1]);
+
+/** Markup of everything outside `<defs>`, i.e. what is actually painted. */
+const painted = (markup: string) => markup.replace(/<defs>.*?<\/defs>/gs, "");
+
+describe("isHexColor", () => {
+  it("should accept #rgb and #rrggbb in either case", () => {
+    for (const color of ["#fff", "#0B3D91", "#b5651d"]) {
+      expect(isHexColor(color)).toBe(true);
+    }
+  });
+
+  it("should reject other values", () => {
+    for (const value of ["fff", "#ffff", "#12345g", "red", "", 42, undefined]) {
+      expect(isHexColor(value)).toBe(false);
+    }
+  });
+});
+
+describe("getColoredPart", () => {
+  it.each([
+    ["background", "babyBlue", "#B9E8FF"],
+    ["tshirt", "orange", "#F58D3E"],
+    ["skin", "mediumTan", "#C17D54"],
+  ] as const)(
+    "should reproduce %s %s from its own color",
+    (category, option, color) => {
+      expect(getColoredPart(category, color)).toEqual(
+        getPart(category, option),
+      );
+    },
+  );
+
+  it("should replace every shade of the template color", () => {
+    const markup = stringifySvg(getColoredPart("tshirt", "#0B3D91"));
+
+    expect(markup).toContain('fill="#0B3D91"');
+    expect(markup).not.toContain("#F58D3E");
+  });
+
+  it.each([
+    ["#6A3B3A", "0.2"],
+    ["#8A5244", "0.2"],
+    ["#FAD9C4", "0.05"],
+    ["#FFFFFF", "0.05"],
+  ])("should shade the ears of skin %s at %s", (color, opacity) => {
+    const markup = stringifySvg(getColoredPart("skin", color as `#${string}`));
+
+    expect(fillOpacities(markup)).toEqual([opacity, opacity]);
+  });
+
+  it("should interpolate the ear shade between built-in tones", () => {
+    const [opacity] = fillOpacities(
+      stringifySvg(getColoredPart("skin", "#E0AB8B")),
+    ).map(Number);
+
+    expect(opacity).toBeGreaterThan(0.05);
+    expect(opacity).toBeLessThan(0.1);
+  });
+
+  it("should leave clip paths untouched", () => {
+    const markup = stringifySvg(getColoredPart("skin", "#123456"));
+
+    expect(markup).toContain('<rect width="474" height="474" fill="white"/>');
+  });
+});
+
+describe("recolorHair", () => {
+  it.each([...HAIRS])("should paint %s in the custom color", (hair) => {
+    const original = getPart("hair", hair)!;
+    const markup = painted(stringifySvg(recolorHair(original, "#B5651D")));
+    // Translucent shadows keep their color
+    const opaque = markup.replace(/<[^>]* opacity="[^"]*"[^>]*>/g, "");
+
+    expect(opaque).toContain("#B5651D");
+    expect(opaque).not.toMatch(/(fill|stroke)="(black|#CC8F70)"/);
+  });
+
+  it("should keep the shadow of a hairstyle and its clip paths", () => {
+    const bowlCut = stringifySvg(
+      recolorHair(getPart("hair", "bowlCut")!, "#B5651D"),
+    );
+
+    expect(bowlCut).toMatch(/<path opacity="0.2" d="[^"]*" fill="black"\/>/);
+  });
+});
+
+describe("resolveHairColor", () => {
+  it("should give every named hair color a distinct paint", () => {
+    const paints = HAIR_COLORS.map(resolveHairColor);
+
+    paints.forEach((paint) => expect(isHexColor(paint)).toBe(true));
+    expect(new Set(paints).size).toBe(HAIR_COLORS.length);
+  });
+
+  it("should pass custom colors through", () => {
+    expect(resolveHairColor("#B5651D")).toBe("#B5651D");
+  });
+
+  it("should keep the style's own color for missing or unknown values", () => {
+    expect(resolveHairColor(undefined)).toBeUndefined();
+    expect(resolveHairColor("teal")).toBeUndefined();
+    expect(resolveHairColor("toString")).toBeUndefined();
+  });
+});
+
+describe("generateSvg with custom colors", () => {
+  it("should draw custom background, t-shirt, skin and hair colors", () => {
+    const svg = generateSvg({
+      background: "#112233",
+      tshirt: "#445566",
+      skin: "#778899",
+      hairColor: "#AABBCC",
+    });
+
+    for (const color of ["#112233", "#445566", "#778899", "#AABBCC"]) {
+      expect(svg).toContain(`"${color}"`);
+    }
+  });
+
+  it.each([...HAIRS])("should apply a named hair color to %s", (hair) => {
+    const svg = generateSvg({ hair, hairColor: "blonde" });
+
+    expect(svg).toContain(`"${resolveHairColor("blonde")}"`);
+    expect(svg).not.toBe(generateSvg({ hair }));
+  });
+
+  it("should match the named option for its own color", () => {
+    expect(generateSvg({ tshirt: "#F58D3E" })).toBe(
+      generateSvg({ tshirt: "orange" }),
+    );
+  });
+
+  it("should draw nothing for a malformed color", () => {
+    expect(generateSvg({ tshirt: "#nope" })).not.toContain("#F58D3E");
+  });
+});
@@ -6,7 +6,7 @@ import {
   downloadSvg,
   downloadPng,
 } from "../utils/export";
-import { AvatarConfig } from "../types";
+import { AvatarConfig, SKINS } from "../types";
 
 const testConfig: AvatarConfig = {
   background: "mintGreen",
@@ -54,6 +54,19 @@ describe("generateSvg", () => {
     expect(svg).toContain("</svg>");
   });
 
+  it("should use defaults for attributes set to undefined", () => {
+    expect(generateSvg({ background: undefined })).toBe(generateSvg());
+    expect(generateSvg({ tshirt: undefined, hair: undefined })).toBe(
+      generateSvg(),
+    );
+  });
+
+  it("should render each skin option differently", () => {
+    const svgs = SKINS.map((skin) => generateSvg({ ...testConfig, skin }));
+
+    expect(new Set(svgs).size).toBe(SKINS.length);
+  });
+
   it("should include clip path for avatar circle", () => {
     const svg = generateSvg(testConfig);
 
@@ -62,6 +75,109 @@ describe("generateSvg", () => {
   });
 });
 
+describe("generateSvg idPrefix", () => {
+  it("should leave ids unchanged without a prefix", () => {
+    const svg = generateSvg(testConfig);
+
+    expect(svg).toContain('clip-path="url(#avatarClip)"');
+  });
+
+  it("should prefix every id and reference", () => {
+    const svg = generateSvg(
+      { ...testConfig, hair: "afroPuffs", expression: "angry" },
+      474,
+      { idPrefix: "u1" },
+    );
+    const ids = [...svg.matchAll(/\sid="([^"]+)"/g)].map((m) => m[1]);
+    const references = [...svg.matchAll(/url\(#([^)]+)\)/g)].map((m) => m[1]);
+
+    expect(ids.length).toBeGreaterThan(0);
+    expect(references.length).toBeGreaterThan(0);
+    ids.forEach((id) => expect(id.startsWith("u1-")).toBe(true));
+    references.forEach((id) => expect(ids).toContain(id));
+  });
+
+  it("should not duplicate ids when two avatars share a document", () => {
+    const markup =
+      generateSvg(testConfig, 474, { idPrefix: "a" }) +
+      generateSvg({ ...testConfig, skin: "deepBrown" }, 474, { idPrefix: "b" });
+    const ids = [...markup.matchAll(/\sid="([^"]+)"/g)].map((m) => m[1]);
+
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it("should strip characters that are not valid in ids", () => {
+    const svg = generateSvg(testConfig, 474, { idPrefix: 'a b"c' });
+
+    expect(svg).toContain('<clipPath id="abc-avatarClip">');
+    expect(svg).toContain('clip-path="url(#abc-avatarClip)"');
+  });
+});
+
+describe("generateSvg shape", () => {
+  it("should clip to a circle by default", () => {
+    const svg = generateSvg(testConfig);
+
+    expect(svg).toContain('<clipPath id="avatarClip"><circle cx="237" cy="237" r="237"/>');
+    expect(svg).not.toContain("preserveAspectRatio");
+  });
+
+  it("should clip to a square and cover it with the background", () => {
+    const svg = generateSvg(testConfig, 474, { shape: "square" });
+
+    expect(svg).toContain('<clipPath id="avatarClip"><rect width="474" height="474"/>');
+    expect(svg).toContain('<g clip-path="url(#avatarClip)"><g transform=');
+  });
+
+  it("should scale the corner radius with the size", () => {
+    expect(
+      generateSvg(testConfig, 96, { shape: "rounded", cornerRadius: 12 }),
+    ).toContain('rx="59.25"');
+    expect(generateSvg(testConfig, 474, { shape: "rounded" })).toContain(
+      'rx="94.8"',
+    );
+    expect(
+      generateSvg(testConfig, 100, { shape: "rounded", cornerRadius: 500 }),
+    ).toContain('rx="237"');
+  });
+
+  it("should clip to a squircle path", () => {
+    const svg = generateSvg(testConfig, 474, { shape: "squircle" });
+
+    expect(svg).toMatch(/<clipPath id="avatarClip"><path d="M474 237L/);
+  });
+
+  it("should leave full-bleed avatars unclipped and covering their box", () => {
+    const svg = generateSvg(testConfig, 474, { shape: "fullBleed" });
+
+    expect(svg).not.toContain("avatarClip");
+    expect(svg).toContain('preserveAspectRatio="xMidYMid slice"');
+  });
+});
+
+describe("generateSvg without a background", () => {
+  it("should omit the background and keep the character clipped", () => {
+    const svg = generateSvg({ ...testConfig, background: "none" });
+
+    expect(svg).not.toContain("#B9E8FF");
+    expect(svg).toContain('<g clip-path="url(#avatarClip)">');
+  });
+
+  it("should draw the whole body when clipBody is false", () => {
+    const svg = generateSvg({ ...testConfig, background: "none" }, 474, { clipBody: false });
+
+    expect(svg).not.toContain("avatarClip");
+    expect(svg).toContain("#45A1CD");
+  });
+
+  it("should still clip the background of other shapes", () => {
+    const svg = generateSvg(testConfig, 474, { shape: "square", clipBody: false });
+
+    expect(svg).toMatch(/<g clip-path="url\(#avatarClip\)"><g transform="[^"]*"><circle [^>]*\/><\/g><\/g>/);
+    expect(svg).toContain("#45A1CD");
+  });
+});
+
 describe("generateBase64", () => {
   it("should return a valid base64 data URL", () => {
     const dataUrl = generateBase64(testConfig);
@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import { defaultConfig } from "../utils/export";
+import { getPart } from "../components/svg/parts";
+import { composeAvatar } from "../utils/compose";
+import { generateSvg } from "../utils/export";
+import { SvgNode } from "../utils/svg";
+import { decodeConfig, encodeConfig } from "../utils/code";
+import {
+  EXPRESSIONS,
+  FACE_DETAILS,
+  ExpressionType,
+  FaceDetailType,
+} from "../types";
+
+/** The character layers, in drawing order, of a circle avatar. */
+function characterLayers(
+  faceDetail: FaceDetailType,
+  expression: ExpressionType = "happy",
+) {
+  const nodes = composeAvatar({ ...defaultConfig, expression, faceDetail }, "");
+  return nodes[nodes.length - 1].children;
+}
+
+const isBeard = (node: SvgNode) => node.attrs.d?.startsWith("M86 284");
+
+describe("face detail layer", () => {
+  it("should draw nothing for none or when left out", () => {
+    expect(generateSvg({ faceDetail: "none" })).toBe(generateSvg({}));
+  });
+
+  it.each(FACE_DETAILS.filter((detail) => detail !== "none"))(
+    "should draw %s",
+    (faceDetail) => {
+      expect(generateSvg({ faceDetail })).not.toBe(generateSvg({}));
+    },
+  );
+
+  it.each([...EXPRESSIONS])(
+    "should keep the %s mouth above a beard",
+    (expression) => {
+      const layers = characterLayers("fullBeard", expression);
+      const firstExpressionNode = getPart("expression", expression)![0];
+
+      expect(layers.findIndex(isBeard)).toBeGreaterThan(-1);
+      expect(layers.indexOf(firstExpressionNode)).toBeGreaterThan(
+        layers.findIndex(isBeard),
+      );
+    },
+  );
+
+  it("should draw facial hair in the hair color", () => {
+    expect(
+      generateSvg({ faceDetail: "mustache", hairColor: "#AABBCC" }),
+    ).toContain('fill="#AABBCC"');
+    // Without a hair color, the hairstyle's own color is used
+    expect(
+      generateSvg({ hair: "shortBuzz", faceDetail: "goatee" }).match(
+        /fill="#CC8F70"/g,
+      ),
+    ).toHaveLength(3);
+  });
+
+  it("should keep freckles and blush in their own colors", () => {
+    const svg = generateSvg({ faceDetail: "freckles", hairColor: "#AABBCC" });
+
+    expect(svg).toContain('fill="#B8643C"');
+    expect(svg.match(/#AABBCC/g)).toHaveLength(
+      generateSvg({ hairColor: "#AABBCC" }).match(/#AABBCC/g)!.length,
+    );
+  });
+});
+
+describe("share codes", () => {
+  it.each(FACE_DETAILS)("should keep %s", (faceDetail) => {
+    const config = { ...defaultConfig, faceDetail };
+
+    expect(decodeConfig(encodeConfig(config))).toEqual(config);
+  });
+});
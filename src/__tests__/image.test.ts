@@ -0,0 +1,258 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Blob as NodeBlob } from "node:buffer";
+import {
+  generateImage,
+  downloadImage,
+  isImageFormatSupported,
+} from "../utils/image";
+import { generateImage as generateRasterImage } from "../utils/rasterize";
+import { AvatarConfig } from "../types";
+
+const testConfig: AvatarConfig = {
+  background: "mintGreen",
+  skin: "softPeach",
+  tshirt: "blue",
+  expression: "happy",
+  hair: "shortBuzz",
+};
+
+/**
+ * Stands in for a browser canvas whose encoders support `encodable` types;
+ * like real browsers, it falls back to PNG for anything else.
+ */
+function mockCanvas(encodable: string[]) {
+  const ctx = {
+    fillStyle: "",
+    fillRect: vi.fn(),
+    drawImage: vi.fn(),
+  };
+  const encodedType = (type: string) =>
+    encodable.includes(type) ? type : "image/png";
+  const canvas = {
+    width: 0,
+    height: 0,
+    getContext: () => ctx,
+    toDataURL: (type: string) => `data:${encodedType(type)};base64,AAAA`,
+    toBlob: vi.fn(
+      (callback: (blob: NodeBlob) => void, type: string, _quality?: number) => {
+        // jsdom's Blob lacks arrayBuffer(), so hand out Node's
+        callback(
+          new NodeBlob([new Uint8Array([1, 2, 3])], {
+            type: encodedType(type),
+          }),
+        );
+      },
+    ),
+  };
+  const anchor = { href: "", download: "", click: vi.fn() };
+  const mocks: Record<string, unknown> = { canvas, a: anchor };
+  const createElement = document.createElement.bind(document);
+  vi.spyOn(document, "createElement").mockImplementation(
+    (tag: string) => (mocks[tag] ?? createElement(tag)) as HTMLElement,
+  );
+  vi.stubGlobal(
+    "Image",
+    class {
+      onload: (() => void) | null = null;
+      set src(_: string) {
+        queueMicrotask(() => this.onload?.());
+      }
+    },
+  );
+  return { canvas, ctx, anchor };
+}
+
+function withoutWindow(run: () => Promise<void>) {
+  return async () => {
+    const windowDescriptor = Object.getOwnPropertyDescriptor(
+      globalThis,
+      "window",
+    );
+    // @ts-expect-error - intentionally setting window to undefined
+    delete globalThis.window;
+    try {
+      await run();
+    } finally {
+      if (windowDescriptor) {
+        Object.defineProperty(globalThis, "window", windowDescriptor);
+      }
+    }
+  };
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe("generateImage in the browser", () => {
+  it("should encode the requested format with the given quality", async () => {
+    const { canvas } = mockCanvas(["image/png", "image/webp"]);
+
+    const bytes = await generateImage(testConfig, {
+      format: "webp",
+      size: 128,
+      quality: 0.7,
+    });
+
+    expect(Array.from(bytes)).toEqual([1, 2, 3]);
+    expect(canvas.width).toBe(128);
+    expect(canvas.toBlob).toHaveBeenCalledWith(
+      expect.any(Function),
+      "image/webp",
+      0.7,
+    );
+  });
+
+  it("should fill JPEG corners with a white matte by default", async () => {
+    const { ctx } = mockCanvas(["image/png", "image/jpeg"]);
+
+    await generateImage(testConfig, { format: "jpeg", size: 64 });
+
+    expect(ctx.fillStyle).toBe("#ffffff");
+    expect(ctx.fillRect).toHaveBeenCalledWith(0, 0, 64, 64);
+    expect(ctx.fillRect.mock.invocationCallOrder[0]).toBeLessThan(
+      ctx.drawImage.mock.invocationCallOrder[0],
+    );
+  });
+
+  it("should use a custom matte", async () => {
+    const { ctx } = mockCanvas(["image/png", "image/jpeg"]);
+
+    await generateImage(testConfig, { format: "jpeg", matte: "#0f172a" });
+
+    expect(ctx.fillStyle).toBe("#0f172a");
+  });
+
+  it("should keep PNG corners transparent", async () => {
+    const { ctx } = mockCanvas(["image/png"]);
+
+    await generateImage(testConfig);
+
+    expect(ctx.fillRect).not.toHaveBeenCalled();
+  });
+
+  it("should report formats the browser cannot encode", async () => {
+    mockCanvas(["image/png", "image/jpeg"]);
+
+    expect(await isImageFormatSupported("jpeg")).toBe(true);
+    expect(await isImageFormatSupported("avif")).toBe(false);
+    await expect(generateImage(testConfig, { format: "avif" })).rejects.toThrow(
+      "This browser cannot encode AVIF images",
+    );
+  });
+
+  it("should reject invalid options", async () => {
+    mockCanvas(["image/png"]);
+
+    await expect(
+      generateImage(testConfig, { format: "gif" as never }),
+    ).rejects.toThrow("Unsupported image format: gif");
+    await expect(generateImage(testConfig, { size: -1 })).rejects.toThrow(
+      "Invalid size: -1",
+    );
+    await expect(generateImage(testConfig, { quality: 2 })).rejects.toThrow(
+      "Invalid quality: 2",
+    );
+  });
+});
+
+describe("generateImage in Node.js", () => {
+  it(
+    "should generate PNG without a browser",
+    withoutWindow(async () => {
+      const png = await generateRasterImage(testConfig, { size: 32 });
+
+      expect(Array.from(png.slice(1, 4))).toEqual([0x50, 0x4e, 0x47]);
+    }),
+  );
+
+  it(
+    "should apply the matte to PNG output",
+    withoutWindow(async () => {
+      const plain = await generateRasterImage(testConfig, { size: 32 });
+      const matted = await generateRasterImage(testConfig, {
+        size: 32,
+        matte: "#000000",
+      });
+
+      expect(Buffer.from(plain).equals(Buffer.from(matted))).toBe(false);
+    }),
+  );
+
+  it(
+    "should apply shape options to PNG output",
+    withoutWindow(async () => {
+      const config = { ...testConfig, background: "none" } as const;
+      const clipped = await generateRasterImage(config, { size: 32 });
+      const cutout = await generateRasterImage(config, {
+        size: 32,
+        clipBody: false,
+      });
+
+      expect(Buffer.from(clipped).equals(Buffer.from(cutout))).toBe(false);
+    }),
+  );
+
+  it(
+    "should explain that other formats need a browser",
+    withoutWindow(async () => {
+      expect(await isImageFormatSupported("png")).toBe(true);
+      expect(await isImageFormatSupported("webp")).toBe(false);
+      await expect(
+        generateImage(testConfig, { format: "webp" }),
+      ).rejects.toThrow(
+        'WebP encoding is not available in this runtime; only "png" can be generated outside the browser',
+      );
+      await expect(
+        generateRasterImage(testConfig, { format: "webp" }),
+      ).rejects.toThrow("WebP encoding is not available in this runtime");
+    }),
+  );
+
+  it(
+    "should point to the rasterizer entry for PNG",
+    withoutWindow(async () => {
+      await expect(generateImage(testConfig)).rejects.toThrow(
+        'import generateImage from "pinecone-avatars/rasterizer" instead',
+      );
+    }),
+  );
+});
+
+describe("downloadImage", () => {
+  let originalWindow: typeof globalThis.window;
+
+  beforeEach(() => {
+    originalWindow = globalThis.window;
+  });
+
+  afterEach(() => {
+    globalThis.window = originalWindow;
+  });
+
+  it(
+    "should throw error in non-browser environment",
+    withoutWindow(async () => {
+      await expect(downloadImage(testConfig)).rejects.toThrow(
+        "downloadImage is only available in browser environment",
+      );
+    }),
+  );
+
+  it("should download with a format-specific default filename", async () => {
+    const { anchor } = mockCanvas(["image/png", "image/jpeg"]);
+    vi.spyOn(document.body, "appendChild").mockImplementation((node) => node);
+    vi.spyOn(document.body, "removeChild").mockImplementation((node) => node);
+    vi.spyOn(URL, "createObjectURL").mockReturnValue("blob:mock-url");
+    const revoke = vi
+      .spyOn(URL, "revokeObjectURL")
+      .mockImplementation(() => {});
+
+    await downloadImage(testConfig, { format: "jpeg" });
+
+    expect(anchor.download).toBe("avatar.jpg");
+    expect(anchor.click).toHaveBeenCalled();
+    expect(revoke).toHaveBeenCalledWith("blob:mock-url");
+  });
+});
@@ -0,0 +1,224 @@
+import { describe, it, expect } from "vitest";
+import { render } from "@testing-library/react";
+import { renderToStaticMarkup } from "react-dom/server";
+import { Avatar } from "../components/Avatar";
+import { defaultConfig } from "../utils/export";
+import { parts, getPart, PartCategory } from "../components/svg/parts";
+import { renderSvgNodes } from "../components/svg/render";
+import { generateSvg } from "../utils/export";
+import { stringifySvg } from "../utils/svg";
+import {
+  BackgroundFill,
+  BACKGROUNDS,
+  SKINS,
+  TSHIRTS,
+  EXPRESSIONS,
+  HAIRS,
+  SHAPES,
+  ACCESSORIES,
+  BACKGROUND_PATTERNS,
+  FACE_DETAILS,
+} from "../types";
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+/**
+ * Parses markup and serializes it again so formatting differences vanish.
+ * The live DOM reformats `style` attributes (`a: b;`), so those are
+ * normalized to the compact `a:b` form as well.
+ */
+function normalize(markup: string): string {
+  const doc = new DOMParser().parseFromString(markup, "image/svg+xml");
+  expect(doc.getElementsByTagName("parsererror")).toHaveLength(0);
+  doc.querySelectorAll("[style]").forEach((el) => {
+    const declarations = el
+      .getAttribute("style")!
+      .split(";")
+      .map((declaration) => declaration.replace(/\s*:\s*/, ":").trim())
+      .filter(Boolean);
+    el.setAttribute("style", declarations.join(";"));
+  });
+  return new XMLSerializer().serializeToString(doc.documentElement);
+}
+
+const wrap = (content: string) => `<svg xmlns="${SVG_NS}">${content}</svg>`;
+
+const categories: [PartCategory, readonly string[]][] = [
+  ["background", BACKGROUNDS],
+  ["skin", SKINS],
+  ["tshirt", TSHIRTS],
+  ["expression", EXPRESSIONS],
+  ["hair", HAIRS],
+];
+
+const partCategories: [PartCategory, readonly string[]][] = [
+  ...categories,
+  ["faceDetail", FACE_DETAILS],
+  ["accessory", ACCESSORIES],
+  ["backgroundPattern", BACKGROUND_PATTERNS],
+];
+
+describe("part registry", () => {
+  it.each(partCategories)(
+    "should have artwork for every %s option",
+    (category, options) => {
+      expect(Object.keys(parts[category]).sort()).toEqual([...options].sort());
+      options.forEach((option) => {
+        const length = getPart(category, option)?.length;
+        // `none` turns a layer off and has no artwork
+        if (option === "none") {
+          expect(length).toBe(0);
+        } else {
+          expect(length).toBeGreaterThan(0);
+        }
+      });
+    },
+  );
+
+  it("should return undefined for unknown options", () => {
+    expect(getPart("hair", "mohawk")).toBeUndefined();
+    expect(getPart("hair", "toString")).toBeUndefined();
+  });
+});
+
+describe("React / string parity", () => {
+  describe.each(partCategories)("%s parts", (category, options) => {
+    it.each([...options])("should render %s identically", (option) => {
+      const nodes = getPart(category, option)!;
+      const reactMarkup = renderToStaticMarkup(
+        <svg xmlns={SVG_NS}>{renderSvgNodes(nodes)}</svg>,
+      );
+
+      expect(normalize(reactMarkup)).toBe(normalize(wrap(stringifySvg(nodes))));
+    });
+  });
+
+  describe.each(categories)("<Avatar> and generateSvg with each %s", (category, options) => {
+    it.each([...options])("should match for %s", (option) => {
+      const config = { ...defaultConfig, [category]: option };
+      const { container } = render(<Avatar {...config} size={96} />);
+      const idPrefix = container
+        .querySelector("clipPath")!
+        .id.replace(/-avatarClip$/, "");
+
+      expect(normalize(container.innerHTML)).toBe(
+        normalize(generateSvg(config, 96, { idPrefix })),
+      );
+    });
+  });
+
+  it.each([...SHAPES])("should match for the %s shape", (shape) => {
+    const { container } = render(
+      <Avatar {...defaultConfig} shape={shape} cornerRadius={30} size={96} />,
+    );
+    // Full-bleed avatars have no clip path, so read the prefix off any id
+    const idPrefix = container.innerHTML.match(/id="(avatar\w*?)-/)?.[1];
+
+    expect(normalize(container.innerHTML)).toBe(
+      normalize(
+        generateSvg(defaultConfig, 96, { idPrefix, shape, cornerRadius: 30 }),
+      ),
+    );
+  });
+
+  it.each([...FACE_DETAILS])(
+    "should match for the %s face detail",
+    (faceDetail) => {
+      const config = {
+        ...defaultConfig,
+        faceDetail,
+        hairColor: "auburn",
+      } as const;
+      const { container } = render(<Avatar {...config} size={96} />);
+      const idPrefix = container
+        .querySelector("clipPath")!
+        .id.replace(/-avatarClip$/, "");
+
+      expect(normalize(container.innerHTML)).toBe(
+        normalize(generateSvg(config, 96, { idPrefix })),
+      );
+    },
+  );
+
+  it("should match with accessories", () => {
+    const config = { ...defaultConfig, accessories: [...ACCESSORIES] };
+    const { container } = render(<Avatar {...config} size={96} />);
+    const idPrefix = container
+      .querySelector("clipPath")!
+      .id.replace(/-avatarClip$/, "");
+
+    expect(normalize(container.innerHTML)).toBe(
+      normalize(generateSvg(config, 96, { idPrefix })),
+    );
+  });
+
+  it("should match with custom colors", () => {
+    const config = {
+      ...defaultConfig,
+      background: "#112233",
+      skin: "#E0AB8B",
+      tshirt: "#445566",
+      hairColor: "#AABBCC",
+    } as const;
+    const { container } = render(<Avatar {...config} size={96} />);
+    const idPrefix = container
+      .querySelector("clipPath")!
+      .id.replace(/-avatarClip$/, "");
+
+    expect(normalize(container.innerHTML)).toBe(
+      normalize(generateSvg(config, 96, { idPrefix })),
+    );
+  });
+
+  it("should match when animated", () => {
+    const { container } = render(
+      <Avatar {...defaultConfig} animated speaking size={96} />,
+    );
+    const idPrefix = container
+      .querySelector("clipPath")!
+      .id.replace(/-avatarClip$/, "");
+
+    expect(normalize(container.innerHTML)).toBe(
+      normalize(
+        generateSvg(defaultConfig, 96, {
+          idPrefix,
+          animated: true,
+          speaking: true,
+        }),
+      ),
+    );
+  });
+
+  it("should match for a cut-out character", () => {
+    const config = { ...defaultConfig, background: "none" } as const;
+    const { container } = render(
+      <Avatar {...config} clipBody={false} size={96} />,
+    );
+
+    const idPrefix = container.innerHTML.match(/id="(avatar\w*?)-/)?.[1];
+
+    expect(container.innerHTML).not.toContain("avatarClip");
+    expect(normalize(container.innerHTML)).toBe(
+      normalize(generateSvg(config, 96, { idPrefix, clipBody: false })),
+    );
+  });
+
+  it.each<[string, BackgroundFill]>([
+    ["linear", { type: "linear", colors: ["peach", "#E56464"], angle: 135 }],
+    ["radial", { type: "radial", colors: ["softPink", "coralRed"] }],
+    ["pattern", { type: "pattern", pattern: "confetti", color: "lightGray" }],
+    ["transparent", { type: "transparent" }],
+  ])("should match with a %s background", (_, background) => {
+    const config = { ...defaultConfig, background };
+    const { container } = render(
+      <Avatar {...config} shape="rounded" size={96} />,
+    );
+    const idPrefix = container
+      .querySelector("clipPath")!
+      .id.replace(/-avatarClip$/, "");
+
+    expect(normalize(container.innerHTML)).toBe(
+      normalize(generateSvg(config, 96, { idPrefix, shape: "rounded" })),
+    );
+  });
+});
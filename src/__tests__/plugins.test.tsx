@@ -0,0 +1,231 @@
+import { describe, it, expect } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { Avatar } from "../components/Avatar";
+import { generateRandomConfig } from "../utils/random";
+import { AvatarPicker } from "../components/AvatarPicker";
+import { generateSvg } from "../utils/export";
+import { encodeConfig } from "../utils/code";
+import { parseConfig, validateConfig } from "../utils/validate";
+import { countConfigs } from "../utils/catalog";
+import { registerCategory, registerOption } from "../utils/plugins";
+import { AvatarConfig, HAIRS } from "../types";
+
+declare module "../types" {
+  interface PluginOptions {
+    hair: "testMohawk";
+    tshirt: "testStripes";
+  }
+  interface PluginCategories {
+    badge: "star" | "heart";
+    aura: "glow";
+  }
+}
+
+const MOHAWK = '<path d="M217 40h40v90h-40z" fill="#1F6FEB"/>';
+const STAR = '<circle cx="390" cy="390" r="30" fill="#F5C518"/>';
+const HEART = '<circle cx="390" cy="390" r="30" fill="#E5484D"/>';
+const GLOW = '<circle cx="237" cy="237" r="200" fill="#FFF4B8"/>';
+
+registerOption("hair", "testMohawk", {
+  svg: MOHAWK,
+  render: () => <rect data-testid="react-mohawk" width="40" height="90" />,
+});
+registerOption("tshirt", "testStripes", {
+  svg: '<path d="M100 474h274v-80H100z" fill="#222222"/>',
+});
+registerCategory("badge", {
+  label: "Badge",
+  options: { star: { svg: STAR, label: "Gold star" }, heart: { svg: HEART } },
+});
+registerCategory("aura", {
+  layer: "behindCharacter",
+  options: { glow: { svg: GLOW } },
+});
+
+const base: AvatarConfig = {
+  background: "babyBlue",
+  skin: "softPeach",
+  tshirt: "orange",
+  expression: "happy",
+  hair: "shortBuzz",
+};
+
+describe("registerOption", () => {
+  it("should draw the option in generateSvg", () => {
+    expect(generateSvg({ hair: "testMohawk" })).toContain(MOHAWK);
+  });
+
+  it("should draw the React renderer in <Avatar>", () => {
+    const { container } = render(<Avatar hair="testMohawk" />);
+
+    expect(screen.getByTestId("react-mohawk")).toBeInTheDocument();
+    expect(container.querySelector('path[fill="#1F6FEB"]')).toBeNull();
+  });
+
+  it("should draw the markup when the part is recolored", () => {
+    const { container } = render(
+      <Avatar hair="testMohawk" hairColor="#FF0000" />,
+    );
+
+    expect(screen.queryByTestId("react-mohawk")).toBeNull();
+    expect(
+      container.querySelector('path[d="M217 40h40v90h-40z"]'),
+    ).toHaveAttribute("fill", "#FF0000");
+  });
+
+  it("should add the option to randomization", () => {
+    const config = generateRandomConfig({
+      include: { hair: ["testMohawk"], tshirt: ["testStripes"] },
+    });
+
+    expect(config).toMatchObject({ hair: "testMohawk", tshirt: "testStripes" });
+  });
+
+  it("should accept the option in validation", () => {
+    expect(validateConfig({ ...base, hair: "testMohawk" })).toEqual([]);
+    expect(parseConfig({ ...base, hair: "test-mohawk" })).toEqual({
+      success: true,
+      config: { ...base, hair: "testMohawk" },
+    });
+  });
+
+  it("should leave the option out of the catalog", () => {
+    expect(
+      countConfigs({
+        locked: {
+          background: "babyBlue",
+          skin: "softPeach",
+          tshirt: "orange",
+          expression: "happy",
+          hairColor: undefined,
+          faceDetail: "none",
+        },
+        accessories: [],
+      }),
+    ).toBe(HAIRS.length);
+  });
+
+  it("should keep the option out of share codes", () => {
+    expect(() => encodeConfig({ ...base, hair: "testMohawk" })).toThrow(
+      'Cannot encode hair "testMohawk" in avatar code version 2',
+    );
+  });
+
+  it("should replace the artwork of a registered option", () => {
+    registerOption("tshirt", "testStripes", {
+      svg: '<path d="M100 474h274v-80H100z" fill="#333333"/>',
+    });
+
+    expect(generateSvg({ tshirt: "testStripes" })).toContain('fill="#333333"');
+  });
+
+  it("should not replace built-in options", () => {
+    expect(() =>
+      registerOption("hair", "bob" as "testMohawk", { svg: MOHAWK }),
+    ).toThrow('Cannot replace the built-in hair "bob"');
+  });
+
+  it("should type-check registered options through module augmentation", () => {
+    // @ts-expect-error "nope" is neither built in nor declared in PluginOptions
+    const config: Partial<AvatarConfig> = { hair: "nope" };
+
+    expect(validateConfig({ ...base, ...config })).toHaveLength(1);
+  });
+
+  it("should reject categories that cannot be extended", () => {
+    expect(() =>
+      registerOption("hairColor" as "hair", "testMohawk", { svg: MOHAWK }),
+    ).toThrow("Cannot register hairColor options");
+  });
+});
+
+describe("registerCategory", () => {
+  it("should draw the category's option in generateSvg", () => {
+    const svg = generateSvg({ badge: "heart" });
+
+    expect(svg).toContain(HEART);
+    expect(svg).not.toContain(STAR);
+  });
+
+  it("should draw nothing without a value", () => {
+    expect(generateSvg({})).not.toContain(STAR);
+    expect(generateSvg({})).not.toContain(GLOW);
+  });
+
+  it("should draw each category in its layer", () => {
+    const svg = generateSvg({ badge: "star", aura: "glow" });
+    const index = (markup: string) => svg.indexOf(markup);
+
+    expect(index(GLOW)).toBeLessThan(svg.indexOf('fill="#F58D3E"'));
+    expect(index(STAR)).toBeGreaterThan(svg.lastIndexOf('fill="#FF7472"'));
+  });
+
+  it("should draw the category in <Avatar>", () => {
+    const { container } = render(<Avatar badge="star" />);
+
+    expect(container.querySelector('circle[fill="#F5C518"]')).not.toBeNull();
+  });
+
+  it("should draw an option for the category at random", () => {
+    const config = generateRandomConfig({ exclude: { badge: ["heart"] } });
+
+    expect(config.badge).toBe("star");
+    expect(config.aura).toBe("glow");
+  });
+
+  it("should validate the category's values", () => {
+    expect(validateConfig({ ...base, badge: "heart" })).toEqual([]);
+    expect(validateConfig({ ...base, badge: "crown" })).toEqual([
+      {
+        field: "badge",
+        code: "unknown_option",
+        value: "crown",
+        message: 'Unknown badge "crown"',
+      },
+    ]);
+  });
+
+  it("should keep the category out of share codes", () => {
+    expect(() => encodeConfig({ ...base, badge: "star" })).toThrow(
+      'Cannot encode badge "star" in avatar code version 2',
+    );
+  });
+
+  it("should list the category in AvatarPicker", () => {
+    let changed: AvatarConfig | undefined;
+    render(<AvatarPicker onChange={(config) => (changed = config)} />);
+
+    expect(screen.getByText("Badge")).toBeInTheDocument();
+    expect(screen.getByText("aura")).toBeInTheDocument();
+    fireEvent.click(screen.getByTitle("Heart"));
+    expect(changed?.badge).toBe("heart");
+    expect(screen.getByLabelText("Gold star")).toHaveAttribute(
+      "aria-checked",
+      "false",
+    );
+  });
+
+  it("should reject invalid definitions", () => {
+    expect(() =>
+      registerCategory("hair" as "badge", {
+        options: { star: { svg: STAR }, heart: { svg: HEART } },
+      }),
+    ).toThrow("Cannot replace the built-in category hair");
+    for (const name of ["size", "shape", "clipBody", "theme", "outline"]) {
+      expect(() =>
+        registerCategory(name as "badge", {
+          options: { star: { svg: STAR }, heart: { svg: HEART } },
+        }),
+      ).toThrow(`Cannot name a category ${name}: it is an Avatar prop`);
+    }
+    expect(() =>
+      registerCategory("aura", {
+        layer: "underBody" as "overFace",
+        options: { glow: { svg: GLOW } },
+      }),
+    ).toThrow("Unsupported layer: underBody");
+    expect(() => registerCategory("aura", { options: {} as never })).toThrow(
+      "The aura category needs at least one option",
+    );
+  });
+});
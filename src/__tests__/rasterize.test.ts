@@ -0,0 +1,117 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { generatePng, rasterizeSvg } from "../utils/rasterize";
+import { generateSvg } from "../utils/export";
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+function pngSize(png: Uint8Array): { width: number; height: number } {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  // IHDR is always the first chunk: width and height follow its type
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+}
+
+function pixelAt(
+  image: { width: number; pixels: Uint8Array },
+  x: number,
+  y: number,
+): number[] {
+  const offset = (y * image.width + x) * 4;
+  return Array.from(image.pixels.slice(offset, offset + 4));
+}
+
+describe("generatePng", () => {
+  it("should run without a DOM", () => {
+    expect(typeof window).toBe("undefined");
+  });
+
+  it("should return PNG bytes at the default size", async () => {
+    const png = await generatePng();
+
+    expect(png).toBeInstanceOf(Uint8Array);
+    expect(Array.from(png.slice(0, 8))).toEqual(PNG_SIGNATURE);
+    expect(pngSize(png)).toEqual({ width: 474, height: 474 });
+  });
+
+  it("should render at any size", async () => {
+    for (const size of [1, 48, 1000]) {
+      expect(pngSize(await generatePng({}, size))).toEqual({
+        width: size,
+        height: size,
+      });
+    }
+  });
+
+  it("should be usable as a Node.js Buffer", async () => {
+    const png = Buffer.from(await generatePng({ hair: "spaceBuns" }, 64));
+
+    expect(png.subarray(1, 4).toString("ascii")).toBe("PNG");
+  });
+
+  it("should accept shape options", async () => {
+    const clipped = await generatePng({ background: "none" }, 64);
+    const cutout = await generatePng({ background: "none" }, 64, {
+      clipBody: false,
+    });
+
+    expect(Buffer.from(clipped).equals(Buffer.from(cutout))).toBe(false);
+  });
+
+  it("should reject invalid sizes", async () => {
+    await expect(generatePng({}, 0)).rejects.toThrow("Invalid size: 0");
+    await expect(generatePng({}, 12.5)).rejects.toThrow("Invalid size: 12.5");
+  });
+});
+
+describe("rasterizeSvg", () => {
+  it("should draw the avatar circle on a transparent canvas", async () => {
+    const image = await rasterizeSvg(
+      generateSvg({ background: "coralRed" }, 100),
+      100,
+    );
+
+    expect(image.width).toBe(100);
+    expect(image.height).toBe(100);
+    expect(image.pixels).toHaveLength(100 * 100 * 4);
+    // Corners lie outside the circle
+    expect(pixelAt(image, 0, 0)).toEqual([0, 0, 0, 0]);
+    // Just inside the top of the circle is plain background (#E56464)
+    expect(pixelAt(image, 50, 3)).toEqual([0xe5, 0x64, 0x64, 255]);
+  });
+
+  it("should render different configs differently", async () => {
+    const a = await generatePng({ expression: "happy" }, 64);
+    const b = await generatePng({ expression: "sad" }, 64);
+
+    expect(Buffer.from(a).equals(Buffer.from(b))).toBe(false);
+  });
+
+  it("should fill the corners for square shapes", async () => {
+    const corner = async (shape: "circle" | "square" | "rounded") =>
+      pixelAt(
+        await rasterizeSvg(
+          generateSvg({ background: "coralRed" }, 100, { shape }),
+          100,
+        ),
+        0,
+        0,
+      );
+
+    expect(await corner("circle")).toEqual([0, 0, 0, 0]);
+    expect(await corner("square")).toEqual([0xe5, 0x64, 0x64, 255]);
+    expect((await corner("rounded"))[3]).toBe(0);
+  });
+
+  it("should leave only the character opaque without a background", async () => {
+    const render = (clipBody: boolean) =>
+      rasterizeSvg(generateSvg({ background: "none" }, 100, { clipBody }), 100);
+    const clipped = await render(true);
+    const cutout = await render(false);
+
+    // Above the head is transparent either way
+    expect(pixelAt(cutout, 50, 3)[3]).toBe(0);
+    // The shoulders reach past the circle only when the body is not clipped
+    expect(pixelAt(clipped, 25, 98)[3]).toBe(0);
+    expect(pixelAt(cutout, 25, 98)[3]).toBe(255);
+  });
+});
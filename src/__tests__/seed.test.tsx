@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import { render } from "@testing-library/react";
+import {
+  generateConfigFromSeed,
+  hashString,
+  LATEST_SEED_VERSION,
+} from "../utils/seed";
+import { Avatar } from "../components/Avatar";
+import {
+  BACKGROUNDS,
+  SKINS,
+  TSHIRTS,
+  EXPRESSIONS,
+  HAIRS,
+  SeedVersion,
+} from "../types";
+
+describe("hashString", () => {
+  it("should implement 32-bit FNV-1a over UTF-8", () => {
+    expect(hashString("")).toBe(0x811c9dc5);
+    expect(hashString("user-42")).toBe(39875499);
+    expect(hashString("Ђорђе 🌲")).toBe(154983919);
+  });
+});
+
+describe("generateConfigFromSeed", () => {
+  it("should return the same config for the same seed", () => {
+    expect(generateConfigFromSeed("alice@example.com")).toEqual(
+      generateConfigFromSeed("alice@example.com"),
+    );
+  });
+
+  it("should return valid values", () => {
+    for (let i = 0; i < 50; i++) {
+      const config = generateConfigFromSeed(`user-${i}`);
+
+      expect(BACKGROUNDS).toContain(config.background);
+      expect(SKINS).toContain(config.skin);
+      expect(TSHIRTS).toContain(config.tshirt);
+      expect(EXPRESSIONS).toContain(config.expression);
+      expect(HAIRS).toContain(config.hair);
+    }
+  });
+
+  it("should spread different seeds across configs", () => {
+    const configs = Array.from({ length: 50 }, (_, i) =>
+      JSON.stringify(generateConfigFromSeed(`user-${i}`)),
+    );
+
+    expect(new Set(configs).size).toBeGreaterThan(45);
+  });
+
+  // These values are a compatibility contract: version 1 must keep mapping
+  // these seeds to exactly these avatars in every future release.
+  it("should keep version 1 output stable", () => {
+    expect(generateConfigFromSeed("", 1)).toEqual({
+      background: "mintGreen",
+      skin: "mediumTan",
+      tshirt: "raspberry",
+      expression: "sad",
+      hair: "spaceBuns",
+    });
+    expect(generateConfigFromSeed("alice@example.com", 1)).toEqual({
+      background: "lightGray",
+      skin: "warmBrown",
+      tshirt: "charcoal",
+      expression: "sideGlance",
+      hair: "curlyPuff",
+    });
+    expect(generateConfigFromSeed("user-42", 1)).toEqual({
+      background: "darkGray",
+      skin: "mediumTan",
+      tshirt: "green",
+      expression: "laughing",
+      hair: "bowlCut",
+    });
+  });
+
+  it("should default to version 1", () => {
+    expect(generateConfigFromSeed("user-42")).toEqual(
+      generateConfigFromSeed("user-42", 1),
+    );
+  });
+
+  it("should expose the latest version", () => {
+    expect(generateConfigFromSeed("x", LATEST_SEED_VERSION)).toBeDefined();
+  });
+
+  it("should throw for unsupported versions", () => {
+    expect(() => generateConfigFromSeed("x", 99 as SeedVersion)).toThrow(
+      "Unsupported seed version: 99",
+    );
+  });
+});
+
+describe("Avatar seed prop", () => {
+  /** Returns an avatar's markup with its instance id prefix removed. */
+  const markupOf = (element: React.ReactElement) => {
+    const { container } = render(element);
+    const clipId = container.querySelector("clipPath")!.id;
+    const idPrefix = clipId.replace(/avatarClip$/, "");
+    return container.innerHTML.split(idPrefix).join("");
+  };
+
+  it("should render the seeded config", () => {
+    expect(markupOf(<Avatar seed="user-42" />)).toBe(
+      markupOf(<Avatar {...generateConfigFromSeed("user-42")} />),
+    );
+  });
+
+  it("should let explicit props override seeded values", () => {
+    expect(markupOf(<Avatar seed="user-42" hair="bob" />)).toBe(
+      markupOf(<Avatar {...generateConfigFromSeed("user-42")} hair="bob" />),
+    );
+  });
+
+  it("should change with the seed", () => {
+    expect(markupOf(<Avatar seed="user-42" />)).not.toBe(
+      markupOf(<Avatar seed="alice@example.com" />),
+    );
+  });
+});
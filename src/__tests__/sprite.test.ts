@@ -0,0 +1,194 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { generateSvgSprite } from "../utils/sprite";
+import { decodeConfig } from "../utils/code";
+import { generatePngAtlas, rasterizeSvg } from "../utils/rasterize";
+import { AvatarConfig } from "../types";
+
+const roster: Partial<AvatarConfig>[] = [
+  { expression: "happy" },
+  { expression: "sad", hair: "spaceBuns" },
+  { tshirt: "#0B3D91" },
+  { background: "mintGreen" },
+  { expression: "starry" },
+];
+
+function pngSize(png: Uint8Array): { width: number; height: number } {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  return { width: view.getUint32(16), height: view.getUint32(20) };
+}
+
+describe("generateSvgSprite", () => {
+  it("should define a symbol per avatar", () => {
+    const { svg } = generateSvgSprite(roster, { size: 64 });
+
+    for (let i = 0; i < roster.length; i++) {
+      expect(svg).toContain(`<symbol id="avatar-${i}" viewBox="0 0 474 474">`);
+    }
+    expect(svg.match(/<symbol /g)).toHaveLength(roster.length);
+  });
+
+  it("should lay the avatars out in a square-ish grid", () => {
+    const { width, height, manifest } = generateSvgSprite(roster, {
+      size: 64,
+    });
+
+    expect({ width, height }).toEqual({ width: 192, height: 128 });
+    expect(manifest.map(({ x, y }) => [x, y])).toEqual([
+      [0, 0],
+      [64, 0],
+      [128, 0],
+      [0, 64],
+      [64, 64],
+    ]);
+    for (const entry of manifest) {
+      expect(entry.width).toBe(64);
+      expect(entry.height).toBe(64);
+    }
+  });
+
+  it("should draw every symbol at its place", () => {
+    const { svg, manifest } = generateSvgSprite(roster, { size: 64 });
+
+    expect(svg).toMatch(/^<svg width="192" height="128" viewBox="0 0 192 128"/);
+    for (const { id, x, y } of manifest) {
+      expect(svg).toContain(
+        `<use href="#${id}" x="${x}" y="${y}" width="64" height="64"/>`,
+      );
+    }
+  });
+
+  it("should honor columns and gap", () => {
+    const { width, height, manifest } = generateSvgSprite(roster, {
+      size: 50,
+      columns: 2,
+      gap: 10,
+    });
+
+    expect({ width, height }).toEqual({ width: 110, height: 170 });
+    expect(manifest[3]).toMatchObject({ x: 60, y: 60 });
+    expect(manifest[4]).toMatchObject({ x: 0, y: 120 });
+  });
+
+  it("should not leave empty columns", () => {
+    const { width, height } = generateSvgSprite([{}, {}], {
+      size: 10,
+      columns: 6,
+    });
+
+    expect({ width, height }).toEqual({ width: 20, height: 10 });
+  });
+
+  it("should list each complete config with its share code", () => {
+    const { manifest } = generateSvgSprite(roster);
+
+    expect(manifest.map(({ index }) => index)).toEqual([0, 1, 2, 3, 4]);
+    expect(manifest[1].config).toMatchObject({
+      expression: "sad",
+      hair: "spaceBuns",
+      background: "babyBlue",
+    });
+    expect(decodeConfig(manifest[1].code!)).toEqual(manifest[1].config);
+    expect(decodeConfig(manifest[2].code!)).toEqual(manifest[2].config);
+  });
+
+  it("should scope the ids of each avatar to its symbol", () => {
+    const { svg } = generateSvgSprite(roster);
+    const ids = [...svg.matchAll(/ id="([^"]+)"/g)].map(([, id]) => id);
+
+    expect(new Set(ids).size).toBe(ids.length);
+    expect(svg).toContain('<clipPath id="avatar-3-avatarClip">');
+    expect(svg).toContain('clip-path="url(#avatar-3-avatarClip)"');
+  });
+
+  it("should use the idPrefix for symbol ids", () => {
+    const { svg, manifest } = generateSvgSprite(roster, { idPrefix: "team-" });
+
+    expect(manifest.map(({ id }) => id)).toEqual([
+      "team-0",
+      "team-1",
+      "team-2",
+      "team-3",
+      "team-4",
+    ]);
+    expect(svg).toContain('<use href="#team-2"');
+    expect(svg).not.toContain("avatar-0");
+  });
+
+  it("should strip characters that are not valid in ids", () => {
+    const { svg, manifest } = generateSvgSprite(roster, {
+      idPrefix: 'our "team" ',
+    });
+
+    expect(manifest[2].id).toBe("ourteam2");
+    expect(svg).toContain('<symbol id="ourteam2"');
+    expect(svg).toContain('<use href="#ourteam2"');
+  });
+
+  it("should apply shape options to every avatar", () => {
+    const { svg } = generateSvgSprite(roster, { shape: "fullBleed" });
+
+    expect(svg.match(/preserveAspectRatio="xMidYMid slice"/g)).toHaveLength(
+      roster.length,
+    );
+    expect(svg).not.toContain("avatarClip");
+  });
+
+  it("should reject invalid input", () => {
+    expect(() => generateSvgSprite([])).toThrow(
+      "A sprite needs at least one avatar",
+    );
+    expect(() => generateSvgSprite(roster, { size: 0 })).toThrow(
+      "Invalid size: 0",
+    );
+    expect(() => generateSvgSprite(roster, { columns: 0 })).toThrow(
+      "Invalid columns: 0",
+    );
+    expect(() => generateSvgSprite(roster, { gap: -1 })).toThrow(
+      "Invalid gap: -1",
+    );
+  });
+});
+
+describe("generatePngAtlas", () => {
+  it("should rasterize the sprite sheet", async () => {
+    const { png, width, height, manifest } = await generatePngAtlas(roster, {
+      size: 40,
+      gap: 4,
+    });
+
+    expect(pngSize(png)).toEqual({ width, height });
+    expect({ width, height }).toEqual({ width: 128, height: 84 });
+    expect(manifest).toEqual(
+      generateSvgSprite(roster, { size: 40, gap: 4 }).manifest,
+    );
+  });
+
+  it("should draw the avatars at their manifest coordinates", async () => {
+    const { manifest, width } = await generatePngAtlas(roster, {
+      size: 40,
+      gap: 4,
+    });
+    const { svg } = generateSvgSprite(roster, { size: 40, gap: 4 });
+    const { pixels } = await rasterizeSvg(svg, width);
+    const alpha = (x: number, y: number) => pixels[(y * width + x) * 4 + 3];
+
+    for (const { x, y } of manifest) {
+      expect(alpha(x + 20, y + 20)).toBe(255);
+      // The round avatars leave their corners empty
+      expect(alpha(x, y)).toBe(0);
+    }
+    // The unused last cell
+    expect(alpha(2 * 44 + 20, 44 + 20)).toBe(0);
+  });
+
+  it("should paint the matte color behind the avatars", async () => {
+    const plain = await generatePngAtlas(roster, { size: 16 });
+    const matte = await generatePngAtlas(roster, {
+      size: 16,
+      matte: "#ffffff",
+    });
+
+    expect(Buffer.from(plain.png).equals(Buffer.from(matte.png))).toBe(false);
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { parseSvg, stringifySvg, mapSvgAttrs } from "../utils/svg";
+
+describe("parseSvg", () => {
+  it("should parse nested elements and attributes", () => {
+    const nodes = parseSvg(
+      `<g clip-path="url(#a)">
+        <rect width="10" height='20' fill-opacity="0.5" />
+      </g>
+      <defs><clipPath id="a"><rect width="474" height="474"/></clipPath></defs>`,
+    );
+
+    expect(nodes).toEqual([
+      {
+        tag: "g",
+        attrs: { "clip-path": "url(#a)" },
+        children: [
+          {
+            tag: "rect",
+            attrs: { width: "10", height: "20", "fill-opacity": "0.5" },
+            children: [],
+          },
+        ],
+      },
+      {
+        tag: "defs",
+        attrs: {},
+        children: [
+          {
+            tag: "clipPath",
+            attrs: { id: "a" },
+            children: [
+              {
+                tag: "rect",
+                attrs: { width: "474", height: "474" },
+                children: [],
+              },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("should skip comments and XML declarations", () => {
+    const nodes = parseSvg(
+      `<?xml version="1.0"?><!-- exported --><circle r="1"/>`,
+    );
+
+    expect(nodes).toEqual([{ tag: "circle", attrs: { r: "1" }, children: [] }]);
+  });
+
+  it("should decode entities in attribute values", () => {
+    const [node] = parseSvg(`<text data-label="a &amp; b &#x41;"/>`);
+
+    expect(node.attrs["data-label"]).toBe("a & b A");
+  });
+
+  it("should throw on mismatched or unclosed tags", () => {
+    expect(() => parseSvg("<g><rect></g>")).toThrow("Unexpected </g>");
+    expect(() => parseSvg("<g>")).toThrow("Unclosed <g>");
+    expect(() => parseSvg("<g =>")).toThrow("Malformed SVG markup");
+  });
+});
+
+describe("stringifySvg", () => {
+  it("should round-trip parsed markup", () => {
+    const markup = `<g clip-path="url(#a)"><rect width="10" fill="#FFF"/></g>`;
+
+    expect(stringifySvg(parseSvg(markup))).toBe(markup);
+  });
+
+  it("should escape attribute values", () => {
+    const markup = stringifySvg([
+      { tag: "text", attrs: { "data-label": `"a" & <b>` }, children: [] },
+    ]);
+
+    expect(markup).toBe(`<text data-label="&quot;a&quot; &amp; &lt;b>"/>`);
+  });
+
+  it("should write and escape text content", () => {
+    const markup = stringifySvg([
+      { tag: "style", attrs: {}, children: [], text: "a<b&c{}" },
+    ]);
+
+    expect(markup).toBe("<style>a&lt;b&amp;c{}</style>");
+  });
+});
+
+describe("mapSvgAttrs", () => {
+  it("should transform every node without mutating the input", () => {
+    const nodes = parseSvg(`<g fill="black"><path fill="black"/></g>`);
+    const mapped = mapSvgAttrs(nodes, ({ attrs }) => ({
+      ...attrs,
+      fill: "red",
+    }));
+
+    expect(stringifySvg(mapped)).toBe(`<g fill="red"><path fill="red"/></g>`);
+    expect(stringifySvg(nodes)).toBe(`<g fill="black"><path fill="black"/></g>`);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import { render } from "@testing-library/react";
+import { Avatar } from "../components/Avatar";
+import { AvatarPicker } from "../components/AvatarPicker";
+import { AvatarThemeProvider } from "../components/AvatarThemeProvider";
+import { generateSvg } from "../utils/export";
+import { applyTheme, createTheme } from "../utils/themes";
+import { AvatarConfig, AvatarTheme, THEMES } from "../types";
+
+const config: AvatarConfig = {
+  background: "babyBlue",
+  skin: "softPeach",
+  tshirt: "orange",
+  expression: "happy",
+  hair: "shortBuzz",
+  hairColor: "red",
+};
+
+const custom: AvatarTheme = {
+  background: { babyBlue: "#123456" },
+  tshirt: { orange: "#ABCDEF" },
+};
+
+describe("applyTheme", () => {
+  it("should replace named colors with the theme's", () => {
+    expect(applyTheme(config, "pastel")).toEqual({
+      ...config,
+      background: "#D6F1FF",
+      tshirt: "#F9BD8E",
+      hairColor: "#D98872",
+    });
+  });
+
+  it("should keep hex colors and options the theme leaves out", () => {
+    expect(
+      applyTheme({ ...config, background: "#000000", tshirt: "blue" }, custom),
+    ).toEqual({ ...config, background: "#000000", tshirt: "blue" });
+  });
+
+  it("should repaint gradients and patterns", () => {
+    expect(
+      applyTheme(
+        { background: { type: "linear", colors: ["babyBlue", "#FFFFFF"] } },
+        custom,
+      ),
+    ).toEqual({
+      background: { type: "linear", colors: ["#123456", "#FFFFFF"] },
+    });
+    expect(
+      applyTheme({ background: { type: "pattern", pattern: "dots" } }, custom),
+    ).toEqual({
+      background: { type: "pattern", pattern: "dots", color: "#123456" },
+    });
+  });
+
+  it("should accept every built-in theme", () => {
+    for (const theme of THEMES) {
+      expect(() => applyTheme(config, theme)).not.toThrow();
+    }
+  });
+
+  it("should reject unknown themes and invalid colors", () => {
+    expect(() => applyTheme(config, "neon" as "dark")).toThrow(
+      "Unknown theme: neon (expected one of: pastel, dark, highContrast)",
+    );
+    expect(() =>
+      applyTheme(config, { tshirt: { orange: "tomato" as "#000" } }),
+    ).toThrow('Invalid theme color for tshirt "orange": tomato');
+  });
+});
+
+describe("createTheme", () => {
+  it("should add the palette to the base theme", () => {
+    const theme = createTheme({ tshirt: { orange: "#ABCDEF" } }, "dark");
+
+    expect(applyTheme(config, theme)).toMatchObject({
+      background: "#3F7FA6",
+      tshirt: "#ABCDEF",
+      hairColor: "red",
+    });
+  });
+
+  it("should validate the palette's colors", () => {
+    expect(() => createTheme({ skin: { softPeach: "#12" as "#000" } })).toThrow(
+      'Invalid theme color for skin "softPeach": #12',
+    );
+  });
+});
+
+describe("generateSvg", () => {
+  it("should draw the avatar in the theme's colors", () => {
+    const svg = generateSvg(config, 474, { theme: custom });
+
+    expect(svg).toContain('fill="#123456"');
+    expect(svg).toContain('fill="#ABCDEF"');
+    expect(generateSvg(config)).not.toContain('fill="#ABCDEF"');
+  });
+});
+
+describe("AvatarThemeProvider", () => {
+  it("should theme the avatars inside it", () => {
+    const { container } = render(
+      <AvatarThemeProvider theme={custom}>
+        <Avatar {...config} />
+      </AvatarThemeProvider>,
+    );
+
+    expect(container.querySelector('[fill="#ABCDEF"]')).not.toBeNull();
+  });
+
+  it("should let the theme prop take precedence", () => {
+    const { container } = render(
+      <AvatarThemeProvider theme={custom}>
+        <Avatar {...config} theme={{ tshirt: { orange: "#FEDCBA" } }} />
+      </AvatarThemeProvider>,
+    );
+
+    expect(container.querySelector('[fill="#ABCDEF"]')).toBeNull();
+    expect(container.querySelector('[fill="#FEDCBA"]')).not.toBeNull();
+  });
+
+  it("should theme the previews of AvatarPicker", () => {
+    const { container } = render(
+      <AvatarThemeProvider theme={custom}>
+        <AvatarPicker value={config} />
+      </AvatarThemeProvider>,
+    );
+
+    expect(container.querySelector('[fill="#ABCDEF"]')).not.toBeNull();
+  });
+});
@@ -5,11 +5,19 @@ import {
   TSHIRTS,
   EXPRESSIONS,
   HAIRS,
+  HAIR_COLORS,
+  FACE_DETAILS,
+  ACCESSORIES,
+  BACKGROUND_PATTERNS,
   BackgroundType,
   SkinType,
   TshirtType,
   ExpressionType,
   HairType,
+  HairColorType,
+  FaceDetailType,
+  AccessoryType,
+  BackgroundPatternType,
 } from "../types";
 
 describe("Constants", () => {
@@ -49,14 +57,25 @@ describe("Constants", () => {
       expect(SKINS.length).toBeGreaterThan(0);
     });
 
-    it("should have 1 skin option", () => {
-      expect(SKINS).toHaveLength(1);
+    it("should have 5 skin options", () => {
+      expect(SKINS).toHaveLength(5);
     });
 
     it("should contain expected values", () => {
-      const expected: SkinType[] = ["softPeach"];
+      const expected: SkinType[] = [
+        "deepBrown",
+        "lightCream",
+        "mediumTan",
+        "softPeach",
+        "warmBrown",
+      ];
       expect(SKINS).toEqual(expected);
     });
+
+    it("should have all unique values", () => {
+      const uniqueValues = new Set(SKINS);
+      expect(uniqueValues.size).toBe(SKINS.length);
+    });
   });
 
   describe("TSHIRTS", () => {
@@ -174,6 +193,73 @@ describe("Constants", () => {
     });
   });
 
+  describe("HAIR_COLORS", () => {
+    it("should have 12 hair color options", () => {
+      expect(HAIR_COLORS).toHaveLength(12);
+    });
+
+    it("should contain expected values", () => {
+      const expected: HairColorType[] = [
+        "black",
+        "darkBrown",
+        "brown",
+        "auburn",
+        "red",
+        "blonde",
+        "platinum",
+        "gray",
+        "silver",
+        "electricBlue",
+        "bubblegumPink",
+        "lavender",
+      ];
+      expect(HAIR_COLORS).toEqual(expected);
+    });
+
+    it("should have all unique values", () => {
+      const uniqueValues = new Set(HAIR_COLORS);
+      expect(uniqueValues.size).toBe(HAIR_COLORS.length);
+    });
+  });
+
+  describe("FACE_DETAILS", () => {
+    it("should contain expected values", () => {
+      const expected: FaceDetailType[] = [
+        "none",
+        "stubble",
+        "mustache",
+        "goatee",
+        "fullBeard",
+        "freckles",
+        "blush",
+      ];
+      expect(FACE_DETAILS).toEqual(expected);
+    });
+  });
+
+  describe("ACCESSORIES", () => {
+    it("should contain expected values", () => {
+      const expected: AccessoryType[] = [
+        "roundGlasses",
+        "squareGlasses",
+        "sunglasses",
+        "beanie",
+        "cap",
+        "studEarrings",
+        "hoopEarrings",
+        "headphones",
+      ];
+      expect(ACCESSORIES).toEqual(expected);
+    });
+  });
+
+  describe("BACKGROUND_PATTERNS", () => {
+    it("should contain expected values", () => {
+      const expected: BackgroundPatternType[] = ["dots", "stripes", "confetti"];
+      expect(BACKGROUND_PATTERNS).toEqual(expected);
+    });
+  });
+
   describe("Total combinations", () => {
     it("should support a large number of avatar combinations", () => {
       const totalCombinations =
@@ -183,8 +269,8 @@ describe("Constants", () => {
         EXPRESSIONS.length *
         HAIRS.length;
 
-      // 8 * 1 * 9 * 13 * 27 = 25,272 combinations
-      expect(totalCombinations).toBe(25272);
+      // 8 * 5 * 9 * 13 * 27 = 126,360 combinations
+      expect(totalCombinations).toBe(126360);
     });
   });
 });
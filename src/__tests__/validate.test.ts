@@ -0,0 +1,360 @@
+import { describe, it, expect } from "vitest";
+import { validateConfig, parseConfig, sanitizeConfig } from "../utils/validate";
+import { AvatarConfig } from "../types";
+
+const validConfig: AvatarConfig = {
+  background: "mintGreen",
+  skin: "deepBrown",
+  tshirt: "blue",
+  expression: "laughing",
+  hair: "spaceBuns",
+};
+
+describe("validateConfig", () => {
+  it("should accept a valid config", () => {
+    expect(validateConfig(validConfig)).toEqual([]);
+  });
+
+  it("should ignore unknown extra fields", () => {
+    expect(validateConfig({ ...validConfig, accessory: "hat" })).toEqual([]);
+  });
+
+  it("should report one typed error per invalid field", () => {
+    const errors = validateConfig({
+      background: "neonPurple",
+      skin: 3,
+      tshirt: "blue",
+      expression: "happy",
+    });
+
+    expect(errors).toEqual([
+      {
+        field: "background",
+        code: "unknown_option",
+        value: "neonPurple",
+        message: 'Unknown background "neonPurple"',
+      },
+      {
+        field: "skin",
+        code: "invalid_type",
+        value: 3,
+        message: "Expected skin to be a string, received number",
+      },
+      {
+        field: "hair",
+        code: "missing",
+        value: undefined,
+        message: "Missing hair",
+      },
+    ]);
+  });
+
+  it("should reject input that is not an object", () => {
+    for (const input of [null, "babyBlue", ["babyBlue"], 42]) {
+      const errors = validateConfig(input);
+
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatchObject({ field: null, code: "invalid_type" });
+    }
+    expect(validateConfig(null)[0].message).toBe(
+      "Expected an avatar config object, received null",
+    );
+  });
+
+  it("should accept custom hex colors", () => {
+    expect(
+      validateConfig({
+        ...validConfig,
+        background: "#fff",
+        skin: "#E0AB8B",
+        tshirt: "#0B3D91",
+        hairColor: "#B5651D",
+      }),
+    ).toEqual([]);
+  });
+
+  it("should report malformed colors", () => {
+    expect(
+      validateConfig({ ...validConfig, tshirt: "#12", hairColor: "#brown" }),
+    ).toEqual([
+      {
+        field: "tshirt",
+        code: "invalid_color",
+        value: "#12",
+        message: 'Invalid tshirt color "#12" (expected #rgb or #rrggbb)',
+      },
+      {
+        field: "hairColor",
+        code: "invalid_color",
+        value: "#brown",
+        message: 'Invalid hairColor color "#brown" (expected #rgb or #rrggbb)',
+      },
+    ]);
+  });
+
+  it("should accept named hair colors and leave hairColor optional", () => {
+    expect(validateConfig({ ...validConfig, hairColor: "auburn" })).toEqual([]);
+    expect(validateConfig({ ...validConfig, hairColor: "teal" })).toEqual([
+      expect.objectContaining({ field: "hairColor", code: "unknown_option" }),
+    ]);
+    expect(parseConfig({ ...validConfig, hairColor: "Electric Blue" })).toEqual(
+      { success: true, config: { ...validConfig, hairColor: "electricBlue" } },
+    );
+  });
+
+  it("should accept face details and leave them optional", () => {
+    expect(validateConfig({ ...validConfig, faceDetail: "fullBeard" })).toEqual(
+      [],
+    );
+    expect(validateConfig({ ...validConfig, faceDetail: "sideburns" })).toEqual(
+      [
+        expect.objectContaining({
+          field: "faceDetail",
+          code: "unknown_option",
+        }),
+      ],
+    );
+  });
+
+  it("should check each accessory", () => {
+    expect(
+      validateConfig({ ...validConfig, accessories: ["cap", "Round Glasses"] }),
+    ).toEqual([]);
+    expect(
+      validateConfig({ ...validConfig, accessories: ["monocle", 3] }),
+    ).toEqual([
+      {
+        field: "accessories",
+        code: "unknown_option",
+        value: "monocle",
+        message: 'Unknown accessory "monocle"',
+      },
+      {
+        field: "accessories",
+        code: "invalid_type",
+        value: 3,
+        message: "Expected accessories to contain strings, received number",
+      },
+    ]);
+    expect(validateConfig({ ...validConfig, accessories: "cap" })).toEqual([
+      expect.objectContaining({ field: "accessories", code: "invalid_type" }),
+    ]);
+  });
+
+  it("should accept gradient, pattern, transparent and no backgrounds", () => {
+    for (const background of [
+      { type: "linear", colors: ["peach", "#E56464"], angle: 45 },
+      { type: "radial", colors: ["softPink", "coralRed"] },
+      { type: "pattern", pattern: "dots", patternColor: "#ffffff" },
+      { type: "transparent" },
+      "none",
+    ]) {
+      expect(validateConfig({ ...validConfig, background })).toEqual([]);
+    }
+  });
+
+  it("should report the first problem of a background", () => {
+    const errors = (background: unknown) =>
+      validateConfig({ ...validConfig, background });
+
+    expect(errors({ type: "conic", colors: ["peach", "peach"] })).toEqual([
+      {
+        field: "background",
+        code: "unknown_option",
+        value: "conic",
+        message: 'Unknown background type "conic"',
+      },
+    ]);
+    expect(errors({ type: "linear", colors: ["peach"] })).toEqual([
+      expect.objectContaining({ field: "background", code: "invalid_type" }),
+    ]);
+    expect(errors({ type: "radial", colors: ["peach", "#12"] })).toEqual([
+      expect.objectContaining({ field: "background", code: "invalid_color" }),
+    ]);
+    expect(errors({ type: "linear", colors: ["peach", "teal"] })).toEqual([
+      expect.objectContaining({ code: "unknown_option", value: "teal" }),
+    ]);
+    expect(errors({ type: "pattern", pattern: "plaid" })).toEqual([
+      expect.objectContaining({ code: "unknown_option", value: "plaid" }),
+    ]);
+    expect(
+      errors({ type: "linear", colors: ["peach", "peach"], angle: "up" }),
+    ).toEqual([expect.objectContaining({ code: "invalid_type", value: "up" })]);
+  });
+
+  it("should not accept a custom color for expression or hair", () => {
+    expect(validateConfig({ ...validConfig, hair: "#000000" })).toEqual([
+      expect.objectContaining({ field: "hair", code: "unknown_option" }),
+    ]);
+  });
+
+  it("should treat null optional fields as left out", () => {
+    expect(
+      validateConfig({
+        ...validConfig,
+        hairColor: null,
+        faceDetail: null,
+        accessories: null,
+      }),
+    ).toEqual([]);
+    expect(validateConfig({ ...validConfig, hair: null })).toEqual([
+      expect.objectContaining({ field: "hair", code: "invalid_type" }),
+    ]);
+    expect(
+      parseConfig({ ...validConfig, hairColor: null, accessories: null }),
+    ).toEqual({ success: true, config: validConfig });
+  });
+
+  it("should not resolve inherited properties as aliases", () => {
+    expect(validateConfig({ ...validConfig, hair: "toString" })).toEqual([
+      expect.objectContaining({ field: "hair", code: "unknown_option" }),
+    ]);
+  });
+});
+
+describe("parseConfig", () => {
+  it("should return the config when valid", () => {
+    expect(parseConfig(validConfig)).toEqual({
+      success: true,
+      config: validConfig,
+    });
+  });
+
+  it("should strip unknown fields", () => {
+    const result = parseConfig({ ...validConfig, accessory: "hat" });
+
+    expect(result.success && result.config).toEqual(validConfig);
+  });
+
+  it("should return errors when invalid", () => {
+    const result = parseConfig({ ...validConfig, expression: "grumpy" });
+
+    expect(result.success).toBe(false);
+    expect(!result.success && result.errors).toEqual([
+      expect.objectContaining({ field: "expression", value: "grumpy" }),
+    ]);
+  });
+
+  it("should resolve names regardless of case and separators", () => {
+    const result = parseConfig({
+      background: "Baby Blue",
+      skin: "deep-brown",
+      tshirt: "BLUE",
+      expression: "side_glance",
+      hair: "SpaceBuns",
+    });
+
+    expect(result).toEqual({
+      success: true,
+      config: {
+        background: "babyBlue",
+        skin: "deepBrown",
+        tshirt: "blue",
+        expression: "sideGlance",
+        hair: "spaceBuns",
+      },
+    });
+  });
+
+  it("should resolve caller-supplied aliases", () => {
+    const result = parseConfig(
+      { ...validConfig, hair: "buzz", tshirt: "navy" },
+      { aliases: { hair: { buzz: "shortBuzz" }, tshirt: { navy: "blue" } } },
+    );
+
+    expect(result.success && result.config).toEqual({
+      ...validConfig,
+      hair: "shortBuzz",
+      tshirt: "blue",
+    });
+  });
+
+  it("should resolve the built-in aliases", () => {
+    const result = parseConfig({
+      ...validConfig,
+      background: "Dark Grey",
+      hairColor: "blond",
+      accessories: ["studs", "Hoops"],
+    });
+
+    expect(result.success && result.config).toEqual({
+      ...validConfig,
+      background: "darkGray",
+      hairColor: "blonde",
+      accessories: ["studEarrings", "hoopEarrings"],
+    });
+  });
+
+  it("should resolve caller-supplied accessory aliases", () => {
+    const result = parseConfig(
+      { ...validConfig, accessories: ["specs", "cap"] },
+      { aliases: { accessories: { specs: "roundGlasses" } } },
+    );
+
+    expect(result.success && result.config).toEqual({
+      ...validConfig,
+      accessories: ["roundGlasses", "cap"],
+    });
+  });
+});
+
+describe("sanitizeConfig", () => {
+  it("should keep valid values", () => {
+    expect(sanitizeConfig(validConfig)).toEqual(validConfig);
+  });
+
+  it("should replace invalid and missing values with defaults", () => {
+    expect(sanitizeConfig({ background: "neonPurple", hair: "bob" })).toEqual({
+      background: "babyBlue",
+      skin: "softPeach",
+      tshirt: "orange",
+      expression: "happy",
+      hair: "bob",
+    });
+  });
+
+  it("should use the fallback config when given", () => {
+    expect(
+      sanitizeConfig(
+        { hair: 42, skin: "Warm Brown" },
+        { fallback: validConfig },
+      ),
+    ).toEqual({ ...validConfig, skin: "warmBrown" });
+  });
+
+  it("should keep custom colors and drop malformed ones", () => {
+    expect(
+      sanitizeConfig({ ...validConfig, skin: "#E0AB8B", hairColor: 7 }),
+    ).toEqual({ ...validConfig, skin: "#E0AB8B" });
+  });
+
+  it("should resolve the colors of a background and drop unknown fields", () => {
+    expect(
+      sanitizeConfig({
+        ...validConfig,
+        background: {
+          type: "pattern",
+          pattern: "Confetti",
+          color: "soft-pink",
+          opacity: 0.5,
+        },
+      }),
+    ).toEqual({
+      ...validConfig,
+      background: { type: "pattern", pattern: "confetti", color: "softPink" },
+    });
+  });
+
+  it("should keep known accessories once and drop the rest", () => {
+    expect(
+      sanitizeConfig({
+        ...validConfig,
+        accessories: ["head-phones", "monocle", "headphones"],
+      }),
+    ).toEqual({ ...validConfig, accessories: ["headphones"] });
+  });
+
+  it("should return the defaults for non-object input", () => {
+    expect(sanitizeConfig(undefined)).toEqual(sanitizeConfig({}));
+  });
+});
@@ -1,45 +1,86 @@
+"use client";
+
+import { useEffect, useId, useMemo, useState } from "react";
+import { AvatarConfig, AvatarProps } from "../types";
+import { renderSvgNodes } from "./svg/render";
 import {
-  AvatarProps,
-  AvatarConfig,
-  BACKGROUNDS,
-  SKINS,
-  TSHIRTS,
-  EXPRESSIONS,
-  HAIRS,
-} from "../types";
-import { backgroundComponents } from "./svg/background";
-import { skinComponents } from "./svg/skin";
-import { tshirtComponents } from "./svg/tshirt";
-import { expressionComponents } from "./svg/expression";
-import { hairComponents } from "./svg/hair";
+  AVATAR_VIEWBOX,
+  composeAvatar,
+  getPreserveAspectRatio,
+} from "../utils/compose";
+import { defaultConfig } from "../utils/export";
+import { toIdPrefix } from "../utils/ids";
+import { EXPRESSION_TRANSITION_MS } from "../utils/animation";
+import { generateConfigFromSeed } from "../utils/seed";
+import { applyTheme } from "../utils/themes";
+import { useAvatarTheme } from "./AvatarThemeProvider";
+import { pickPluginValues } from "../utils/plugins";
+
+let idCounter = 0;
+
+function useCounterId(): string {
+  return useState(() => String(++idCounter))[0];
+}
 
 /**
- * Default avatar configuration used when no props are provided.
- *
- * @example
- * ```tsx
- * import { defaultConfig } from 'chipmunk-avatars';
- * console.log(defaultConfig.background); // 'babyBlue'
- * ```
+ * Returns an id that is unique to the component instance.
+ * `useId` only exists from React 18; older versions fall back to a counter.
+ * @internal
+ */
+export const useInstanceId: () => string =
+  typeof useId === "function" ? useId : useCounterId;
+
+/**
+ * Returns the expression an animated avatar crossfades from, for as long as
+ * the crossfade runs after `expression` changes.
  */
-export const defaultConfig: AvatarConfig = {
-  background: "babyBlue",
-  skin: "softPeach",
-  tshirt: "orange",
-  expression: "happy",
-  hair: "shortBuzz",
-};
+function usePreviousExpression(
+  expression: string,
+  animated: boolean,
+): string | undefined {
+  const [current, setCurrent] = useState(expression);
+  const [previous, setPrevious] = useState<string>();
+  if (current !== expression) {
+    // Updated while rendering so that the first new frame already fades
+    setCurrent(expression);
+    setPrevious(animated ? current : undefined);
+  }
+
+  useEffect(() => {
+    if (previous === undefined) return;
+    const timer = setTimeout(
+      () => setPrevious(undefined),
+      EXPRESSION_TRANSITION_MS,
+    );
+    return () => clearTimeout(timer);
+  }, [previous, current]);
+
+  return animated ? previous : undefined;
+}
 
 /**
  * Renders a customizable chipmunk avatar as an SVG element.
  *
  * @param props - Avatar configuration and styling options
  * @param props.size - Size of the avatar in pixels (default: 200)
- * @param props.background - Background color (default: 'babyBlue')
- * @param props.skin - Skin tone (default: 'softPeach')
- * @param props.tshirt - T-shirt color (default: 'orange')
+ * @param props.background - Background color, named or hex, a gradient, pattern or transparent background, or 'none' (default: 'babyBlue')
+ * @param props.skin - Skin tone, named or hex (default: 'softPeach')
+ * @param props.tshirt - T-shirt color, named or hex (default: 'orange')
  * @param props.expression - Facial expression (default: 'happy')
  * @param props.hair - Hairstyle (default: 'shortBuzz')
+ * @param props.hairColor - Hair color, named or hex (default: the hairstyle's own)
+ * @param props.faceDetail - Facial hair, freckles or blush (default: 'none')
+ * @param props.accessories - Glasses, hats, earrings and headphones to wear (default: none)
+ * @param props.seed - Derive the unset attributes from a string such as a user id
+ * @param props.seedVersion - Seed mapping version (default: 1)
+ * @param props.shape - Outline of the avatar (default: 'circle')
+ * @param props.cornerRadius - Corner radius in pixels for the 'rounded' shape
+ * @param props.clipBody - Clip the character to the outline (default: true)
+ * @param props.animated - Blink, breathe and crossfade expression changes (default: false)
+ * @param props.speaking - Loop a talking mouth while animated (default: false)
+ * @param props.theme - Palette for the named colors (default: the AvatarThemeProvider's)
+ * @param props.colorScheme - 'light', 'dark' or 'auto' to follow prefers-color-scheme (default: 'light')
+ * @param props.outline - Ring along the outline, true or a hex color (default: false)
  * @param props.className - Optional CSS class name
  * @param props.style - Optional inline styles
  * @returns SVG element rendering the avatar
@@ -57,70 +98,151 @@ export const defaultConfig: AvatarConfig = {
  *   expression="happy"
  *   hair="spaceBuns"
  * />
+ *
+ * // Same avatar for the same user everywhere
+ * <Avatar seed={user.id} />
+ *
+ * // Auburn hair
+ * <Avatar hair="bob" hairColor="auburn" />
+ *
+ * // Beard in the hair color
+ * <Avatar hair="shortCurly" hairColor="auburn" faceDetail="fullBeard" />
+ *
+ * // Glasses and a beanie
+ * <Avatar accessories={['roundGlasses', 'beanie']} />
+ *
+ * // Custom colors
+ * <Avatar tshirt="#0B3D91" hairColor="#B5651D" />
+ *
+ * // Gradient background
+ * <Avatar background={{ type: 'linear', colors: ['peach', 'coralRed'] }} />
+ *
+ * // Only the character, e.g. on a colored card
+ * <Avatar background="none" clipBody={false} />
+ *
+ * // Blinks while idle and talks while a message plays
+ * <Avatar animated speaking={isPlaying} expression={mood} />
+ *
+ * // Rounded square
+ * <Avatar shape="rounded" cornerRadius={12} size={64} />
+ *
+ * // Pastel palette
+ * <Avatar theme="pastel" />
+ *
+ * // Dark palette when the viewer prefers it, with a contrast ring
+ * <Avatar colorScheme="auto" outline />
  * ```
  */
 export function Avatar({
   size = 200,
   className,
   style,
-  background = defaultConfig.background,
-  skin = defaultConfig.skin,
-  tshirt = defaultConfig.tshirt,
-  expression = defaultConfig.expression,
-  hair = defaultConfig.hair,
+  seed,
+  seedVersion,
+  shape,
+  cornerRadius,
+  clipBody,
+  animated = false,
+  speaking = false,
+  theme: themeProp,
+  colorScheme,
+  outline,
+  ...attributes
 }: AvatarProps) {
+  const contextTheme = useAvatarTheme();
+  const theme = themeProp ?? contextTheme;
+  const base = useMemo(
+    () =>
+      seed === undefined
+        ? defaultConfig
+        : generateConfigFromSeed(seed, seedVersion),
+    [seed, seedVersion],
+  );
+  const background = attributes.background ?? base.background;
+  const skin = attributes.skin ?? base.skin;
+  const tshirt = attributes.tshirt ?? base.tshirt;
+  const expression = attributes.expression ?? base.expression;
+  const hair = attributes.hair ?? base.hair;
+  const hairColor = attributes.hairColor ?? base.hairColor;
+  const faceDetail = attributes.faceDetail ?? base.faceDetail;
+  const accessories = attributes.accessories ?? base.accessories;
+  const plugins = pickPluginValues(attributes);
+  // Compared by content so that inline objects and arrays do not recompose
+  // each render
+  const backgroundKey =
+    typeof background === "string" ? background : JSON.stringify(background);
+  const accessoryKey = accessories?.join(" ");
+  const pluginKey = JSON.stringify(plugins);
+  const themeKey = typeof theme === "object" ? JSON.stringify(theme) : theme;
+  const previousExpression = usePreviousExpression(expression, animated);
+
+  // Every id inside the SVG is scoped to this instance so that many avatars
+  // can share one document without their clip paths and masks colliding.
+  const idPrefix = toIdPrefix(`avatar${useInstanceId()}`);
+  const content = useMemo(() => {
+    const config: AvatarConfig = {
+      background,
+      skin,
+      tshirt,
+      expression,
+      hair,
+      hairColor,
+      faceDetail,
+      accessories,
+      ...plugins,
+    };
+    return renderSvgNodes(
+      composeAvatar(
+        theme === undefined ? config : applyTheme(config, theme),
+        idPrefix,
+        {
+          shape,
+          cornerRadius,
+          clipBody,
+          animated,
+          speaking,
+          previousExpression,
+          colorScheme,
+          outline,
+          size,
+        },
+      ),
+    );
+  }, [
+    backgroundKey,
+    skin,
+    tshirt,
+    expression,
+    hair,
+    hairColor,
+    faceDetail,
+    accessoryKey,
+    pluginKey,
+    themeKey,
+    idPrefix,
+    shape,
+    cornerRadius,
+    clipBody,
+    animated,
+    speaking,
+    previousExpression,
+    colorScheme,
+    outline,
+    size,
+  ]);
+
   return (
     <svg
       width={size}
       height={size}
-      viewBox="0 0 474 474"
+      viewBox={AVATAR_VIEWBOX}
+      preserveAspectRatio={getPreserveAspectRatio(shape)}
       fill="none"
       xmlns="http://www.w3.org/2000/svg"
       className={className}
       style={style}
     >
-      <defs>
-        <clipPath id="avatarClip">
-          <circle cx="237" cy="237" r="237" />
-        </clipPath>
-      </defs>
-      {/* Background (outside clip) */}
-      {backgroundComponents[background]}
-      {/* Clipped content */}
-      <g clipPath="url(#avatarClip)">
-        {tshirtComponents[tshirt]}
-        {skinComponents[skin]}
-        {hairComponents[hair]}
-        {expressionComponents[expression]}
-      </g>
+      {content}
     </svg>
   );
 }
-
-function randomItem<T>(arr: readonly T[]): T {
-  return arr[Math.floor(Math.random() * arr.length)];
-}
-
-/**
- * Generates a random avatar configuration with randomly selected values
- * for all attributes (background, skin, tshirt, expression, hair).
- *
- * @returns A complete AvatarConfig with random values
- *
- * @example
- * ```tsx
- * import { Avatar, generateRandomConfig } from 'chipmunk-avatars';
- *
- * const randomAvatar = generateRandomConfig();
- * <Avatar {...randomAvatar} />
- * ```
- */
-export function generateRandomConfig(): AvatarConfig {
-  return {
-    background: randomItem(BACKGROUNDS),
-    skin: randomItem(SKINS),
-    tshirt: randomItem(TSHIRTS),
-    expression: randomItem(EXPRESSIONS),
-    hair: randomItem(HAIRS),
-  };
-}
@@ -1,16 +1,24 @@
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
-import { Avatar, generateRandomConfig, defaultConfig } from "./Avatar";
 import {
-  AvatarConfig,
-  AvatarPickerProps,
-  BACKGROUNDS,
-  SKINS,
-  TSHIRTS,
-  EXPRESSIONS,
-  HAIRS,
-} from "../types";
+  Fragment,
+  useState,
+  useCallback,
+  useEffect,
+  useRef,
+  type ReactNode,
+} from "react";
+import { Avatar, useInstanceId } from "./Avatar";
+import { AvatarConfig, AvatarPickerProps, ACCESSORIES } from "../types";
+import { toggleAccessory } from "../utils/accessories";
+import { defaultConfig } from "../utils/export";
+import { toIdPrefix } from "../utils/ids";
+import {
+  getCategoryOptions,
+  getOptionLabel,
+  getPluginCategories,
+} from "../utils/plugins";
+import { generateRandomConfig } from "../utils/random";
 
 const styles = {
   container: {
@@ -41,6 +49,48 @@ const styles = {
     flexWrap: "wrap" as const,
     gap: "8px",
   },
+  optionsRow: {
+    display: "flex",
+    gap: "8px",
+    overflowX: "auto" as const,
+    paddingBottom: "4px",
+  },
+  layout: {
+    display: "flex",
+    flexWrap: "wrap" as const,
+    alignItems: "flex-start",
+    gap: "24px",
+  },
+  preview: {
+    display: "flex",
+    justifyContent: "center",
+    flex: "0 0 auto",
+  },
+  main: {
+    flex: "1 1 280px",
+    minWidth: 0,
+  },
+  tabs: {
+    display: "flex",
+    flexWrap: "wrap" as const,
+    gap: "6px",
+  },
+  tab: {
+    padding: "6px 12px",
+    border: "2px solid #e2e8f0",
+    borderRadius: "999px",
+    background: "#fff",
+    color: "#64748b",
+    cursor: "pointer",
+    fontFamily: "inherit",
+    fontSize: "13px",
+    fontWeight: 600,
+  },
+  tabSelected: {
+    borderColor: "#13aeff",
+    background: "#e0f4ff",
+    color: "#0090db",
+  },
   option: {
     padding: "6px",
     border: "2px solid #e2e8f0",
@@ -48,7 +98,6 @@ const styles = {
     background: "#fff",
     cursor: "pointer",
     transition: "all 0.2s ease",
-    outline: "none",
     display: "flex",
     alignItems: "center",
     justifyContent: "center",
@@ -62,6 +111,30 @@ const styles = {
     borderColor: "#13aeff",
     background: "#e0f4ff",
   },
+  header: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "space-between",
+  },
+  lockButton: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    width: "28px",
+    height: "28px",
+    padding: 0,
+    border: "2px solid #e2e8f0",
+    borderRadius: "8px",
+    background: "#fff",
+    color: "#94a3b8",
+    cursor: "pointer",
+    transition: "all 0.2s ease",
+  },
+  lockButtonActive: {
+    borderColor: "#13aeff",
+    background: "#e0f4ff",
+    color: "#0090db",
+  },
   randomButton: {
     padding: "14px 28px",
     height: "50px",
@@ -82,42 +155,194 @@ const styles = {
   },
 };
 
+function LockIcon({ locked }: { locked: boolean }) {
+  return (
+    <svg
+      width="14"
+      height="14"
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth="2.5"
+      strokeLinecap="round"
+      strokeLinejoin="round"
+      aria-hidden="true"
+    >
+      <rect x="4" y="11" width="16" height="10" rx="2" />
+      <path
+        d={locked ? "M8 11V7a4 4 0 0 1 8 0v4" : "M8 11V7a4 4 0 0 1 7.5-2"}
+      />
+    </svg>
+  );
+}
+
+/**
+ * Focus ring of the picker's controls. `:focus-visible` cannot be set
+ * inline, so the picker renders this rule once.
+ */
+const FOCUS_CSS =
+  ".avatar-picker-focus:focus-visible{outline:3px solid #13aeff;outline-offset:2px}";
+
+/**
+ * Roving tabindex for a group of buttons: only one of them is in the tab
+ * order, and the arrow keys, Home and End move the focus within the group.
+ *
+ * @param count - Number of buttons
+ * @param current - Index of the button that takes the focus when the group
+ * is tabbed into, e.g. the selected one (the first one if negative)
+ * @param onMove - Called with the index the focus moves to with a key
+ */
+function useRovingFocus(
+  count: number,
+  current: number,
+  onMove?: (index: number) => void,
+) {
+  const buttons = useRef<(HTMLButtonElement | null)[]>([]);
+  const [focused, setFocused] = useState<number>();
+  const tabStop =
+    focused !== undefined && focused < count ? focused : Math.max(current, 0);
+
+  const onKeyDown = (event: React.KeyboardEvent<HTMLElement>) => {
+    let index: number;
+    switch (event.key) {
+      case "ArrowRight":
+      case "ArrowDown":
+        index = (tabStop + 1) % count;
+        break;
+      case "ArrowLeft":
+      case "ArrowUp":
+        index = (tabStop - 1 + count) % count;
+        break;
+      case "Home":
+        index = 0;
+        break;
+      case "End":
+        index = count - 1;
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+    setFocused(index);
+    buttons.current[index]?.focus();
+    onMove?.(index);
+  };
+
+  // Once the focus leaves the group, tabbing back in lands on `current`
+  const onBlur = (event: React.FocusEvent<HTMLElement>) => {
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+      setFocused(undefined);
+    }
+  };
+
+  const itemProps = (index: number) => ({
+    ref: (button: HTMLButtonElement | null) => {
+      buttons.current[index] = button;
+    },
+    tabIndex: index === tabStop ? 0 : -1,
+    onFocus: () => setFocused(index),
+  });
+
+  return { groupProps: { onKeyDown, onBlur }, itemProps };
+}
+
+/** The Hair Color option that leaves `hairColor` unset */
+const OWN_HAIR_COLOR = "";
+
 interface CategorySelectorProps<T extends string> {
   label: string;
   options: readonly T[];
-  value: T;
+  /** The selected option, or the selected options of a multi-select */
+  value: T | readonly T[] | undefined;
   onChange: (value: T) => void;
   renderOption: (option: T) => React.ReactNode;
+  /** Human-readable name of an option */
+  getLabel: (option: T) => string;
+  locked: boolean;
+  onToggleLock: () => void;
+  /** Lays the options out in one row that scrolls sideways */
+  compact?: boolean;
+  /** Lets several options be selected, such as accessories */
+  multiple?: boolean;
 }
 
+/**
+ * A category's options. A single choice is a radio group, whose arrow keys
+ * select as they move; the options of a multi-select are checkboxes,
+ * toggled with Space.
+ */
 function CategorySelector<T extends string>({
   label,
   options,
   value,
   onChange,
   renderOption,
+  getLabel,
+  locked,
+  onToggleLock,
+  compact = false,
+  multiple = false,
 }: CategorySelectorProps<T>) {
+  const isSelected = (option: T) =>
+    typeof value === "string" ? value === option : !!value?.includes(option);
+  const { groupProps, itemProps } = useRovingFocus(
+    options.length,
+    options.findIndex(isSelected),
+    multiple ? undefined : (index) => onChange(options[index]),
+  );
+
   return (
     <div style={styles.category}>
-      <span style={styles.label}>{label}</span>
-      <div style={styles.options}>
-        {options.map((option) => (
+      <div style={styles.header}>
+        <span style={styles.label}>{label}</span>
+        <button
+          type="button"
+          className="avatar-picker-focus"
+          aria-label={`Lock ${label}`}
+          aria-pressed={locked}
+          title={
+            locked
+              ? `${label} is kept on Randomize`
+              : `Keep ${label} on Randomize`
+          }
+          style={{
+            ...styles.lockButton,
+            ...(locked ? styles.lockButtonActive : {}),
+          }}
+          onClick={onToggleLock}
+        >
+          <LockIcon locked={locked} />
+        </button>
+      </div>
+      <div
+        role={multiple ? "group" : "radiogroup"}
+        aria-label={label}
+        style={compact ? styles.optionsRow : styles.options}
+        {...groupProps}
+      >
+        {options.map((option, index) => (
           <button
             key={option}
             type="button"
-            title={option}
+            role={multiple ? "checkbox" : "radio"}
+            aria-checked={isSelected(option)}
+            aria-label={getLabel(option)}
+            title={getLabel(option)}
+            className="avatar-picker-focus"
             style={{
               ...styles.option,
-              ...(value === option ? styles.optionSelected : {}),
+              ...(compact ? { flex: "0 0 auto" } : {}),
+              ...(isSelected(option) ? styles.optionSelected : {}),
             }}
+            {...itemProps(index)}
             onClick={() => onChange(option)}
             onMouseEnter={(e) => {
-              if (value !== option) {
+              if (!isSelected(option)) {
                 Object.assign(e.currentTarget.style, styles.optionHover);
               }
             }}
             onMouseLeave={(e) => {
-              if (value !== option) {
+              if (!isSelected(option)) {
                 e.currentTarget.style.borderColor = "#e2e8f0";
                 e.currentTarget.style.background = "#fff";
               }
@@ -131,15 +356,30 @@ function CategorySelector<T extends string>({
   );
 }
 
+/** A category of the picker, with its selector. */
+interface PickerSection {
+  key: keyof AvatarConfig;
+  label: string;
+  content: ReactNode;
+}
+
+/** Size of the live preview in pixels. */
+const PREVIEW_SIZE = 160;
+
 /**
  * An interactive UI component for customizing avatar appearance.
- * Provides controls for selecting background, skin, t-shirt, expression, and hair.
+ * Provides controls for selecting background, skin, t-shirt, expression, hair,
+ * hair color, face detail and accessories. Clicking an accessory puts it on or takes it off.
+ * Options and categories registered by plugins are listed too.
  * Supports both controlled and uncontrolled modes.
  *
  * @param props - Picker configuration options
  * @param props.value - Current avatar configuration (for controlled mode)
  * @param props.onChange - Callback fired when any avatar attribute changes
  * @param props.className - Optional CSS class name for the container
+ * @param props.randomizeOptions - Constraints applied by the Randomize button
+ * @param props.layout - 'stacked', 'tabs' or 'compact' (default: 'stacked')
+ * @param props.preview - Show a live preview beside the options (default: false)
  *
  * @example
  * ```tsx
@@ -149,14 +389,30 @@ function CategorySelector<T extends string>({
  *
  * // Uncontrolled mode
  * <AvatarPicker onChange={(config) => console.log(config)} />
+ *
+ * // Randomize only work-appropriate expressions
+ * <AvatarPicker
+ *   randomizeOptions={{ include: { expression: ['happy', 'focused'] } }}
+ * />
+ *
+ * // One category at a time, next to a preview, e.g. in a modal
+ * <AvatarPicker layout="tabs" preview onChange={setConfig} />
  * ```
  */
 export function AvatarPicker({
   value,
   onChange,
   className,
+  randomizeOptions,
+  layout = "stacked",
+  preview = false,
 }: AvatarPickerProps) {
   const [config, setConfig] = useState<AvatarConfig>(value || defaultConfig);
+  const [locks, setLocks] = useState<
+    Partial<Record<keyof AvatarConfig, boolean>>
+  >({});
+  const [activeTab, setActiveTab] = useState<keyof AvatarConfig>("background");
+  const tabsId = toIdPrefix(`picker${useInstanceId()}`);
 
   // Sync with external value changes
   useEffect(() => {
@@ -174,87 +430,277 @@ export function AvatarPicker({
     [config, onChange],
   );
 
+  // Plugin categories are only known at runtime, so they are typed loosely
+  const updatePluginValue = useCallback(
+    (name: string, val: string) => {
+      const newConfig = { ...config, [name]: val };
+      setConfig(newConfig);
+      onChange?.(newConfig);
+    },
+    [config, onChange],
+  );
+
+  const toggleLock = useCallback((key: keyof AvatarConfig) => {
+    setLocks((prev) => ({ ...prev, [key]: !prev[key] }));
+  }, []);
+
   const handleRandom = useCallback(() => {
-    const newConfig = generateRandomConfig();
+    const locked: Partial<AvatarConfig> = { ...randomizeOptions?.locked };
+    // A locked category left unset, such as the hairstyle's own hair color
+    // or no face detail, has no option to lock, so it is kept unset instead
+    const unset: string[] = [];
+    for (const key of Object.keys(locks) as (keyof AvatarConfig)[]) {
+      if (!locks[key]) continue;
+      if (config[key] === undefined) unset.push(key);
+      else Object.assign(locked, { [key]: config[key] });
+    }
+    const newConfig = Object.fromEntries(
+      Object.entries(
+        generateRandomConfig({ ...randomizeOptions, locked }),
+      ).filter(([key]) => !unset.includes(key)),
+    ) as AvatarConfig;
     setConfig(newConfig);
     onChange?.(newConfig);
-  }, [onChange]);
+  }, [config, locks, onChange, randomizeOptions]);
 
-  return (
-    <div style={styles.container} className={className}>
-      <div style={styles.controls}>
+  const compact = layout === "compact";
+  const section = (
+    key: keyof AvatarConfig,
+    label: string,
+    render: (selector: {
+      label: string;
+      locked: boolean;
+      onToggleLock: () => void;
+      getLabel: (option: string) => string;
+      compact: boolean;
+    }) => ReactNode,
+  ): PickerSection => ({
+    key,
+    label,
+    content: render({
+      label,
+      locked: !!locks[key],
+      onToggleLock: () => toggleLock(key),
+      getLabel: (option) => getOptionLabel(key, option),
+      compact,
+    }),
+  });
+
+  const sections: PickerSection[] = [
+    section("background", "Background", (selector) => (
+      <CategorySelector
+        {...selector}
+        options={getCategoryOptions("background")}
+        value={
+          typeof config.background === "string" ? config.background : undefined
+        }
+        onChange={(v) => updateConfig("background", v)}
+        renderOption={(bg) => <Avatar {...config} background={bg} size={48} />}
+      />
+    )),
+    section("skin", "Skin", (selector) => (
+      <CategorySelector
+        {...selector}
+        options={getCategoryOptions("skin")}
+        value={config.skin}
+        onChange={(v) => updateConfig("skin", v)}
+        renderOption={(skin) => <Avatar {...config} skin={skin} size={48} />}
+      />
+    )),
+    section("tshirt", "T-Shirt", (selector) => (
+      <CategorySelector
+        {...selector}
+        options={getCategoryOptions("tshirt")}
+        value={config.tshirt}
+        onChange={(v) => updateConfig("tshirt", v)}
+        renderOption={(tshirt) => (
+          <Avatar {...config} tshirt={tshirt} size={48} />
+        )}
+      />
+    )),
+    section("expression", "Expression", (selector) => (
+      <CategorySelector
+        {...selector}
+        options={getCategoryOptions("expression")}
+        value={config.expression}
+        onChange={(v) => updateConfig("expression", v)}
+        renderOption={(expression) => (
+          <Avatar {...config} expression={expression} size={48} />
+        )}
+      />
+    )),
+    section("hair", "Hair", (selector) => (
+      <CategorySelector
+        {...selector}
+        options={getCategoryOptions("hair")}
+        value={config.hair}
+        onChange={(v) => updateConfig("hair", v)}
+        renderOption={(hair) => <Avatar {...config} hair={hair} size={48} />}
+      />
+    )),
+    section("hairColor", "Hair Color", (selector) => (
+      <CategorySelector
+        {...selector}
+        options={[OWN_HAIR_COLOR, ...getCategoryOptions("hairColor")]}
+        value={config.hairColor ?? OWN_HAIR_COLOR}
+        onChange={(v) =>
+          updateConfig("hairColor", v === OWN_HAIR_COLOR ? undefined : v)
+        }
+        getLabel={(option) =>
+          option === OWN_HAIR_COLOR
+            ? "Hairstyle's own color"
+            : selector.getLabel(option)
+        }
+        renderOption={(hairColor) => (
+          <Avatar
+            {...config}
+            hairColor={hairColor === OWN_HAIR_COLOR ? undefined : hairColor}
+            size={48}
+          />
+        )}
+      />
+    )),
+    section("faceDetail", "Face Detail", (selector) => (
+      <CategorySelector
+        {...selector}
+        options={getCategoryOptions("faceDetail")}
+        value={config.faceDetail ?? "none"}
+        onChange={(v) => updateConfig("faceDetail", v)}
+        renderOption={(faceDetail) => (
+          <Avatar {...config} faceDetail={faceDetail} size={48} />
+        )}
+      />
+    )),
+    section("accessories", "Accessories", (selector) => (
+      <CategorySelector
+        {...selector}
+        multiple
+        options={ACCESSORIES}
+        value={config.accessories}
+        onChange={(v) =>
+          updateConfig(
+            "accessories",
+            toggleAccessory(config.accessories ?? [], v),
+          )
+        }
+        renderOption={(accessory) => (
+          <Avatar {...config} accessories={[accessory]} size={48} />
+        )}
+      />
+    )),
+    ...getPluginCategories().map(({ name, label }) =>
+      section(name, label, (selector) => (
         <CategorySelector
-          label="Background"
-          options={BACKGROUNDS}
-          value={config.background}
-          onChange={(v) => updateConfig("background", v)}
-          renderOption={(bg) => (
-            <Avatar {...config} background={bg} size={48} />
+          {...selector}
+          options={getCategoryOptions(name)}
+          value={config[name]}
+          onChange={(v) => updatePluginValue(name, v)}
+          renderOption={(option) => (
+            <Avatar {...config} {...{ [name]: option }} size={48} />
           )}
         />
+      )),
+    ),
+  ];
 
-        <CategorySelector
-          label="Skin"
-          options={SKINS}
-          value={config.skin}
-          onChange={(v) => updateConfig("skin", v)}
-          renderOption={(skin) => <Avatar {...config} skin={skin} size={48} />}
-        />
+  // Only the open category is rendered in the tabs layout
+  const openIndex = Math.max(
+    sections.findIndex(({ key }) => key === activeTab),
+    0,
+  );
+  const open = sections[openIndex];
+  const tabFocus = useRovingFocus(sections.length, openIndex, (index) =>
+    setActiveTab(sections[index].key),
+  );
 
-        <CategorySelector
-          label="T-Shirt"
-          options={TSHIRTS}
-          value={config.tshirt}
-          onChange={(v) => updateConfig("tshirt", v)}
-          renderOption={(tshirt) => (
-            <Avatar {...config} tshirt={tshirt} size={48} />
-          )}
-        />
+  const tabs = (
+    <>
+      <div
+        role="tablist"
+        aria-label="Avatar categories"
+        style={styles.tabs}
+        {...tabFocus.groupProps}
+      >
+        {sections.map(({ key, label }, index) => (
+          <button
+            key={key}
+            type="button"
+            role="tab"
+            className="avatar-picker-focus"
+            id={`${tabsId}-tab-${key}`}
+            aria-selected={key === open.key}
+            aria-controls={`${tabsId}-panel`}
+            style={{
+              ...styles.tab,
+              ...(key === open.key ? styles.tabSelected : {}),
+            }}
+            {...tabFocus.itemProps(index)}
+            onClick={() => setActiveTab(key)}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      <div
+        role="tabpanel"
+        id={`${tabsId}-panel`}
+        aria-labelledby={`${tabsId}-tab-${open.key}`}
+      >
+        {open.content}
+      </div>
+    </>
+  );
 
-        <CategorySelector
-          label="Expression"
-          options={EXPRESSIONS}
-          value={config.expression}
-          onChange={(v) => updateConfig("expression", v)}
-          renderOption={(expression) => (
-            <Avatar {...config} expression={expression} size={48} />
-          )}
-        />
+  const controls = (
+    <div style={styles.controls}>
+      {layout === "tabs"
+        ? tabs
+        : sections.map(({ key, content }) => (
+            <Fragment key={key}>{content}</Fragment>
+          ))}
 
-        <CategorySelector
-          label="Hair"
-          options={HAIRS}
-          value={config.hair}
-          onChange={(v) => updateConfig("hair", v)}
-          renderOption={(hair) => <Avatar {...config} hair={hair} size={48} />}
-        />
+      <button
+        type="button"
+        className="avatar-picker-focus"
+        style={styles.randomButton}
+        onClick={handleRandom}
+        onMouseEnter={(e) => {
+          e.currentTarget.style.transform = "translateY(-2px)";
+          e.currentTarget.style.boxShadow = "0 8px 0 0 #0078b8";
+        }}
+        onMouseLeave={(e) => {
+          e.currentTarget.style.transform = "translateY(0)";
+          e.currentTarget.style.boxShadow = "0 6px 0 0 #0078b8";
+        }}
+        onMouseDown={(e) => {
+          e.currentTarget.style.transform = "translateY(4px)";
+          e.currentTarget.style.boxShadow = "0 0 0 0 #0078b8";
+          e.currentTarget.style.color = "rgba(255, 255, 255, 0.6)";
+        }}
+        onMouseUp={(e) => {
+          e.currentTarget.style.transform = "translateY(-2px)";
+          e.currentTarget.style.boxShadow = "0 8px 0 0 #0078b8";
+          e.currentTarget.style.color = "#fff";
+        }}
+      >
+        Randomize
+      </button>
+    </div>
+  );
 
-        <button
-          type="button"
-          style={styles.randomButton}
-          onClick={handleRandom}
-          onMouseEnter={(e) => {
-            e.currentTarget.style.transform = "translateY(-2px)";
-            e.currentTarget.style.boxShadow = "0 8px 0 0 #0078b8";
-          }}
-          onMouseLeave={(e) => {
-            e.currentTarget.style.transform = "translateY(0)";
-            e.currentTarget.style.boxShadow = "0 6px 0 0 #0078b8";
-          }}
-          onMouseDown={(e) => {
-            e.currentTarget.style.transform = "translateY(4px)";
-            e.currentTarget.style.boxShadow = "0 0 0 0 #0078b8";
-            e.currentTarget.style.color = "rgba(255, 255, 255, 0.6)";
-          }}
-          onMouseUp={(e) => {
-            e.currentTarget.style.transform = "translateY(-2px)";
-            e.currentTarget.style.boxShadow = "0 8px 0 0 #0078b8";
-            e.currentTarget.style.color = "#fff";
-          }}
-        >
-          Randomize
-        </button>
-      </div>
+  return (
+    <div style={styles.container} className={className}>
+      <style>{FOCUS_CSS}</style>
+      {preview ? (
+        <div style={styles.layout}>
+          <div style={styles.preview} aria-label="Preview" role="img">
+            <Avatar {...config} size={PREVIEW_SIZE} />
+          </div>
+          <div style={styles.main}>{controls}</div>
+        </div>
+      ) : (
+        controls
+      )}
     </div>
   );
 }
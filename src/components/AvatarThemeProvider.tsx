@@ -0,0 +1,50 @@
+"use client";
+
+import { createContext, useContext } from "react";
+import {
+  AvatarTheme,
+  AvatarThemeName,
+  AvatarThemeProviderProps,
+} from "../types";
+
+const AvatarThemeContext = createContext<
+  AvatarThemeName | AvatarTheme | undefined
+>(undefined);
+
+/**
+ * Returns the theme of the nearest `AvatarThemeProvider`, if any.
+ * @internal
+ */
+export function useAvatarTheme(): AvatarThemeName | AvatarTheme | undefined {
+  return useContext(AvatarThemeContext);
+}
+
+/**
+ * Applies a theme to every `<Avatar>` inside it, including the previews of
+ * `AvatarPicker`. An avatar's own `theme` prop takes precedence.
+ *
+ * @param props - Theme and children
+ * @param props.theme - Built-in theme name or custom theme; `undefined`
+ * turns theming off
+ * @param props.children - Content that renders avatars
+ * @returns The children, themed
+ *
+ * @example
+ * ```tsx
+ * import { Avatar, AvatarThemeProvider } from 'pinecone-avatars';
+ *
+ * <AvatarThemeProvider theme={isDarkMode ? 'dark' : undefined}>
+ *   <Avatar seed={user.id} />
+ * </AvatarThemeProvider>
+ * ```
+ */
+export function AvatarThemeProvider({
+  theme,
+  children,
+}: AvatarThemeProviderProps) {
+  return (
+    <AvatarThemeContext.Provider value={theme}>
+      {children}
+    </AvatarThemeContext.Provider>
+  );
+}
@@ -0,0 +1,41 @@
+import { AccessoryType } from "../../types";
+
+export const accessorySvg: Record<AccessoryType, string> = {
+  roundGlasses: `<circle cx="194" cy="245" r="35" fill="white" fill-opacity="0.15" stroke="#2D3142" stroke-width="7" />
+  <circle cx="266" cy="245" r="35" fill="white" fill-opacity="0.15" stroke="#2D3142" stroke-width="7" />
+  <path d="M226 241C228 238 232 238 234 241" stroke="#2D3142" stroke-width="6" stroke-linecap="round" />
+  <path d="M159 240L96 230" stroke="#2D3142" stroke-width="7" stroke-linecap="round" />
+  <path d="M301 240L381 230" stroke="#2D3142" stroke-width="7" stroke-linecap="round" />`,
+  squareGlasses: `<rect x="158" y="214" width="70" height="62" rx="14" fill="white" fill-opacity="0.15" stroke="#2D3142" stroke-width="8" />
+  <rect x="232" y="214" width="70" height="62" rx="14" fill="white" fill-opacity="0.15" stroke="#2D3142" stroke-width="8" />
+  <path d="M158 232L96 226" stroke="#2D3142" stroke-width="8" stroke-linecap="round" />
+  <path d="M302 232L381 226" stroke="#2D3142" stroke-width="8" stroke-linecap="round" />`,
+  sunglasses: `<path d="M156 222C156 216.477 160.477 212 166 212H220C225.523 212 230 216.477 230 222V238C230 259.539 212.539 277 191 277C171.67 277 156 261.33 156 242V222Z" fill="#1F2430" stroke="#1F2430" stroke-width="6" />
+  <path d="M230 222C230 216.477 234.477 212 240 212H294C299.523 212 304 216.477 304 222V242C304 261.33 288.33 277 269 277C247.461 277 230 259.539 230 238V222Z" fill="#1F2430" stroke="#1F2430" stroke-width="6" />
+  <path d="M170 226L186 226" stroke="white" stroke-opacity="0.35" stroke-width="6" stroke-linecap="round" />
+  <path d="M244 226L260 226" stroke="white" stroke-opacity="0.35" stroke-width="6" stroke-linecap="round" />
+  <path d="M156 226L96 222" stroke="#1F2430" stroke-width="8" stroke-linecap="round" />
+  <path d="M304 226L381 222" stroke="#1F2430" stroke-width="8" stroke-linecap="round" />`,
+  beanie: `<path d="M84 176V150C84 92 152 52 237 52C322 52 390 92 390 150V176H84Z" fill="#E4572E" />
+  <path d="M136 76V134M186 60V134M237 56V134M288 60V134M338 76V134" stroke="black" stroke-opacity="0.12" stroke-width="8" stroke-linecap="round" />
+  <rect x="76" y="134" width="322" height="48" rx="24" fill="#E4572E" />
+  <rect x="76" y="134" width="322" height="48" rx="24" fill="black" fill-opacity="0.15" />
+  <circle cx="237" cy="46" r="24" fill="#F4F1EA" />`,
+  cap: `<path d="M92 170V152C92 96 157 62 237 62C317 62 382 96 382 152V170H92Z" fill="#3A86FF" />
+  <path d="M237 64V168" stroke="black" stroke-opacity="0.15" stroke-width="6" />
+  <circle cx="237" cy="62" r="10" fill="#3A86FF" />
+  <circle cx="237" cy="62" r="10" fill="black" fill-opacity="0.15" />
+  <path d="M72 176C72 163.85 81.85 154 94 154H380C392.15 154 402 163.85 402 176C402 184.837 394.837 192 386 192H88C79.163 192 72 184.837 72 176Z" fill="#3A86FF" />
+  <path d="M72 176C72 163.85 81.85 154 94 154H380C392.15 154 402 163.85 402 176C402 184.837 394.837 192 386 192H88C79.163 192 72 184.837 72 176Z" fill="black" fill-opacity="0.2" />`,
+  studEarrings: `<circle cx="79" cy="300" r="7" fill="#F4C542" />
+  <circle cx="398" cy="300" r="7" fill="#F4C542" />
+  <circle cx="77" cy="298" r="2" fill="white" fill-opacity="0.7" />
+  <circle cx="396" cy="298" r="2" fill="white" fill-opacity="0.7" />`,
+  hoopEarrings: `<circle cx="79" cy="318" r="15" stroke="#F4C542" stroke-width="5" />
+  <circle cx="398" cy="318" r="15" stroke="#F4C542" stroke-width="5" />`,
+  headphones: `<path d="M74 240V196C74 112 147 62 237 62C327 62 400 112 400 196V240" stroke="#2D3142" stroke-width="16" stroke-linecap="round" />
+  <rect x="52" y="204" width="46" height="98" rx="20" fill="#2D3142" />
+  <rect x="376" y="204" width="46" height="98" rx="20" fill="#2D3142" />
+  <rect x="84" y="214" width="18" height="78" rx="9" fill="#EF476F" />
+  <rect x="372" y="214" width="18" height="78" rx="9" fill="#EF476F" />`,
+};
@@ -0,0 +1,22 @@
+import { BackgroundPatternType } from "../../types";
+
+export const backgroundPatternSvg: Record<BackgroundPatternType, string> = {
+  dots: `<pattern id="pattern" width="36" height="36" patternUnits="userSpaceOnUse">
+  <circle cx="9" cy="9" r="4.5" fill="white" fill-opacity="0.6" />
+  <circle cx="27" cy="27" r="4.5" fill="white" fill-opacity="0.6" />
+</pattern>`,
+  stripes: `<pattern id="pattern" width="28" height="28" patternUnits="userSpaceOnUse" patternTransform="rotate(45)">
+  <rect width="10" height="28" fill="white" fill-opacity="0.45" />
+</pattern>`,
+  confetti: `<pattern id="pattern" width="96" height="96" patternUnits="userSpaceOnUse">
+  <rect x="10" y="14" width="12" height="5" rx="2" fill="#FF6B6B" transform="rotate(-30 16 16.5)" />
+  <circle cx="48" cy="12" r="3.5" fill="#FFD93D" />
+  <rect x="70" y="20" width="12" height="5" rx="2" fill="#4D96FF" transform="rotate(40 76 22.5)" />
+  <circle cx="24" cy="46" r="3" fill="#6BCB77" />
+  <rect x="44" y="44" width="12" height="5" rx="2" fill="#C77DFF" transform="rotate(15 50 46.5)" />
+  <circle cx="84" cy="54" r="3.5" fill="#FF6B6B" />
+  <rect x="8" y="76" width="12" height="5" rx="2" fill="#FFD93D" transform="rotate(60 14 78.5)" />
+  <circle cx="54" cy="80" r="3" fill="#4D96FF" />
+  <rect x="72" y="82" width="12" height="5" rx="2" fill="#6BCB77" transform="rotate(-50 78 84.5)" />
+</pattern>`,
+};
@@ -1,10 +0,0 @@
-export const backgroundSvg: Record<string, string> = {
-  babyBlue: `<circle cx="237" cy="237" r="237" fill="#B9E8FF"/>`,
-  coralRed: `<circle cx="237" cy="237" r="237" fill="#E56464"/>`,
-  darkGray: `<circle cx="237" cy="237" r="237" fill="#4B4B4B"/>`,
-  lightGray: `<circle cx="237" cy="237" r="237" fill="#E5E5E5"/>`,
-  mintGreen: `<circle cx="237" cy="237" r="237" fill="#5AEAB1"/>`,
-  pastelGreen: `<circle cx="237" cy="237" r="237" fill="#D7FFB8"/>`,
-  peach: `<circle cx="237" cy="237" r="237" fill="#FFCB80"/>`,
-  softPink: `<circle cx="237" cy="237" r="237" fill="#FFDFE0"/>`,
-};
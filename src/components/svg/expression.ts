@@ -0,0 +1,403 @@
+import { BuiltInOption } from "../../types";
+
+export const expressionSvg: Record<BuiltInOption<"expression">, string> = {
+  happy: `<circle opacity="0.3" cx="169.193" cy="278.051" r="26.1933" fill="#FF7472" />
+  <circle opacity="0.3" cx="305.051" cy="278.193" r="26.1933" fill="#FF7472" />
+  <mask id="mask0_2724_1999" style="mask-type:alpha" maskUnits="userSpaceOnUse" x="166" y="208" width="58" height="75">
+    <rect x="166.985" y="208.688" width="56.1067" height="73.5191" rx="28.0533" fill="white" />
+  </mask>
+  <g mask="url(#mask0_2724_1999)">
+    <rect x="166.985" y="208.688" width="56.1067" height="73.5191" rx="28.0533" fill="white" />
+    <path d="M203.297 225.258C215.298 225.258 225.027 234.987 225.027 246.988V260.477C225.027 272.478 215.298 282.208 203.297 282.208C191.295 282.208 181.565 272.478 181.565 260.477V246.988C181.565 244.006 182.167 241.164 183.254 238.576C184.382 239.066 185.661 239.346 187.017 239.346C191.565 239.346 195.252 236.232 195.252 232.391C195.252 230.613 194.461 228.992 193.161 227.763C196.187 226.164 199.636 225.258 203.297 225.258Z" fill="black" />
+  </g>
+  <mask id="mask1_2724_1999" style="mask-type:alpha" maskUnits="userSpaceOnUse" x="236" y="208" width="57" height="75">
+    <rect x="236.623" y="208.688" width="56.1067" height="73.5191" rx="28.0533" fill="white" />
+  </mask>
+  <g mask="url(#mask1_2724_1999)">
+    <rect x="236.623" y="208.688" width="56.1067" height="73.5191" rx="28.0533" fill="white" />
+    <path d="M258.354 225.258C270.356 225.258 280.085 234.987 280.085 246.988V260.477C280.085 272.478 270.356 282.208 258.354 282.208C246.353 282.208 236.623 272.478 236.623 260.477V246.988C236.623 244.006 237.224 241.164 238.312 238.576C239.44 239.066 240.718 239.346 242.074 239.346C246.623 239.346 250.31 236.232 250.31 232.391C250.309 230.613 249.518 228.992 248.219 227.763C251.245 226.164 254.694 225.258 258.354 225.258Z" fill="black" />
+  </g>
+  <g filter="url(#filter0_i_2724_1999)">
+    <path d="M205.892 312.697C203.052 316.346 203.685 321.685 207.788 323.817C211.198 325.59 214.828 326.933 218.594 327.807C225.087 329.316 231.831 329.394 238.358 328.038C244.885 326.682 251.039 323.923 256.395 319.953C259.5 317.651 262.294 314.973 264.717 311.988C267.63 308.398 266.084 303.249 262.026 301.033C257.968 298.817 252.948 300.431 249.677 303.699C248.665 304.709 247.578 305.647 246.424 306.503C243.018 309.028 239.103 310.783 234.952 311.645C230.801 312.508 226.511 312.458 222.381 311.499C220.981 311.173 219.611 310.746 218.28 310.222C213.978 308.528 208.731 309.048 205.892 312.697Z" fill="#EFA076" />
+  </g>
+  <circle opacity="0.2" cx="229" cy="279" r="5" fill="black" />
+  <defs>
+    <filter id="filter0_i_2724_1999" x="204.15" y="300.011" width="62.0708" height="28.9893" filterUnits="userSpaceOnUse" color-interpolation-filters="sRGB">
+      <feFlood flood-opacity="0" result="BackgroundImageFix" />
+      <feBlend mode="normal" in="SourceGraphic" in2="BackgroundImageFix" result="shape" />
+      <feColorMatrix in="SourceAlpha" type="matrix" values="0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 127 0" result="hardAlpha" />
+      <feOffset dx="-4" dy="3" />
+      <feComposite in2="hardAlpha" operator="arithmetic" k2="-1" k3="1" />
+      <feColorMatrix type="matrix" values="0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0.15 0" />
+      <feBlend mode="normal" in2="shape" result="effect1_innerShadow_2724_1999" />
+    </filter>
+  </defs>`,
+  sleepy: `<mask id="mask0_2725_1123" style="mask-type:alpha" maskUnits="userSpaceOnUse" x="166" y="208" width="58" height="75">
+    <rect x="166.984" y="208.688" width="56.1067" height="73.5191" rx="28.0533" fill="white" />
+  </mask>
+  <g mask="url(#mask0_2725_1123)">
+    <rect x="166.984" y="208.688" width="56.1067" height="73.5191" rx="28.0533" fill="white" />
+    <path d="M194.58 228C203.264 228 210.304 235.04 210.305 243.724V253.483C210.305 262.168 203.264 269.208 194.58 269.208C185.896 269.208 178.856 262.167 178.856 253.483V243.724C178.857 240.524 179.813 237.547 181.455 235.063C181.888 235.148 182.338 235.194 182.801 235.194C186.092 235.194 188.76 232.94 188.76 230.161C188.76 229.819 188.719 229.484 188.642 229.161C190.474 228.413 192.479 228 194.58 228Z" fill="black" />
+    <rect x="164.856" y="207" width="60" height="44" fill="#EFA076" />
+  </g>
+  <mask id="mask1_2725_1123" style="mask-type:alpha" maskUnits="userSpaceOnUse" x="236" y="208" width="57" height="75">
+    <rect x="236.623" y="208.688" width="56.1067" height="73.5191" rx="28.0533" fill="white" />
+  </mask>
+  <g mask="url(#mask1_2725_1123)">
+    <rect x="236.623" y="208.688" width="56.1067" height="73.5191" rx="28.0533" fill="white" />
+    <path d="M264.581 228C273.265 228 280.305 235.04 280.306 243.724V253.483C280.306 262.168 273.265 269.208 264.581 269.208C255.897 269.208 248.857 262.167 248.857 253.483V243.724C248.858 240.524 249.814 237.547 251.456 235.063C251.888 235.148 252.339 235.194 252.802 235.194C256.093 235.194 258.761 232.94 258.761 230.161C258.761 229.819 258.72 229.484 258.643 229.161C260.475 228.413 262.48 228 264.581 228Z" fill="black" />
+    <rect x="234.857" y="207" width="60" height="44" fill="#EFA076" />
+  </g>
+  <g filter="url(#filter0_i_2725_1123)">
+    <path d="M194.525 304.495C190.679 306.804 189.384 311.855 192.333 315.236C197.147 320.755 203.238 325.076 210.124 327.792C217.01 330.508 224.41 331.507 231.696 330.759C236.159 330.301 238.661 325.726 237.426 321.413C236.191 317.101 231.66 314.727 227.174 314.753C223.403 314.775 219.638 314.081 216.084 312.679C212.53 311.278 209.304 309.215 206.563 306.625C203.303 303.544 198.371 302.186 194.525 304.495Z" fill="#EFA076" />
+  </g>
+  <circle opacity="0.2" cx="229" cy="279" r="5" fill="black" />
+  <defs>
+    <filter id="filter0_i_2725_1123" x="190.717" y="303.335" width="47.0237" height="27.6641" filterUnits="userSpaceOnUse" color-interpolation-filters="sRGB">
+      <feFlood flood-opacity="0" result="BackgroundImageFix" />
+      <feBlend mode="normal" in="SourceGraphic" in2="BackgroundImageFix" result="shape" />
+      <feColorMatrix in="SourceAlpha" type="matrix" values="0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 127 0" result="hardAlpha" />
+      <feOffset dx="-4" dy="3" />
+      <feComposite in2="hardAlpha" operator="arithmetic" k2="-1" k3="1" />
+      <feColorMatrix type="matrix" values="0 0 0 0 0.930198 0 0 0 0 0.537217 0 0 0 0 0.328291 0 0 0 1 0" />
+      <feBlend mode="normal" in2="shape" result="effect1_innerShadow_2725_1123" />
+    </filter>
+  </defs>`,
+  sideGlance: `<circle opacity="0.3" cx="169.193" cy="278.051" r="26.1933" fill="#FF7472" />
+  <circle opacity="0.3" cx="305.051" cy="278.193" r="26.1933" fill="#FF7472" />
+  <mask id="mask0_2725_1258" style="mask-type:alpha" maskUnits="userSpaceOnUse" x="166" y="208" width="58" height="75">
+    <rect x="166.984" y="208.688" width="56.1067" height="73.5191" rx="28.0533" fill="white" />
+  </mask>
+  <g mask="url(#mask0_2725_1258)">
+    <rect x="166.984" y="208.688" width="56.1067" height="73.5191" rx="28.0533" fill="white" />
+    <path d="M181.701 215.688C190.262 215.688 197.201 222.628 197.201 231.188V257.188C197.201 265.749 190.262 272.688 181.701 272.688C173.141 272.688 166.201 265.749 166.201 257.188V231.188C166.201 222.628 173.141 215.688 181.701 215.688Z" fill="black" />
+    <path d="M163.361 208H227.361V251H163.361V208Z" fill="#EFA076" />
+  </g>
+  <mask id="mask1_2725_1258" style="mask-type:alpha" maskUnits="userSpaceOnUse" x="236" y="208" width="57" height="75">
+    <rect x="236.623" y="208.688" width="56.1067" height="73.5191" rx="28.0533" fill="white" />
+  </mask>
+  <g mask="url(#mask1_2725_1258)">
+    <rect x="236.623" y="208.688" width="56.1067" height="73.5191" rx="28.0533" fill="white" />
+    <path d="M251.34 215.688C259.9 215.688 266.84 222.628 266.84 231.188V257.188C266.84 265.749 259.9 272.688 251.34 272.688C242.779 272.688 235.84 265.749 235.84 257.188V231.188C235.84 222.628 242.779 215.688 251.34 215.688Z" fill="black" />
+    <path d="M233 208H297V251H233V208Z" fill="#EFA076" />
+  </g>
+  <g filter="url(#filter0_i_2725_1258)">
+    <path d="M221.411 334.357C217.611 331.972 216.417 326.896 219.432 323.575C224.354 318.151 230.529 313.952 237.468 311.373C244.406 308.794 251.825 307.942 259.094 308.834C263.547 309.38 265.958 314.003 264.638 318.291C263.318 322.579 258.741 324.862 254.256 324.747C250.487 324.65 246.708 325.27 243.127 326.601C239.546 327.932 236.28 329.93 233.489 332.465C230.168 335.481 225.21 336.742 221.411 334.357Z" fill="#EFA076" />
+  </g>
+  <circle opacity="0.2" cx="229" cy="279" r="5" fill="black" />
+  <defs>
+    <filter id="filter0_i_2725_1258" x="217.729" y="308.491" width="47.2686" height="27.1123" filterUnits="userSpaceOnUse" color-interpolation-filters="sRGB">
+      <feFlood flood-opacity="0" result="BackgroundImageFix" />
+      <feBlend mode="normal" in="SourceGraphic" in2="BackgroundImageFix" result="shape" />
+      <feColorMatrix in="SourceAlpha" type="matrix" values="0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 127 0" result="hardAlpha" />
+      <feOffset dx="-4" dy="3" />
+      <feComposite in2="hardAlpha" operator="arithmetic" k2="-1" k3="1" />
+      <feColorMatrix type="matrix" values="0 0 0 0 0.930198 0 0 0 0 0.537217 0 0 0 0 0.328291 0 0 0 1 0" />
+      <feBlend mode="normal" in2="shape" result="effect1_innerShadow_2725_1258" />
+    </filter>
+  </defs>`,
+  suspicious: `<circle opacity="0.3" cx="161.193" cy="278.051" r="26.1933" fill="#FF7472" />
+  <circle opacity="0.3" cx="313.051" cy="278.193" r="26.1933" fill="#FF7472" />
+  <mask id="mask0_2726_1611" style="mask-type:alpha" maskUnits="userSpaceOnUse" x="159" y="208" width="57" height="74">
+    <rect x="159" y="208" width="56.1067" height="73.5191" rx="28.0533" fill="white" />
+  </mask>
+  <g mask="url(#mask0_2726_1611)">
+    <rect x="159" y="208" width="56.1067" height="73.5191" rx="28.0533" fill="white" />
+    <path d="M187.717 215C198.486 215 207.217 223.73 207.217 234.5V252.5C207.217 263.27 198.486 272 187.717 272C176.947 272 168.217 263.27 168.217 252.5V234.5C168.217 223.73 176.947 215 187.717 215Z" fill="black" />
+    <path d="M155.377 207.312H219.377V250.312H155.377V207.312Z" fill="#EFA076" />
+  </g>
+  <mask id="mask1_2726_1611" style="mask-type:alpha" maskUnits="userSpaceOnUse" x="244" y="208" width="57" height="75">
+    <rect x="244.623" y="208.688" width="56.1067" height="73.5191" rx="28.0533" fill="white" />
+  </mask>
+  <g mask="url(#mask1_2726_1611)">
+    <rect x="244.623" y="208.688" width="56.1067" height="73.5191" rx="28.0533" fill="white" />
+    <path d="M273.34 215.688C284.109 215.688 292.84 224.419 292.84 235.188V253.188C292.84 263.958 284.109 272.688 273.34 272.688C262.57 272.688 253.84 263.958 253.84 253.188V235.188C253.84 224.419 262.57 215.688 273.34 215.688Z" fill="black" />
+    <path d="M241 208H305V251H241V208Z" fill="#EFA076" />
+  </g>
+  <g filter="url(#filter0_i_2726_1611)">
+    <path d="M245.146 326.605C248.421 323.539 248.624 318.329 245.031 315.643C239.164 311.259 232.301 308.315 224.998 307.108C217.695 305.9 210.25 306.479 203.284 308.741C199.018 310.127 197.533 315.126 199.647 319.083C201.761 323.04 206.69 324.408 211.07 323.439C214.752 322.625 218.579 322.513 222.348 323.136C226.117 323.759 229.705 325.097 232.929 327.053C236.764 329.38 241.871 329.671 245.146 326.605Z" fill="#EFA076" />
+  </g>
+  <circle opacity="0.2" cx="229" cy="279" r="5" fill="black" />
+  <defs>
+    <filter id="filter0_i_2726_1611" x="198.694" y="306.491" width="48.97" height="22.3604" filterUnits="userSpaceOnUse" color-interpolation-filters="sRGB">
+      <feFlood flood-opacity="0" result="BackgroundImageFix" />
+      <feBlend mode="normal" in="SourceGraphic" in2="BackgroundImageFix" result="shape" />
+      <feColorMatrix in="SourceAlpha" type="matrix" values="0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 127 0" result="hardAlpha" />
+      <feOffset dx="-4" dy="3" />
+      <feComposite in2="hardAlpha" operator="arithmetic" k2="-1" k3="1" />
+      <feColorMatrix type="matrix" values="0 0 0 0 0.930198 0 0 0 0 0.537217 0 0 0 0 0.328291 0 0 0 1 0" />
+      <feBlend mode="normal" in2="shape" result="effect1_innerShadow_2726_1611" />
+    </filter>
+  </defs>`,
+  laughing: `<circle opacity="0.3" cx="133" cy="282" r="36" fill="#FF7472" />
+  <circle opacity="0.3" cx="339" cy="281" r="35" fill="#FF7472" />
+  <mask id="mask0_2726_1869" style="mask-type:alpha" maskUnits="userSpaceOnUse" x="157" y="238" width="66" height="32">
+    <path d="M157.869 248.605C156.687 244.166 159.326 239.555 163.875 238.907C173.877 237.481 184.103 238.233 193.843 241.149C203.584 244.066 212.54 249.058 220.113 255.746C223.557 258.787 223.228 264.09 219.8 267.149C216.372 270.208 211.148 269.848 207.593 266.937C202.152 262.479 195.862 259.122 189.071 257.089C182.28 255.055 175.18 254.402 168.184 255.136C163.614 255.616 159.052 253.045 157.869 248.605Z" fill="#DB935B" />
+  </mask>
+  <g mask="url(#mask0_2726_1869)">
+    <path d="M157.869 248.605C156.687 244.166 159.326 239.555 163.875 238.907C173.877 237.481 184.103 238.233 193.843 241.149C203.584 244.066 212.54 249.058 220.113 255.746C223.557 258.787 223.228 264.09 219.8 267.149C216.372 270.208 211.148 269.848 207.593 266.937C202.152 262.479 195.862 259.122 189.071 257.089C182.28 255.055 175.18 254.402 168.184 255.136C163.614 255.616 159.052 253.045 157.869 248.605Z" fill="white" />
+    <circle cx="210.972" cy="266.163" r="12" transform="rotate(30 210.972 266.163)" fill="black" />
+  </g>
+  <mask id="mask1_2726_1869" style="mask-type:alpha" maskUnits="userSpaceOnUse" x="249" y="239" width="67" height="30">
+    <path d="M252.243 265.539C248.999 262.286 248.979 256.973 252.595 254.137C260.544 247.902 269.775 243.439 279.669 241.095C289.563 238.75 299.816 238.596 309.717 240.601C314.221 241.513 316.587 246.27 315.148 250.633C313.709 254.996 309.005 257.297 304.471 256.552C297.53 255.412 290.404 255.651 283.506 257.285C276.608 258.92 270.133 261.904 264.441 266.038C260.724 268.738 255.487 268.793 252.243 265.539Z" fill="#DB935B" />
+  </mask>
+  <g mask="url(#mask1_2726_1869)">
+    <path d="M252.243 265.539C248.999 262.286 248.979 256.973 252.595 254.137C260.544 247.902 269.775 243.439 279.669 241.095C289.563 238.75 299.816 238.596 309.717 240.601C314.221 241.513 316.587 246.27 315.148 250.633C313.709 254.996 309.005 257.297 304.471 256.552C297.53 255.412 290.404 255.651 283.506 257.285C276.608 258.92 270.133 261.904 264.441 266.038C260.724 268.738 255.487 268.793 252.243 265.539Z" fill="white" />
+    <circle cx="304" cy="255" r="12" fill="black" />
+  </g>
+  <path d="M304.169 285.848C295.348 294.669 284.876 301.666 273.351 306.44C261.826 311.213 249.474 313.67 236.999 313.67C224.524 313.67 212.172 311.213 200.647 306.44C189.122 301.666 178.65 294.669 169.829 285.848" stroke="#EFA076" stroke-width="6" stroke-linecap="round" />
+  <path d="M165.797 268.918C167.762 272.321 169.037 276.079 169.55 279.975C170.063 283.871 169.804 287.831 168.787 291.627C167.769 295.423 166.015 298.981 163.622 302.099C161.23 305.217 158.247 307.833 154.843 309.798" stroke="#EFA076" stroke-width="6" stroke-linecap="round" />
+  <path d="M307.964 268.918C305.999 272.321 304.723 276.079 304.21 279.975C303.697 283.871 303.957 287.831 304.974 291.627C305.991 295.423 307.746 298.981 310.139 302.099C312.531 305.217 315.514 307.833 318.918 309.798" stroke="#EFA076" stroke-width="6" stroke-linecap="round" />
+  <path d="M284.844 215.963C281.44 213.998 277.683 212.722 273.787 212.209C269.89 211.696 265.931 211.956 262.135 212.973C258.339 213.99 254.78 215.745 251.662 218.138C248.544 220.53 245.928 223.513 243.963 226.917" stroke="#EFA076" stroke-width="6" stroke-linecap="round" />
+  <path d="M155 238.5C162.667 237.167 182.4 236.2 200 243C209.07 246.504 216.582 252.284 222.235 257.998C222.875 258.645 224 258.199 224 257.29V241" stroke="#EFA076" stroke-width="6" stroke-linecap="round" />
+  <circle opacity="0.2" cx="229" cy="279" r="5" fill="black" />`,
+  focused: `<mask id="mask0_2726_1930" style="mask-type:alpha" maskUnits="userSpaceOnUse" x="157" y="238" width="66" height="32">
+    <path d="M157.869 248.605C156.686 244.166 159.326 239.555 163.874 238.907C173.876 237.481 184.102 238.233 193.843 241.149C203.584 244.066 212.54 249.058 220.112 255.746C223.556 258.787 223.227 264.09 219.799 267.149C216.371 270.208 211.147 269.848 207.593 266.937C202.152 262.479 195.861 259.122 189.07 257.089C182.279 255.055 175.179 254.402 168.183 255.136C163.614 255.616 159.051 253.045 157.869 248.605Z" fill="#DB935B" />
+  </mask>
+  <g mask="url(#mask0_2726_1930)">
+    <path d="M157.869 248.605C156.686 244.166 159.326 239.555 163.874 238.907C173.876 237.481 184.102 238.233 193.843 241.149C203.584 244.066 212.54 249.058 220.112 255.746C223.556 258.787 223.227 264.09 219.799 267.149C216.371 270.208 211.147 269.848 207.593 266.937C202.152 262.479 195.861 259.122 189.07 257.089C182.279 255.055 175.179 254.402 168.183 255.136C163.614 255.616 159.051 253.045 157.869 248.605Z" fill="white" />
+    <circle cx="212.38" cy="260.389" r="12" transform="rotate(30 212.38 260.389)" fill="black" />
+  </g>
+  <mask id="mask1_2726_1930" style="mask-type:alpha" maskUnits="userSpaceOnUse" x="249" y="239" width="67" height="30">
+    <path d="M252.243 265.539C248.999 262.286 248.979 256.973 252.595 254.137C260.544 247.902 269.775 243.439 279.669 241.095C289.563 238.75 299.816 238.596 309.717 240.601C314.221 241.513 316.587 246.27 315.148 250.633C313.709 254.996 309.005 257.297 304.471 256.552C297.53 255.412 290.404 255.651 283.506 257.285C276.608 258.92 270.133 261.904 264.441 266.038C260.724 268.738 255.487 268.793 252.243 265.539Z" fill="#DB935B" />
+  </mask>
+  <g mask="url(#mask1_2726_1930)">
+    <path d="M252.243 265.539C248.999 262.286 248.979 256.973 252.595 254.137C260.544 247.902 269.775 243.439 279.669 241.095C289.563 238.75 299.816 238.596 309.717 240.601C314.221 241.513 316.587 246.27 315.148 250.633C313.709 254.996 309.005 257.297 304.471 256.552C297.53 255.412 290.404 255.651 283.506 257.285C276.608 258.92 270.133 261.904 264.441 266.038C260.724 268.738 255.487 268.793 252.243 265.539Z" fill="white" />
+    <circle cx="262" cy="259" r="12" fill="black" />
+  </g>
+  <path d="M155 238.5C162.667 237.167 182.4 236.2 200 243C209.07 246.504 216.582 252.284 222.235 257.998C222.875 258.645 224 258.199 224 257.29V241" stroke="#EFA076" stroke-width="6" stroke-linecap="round" />
+  <path d="M316 238.5C308.333 237.167 288.6 236.2 271 243C261.93 246.504 254.418 252.284 248.765 257.998C248.125 258.645 247 258.199 247 257.29V241" stroke="#EFA076" stroke-width="6" stroke-linecap="round" />
+  <g filter="url(#filter0_i_2726_1930)">
+    <path d="M227.847 321.892C223.388 319.216 221.888 313.36 225.306 309.441C228.047 306.298 231.148 303.488 234.544 301.067C238.779 298.049 244.46 300.115 246.687 304.815C248.914 309.514 246.788 315.049 242.863 318.461C242.503 318.774 242.149 319.095 241.802 319.423C238.022 322.995 232.305 324.569 227.847 321.892Z" fill="#EFA076" />
+  </g>
+  <circle opacity="0.2" cx="237" cy="279" r="5" fill="black" />
+  <defs>
+    <filter id="filter0_i_2726_1930" x="223.432" y="299.651" width="24.1578" height="23.5859" filterUnits="userSpaceOnUse" color-interpolation-filters="sRGB">
+      <feFlood flood-opacity="0" result="BackgroundImageFix" />
+      <feBlend mode="normal" in="SourceGraphic" in2="BackgroundImageFix" result="shape" />
+      <feColorMatrix in="SourceAlpha" type="matrix" values="0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 127 0" result="hardAlpha" />
+      <feOffset dx="-4" dy="3" />
+      <feComposite in2="hardAlpha" operator="arithmetic" k2="-1" k3="1" />
+      <feColorMatrix type="matrix" values="0 0 0 0 0.930198 0 0 0 0 0.537217 0 0 0 0 0.328291 0 0 0 1 0" />
+      <feBlend mode="normal" in2="shape" result="effect1_innerShadow_2726_1930" />
+    </filter>
+  </defs>`,
+  angry: `<g clip-path="url(#clip0_2726_2025)">
+    <circle opacity="0.3" cx="145" cy="310" r="32" fill="#FF7472" />
+    <circle opacity="0.3" cx="334" cy="310" r="34" fill="#FF7472" />
+    <mask id="mask0_2726_2025" style="mask-type:alpha" maskUnits="userSpaceOnUse" x="245" y="219" width="57" height="68">
+      <path d="M291.733 219.275C297.845 224.421 301.729 232.127 301.729 240.742V258.154C301.729 273.648 289.17 286.208 273.677 286.208C258.183 286.208 245.623 273.648 245.623 258.154V248.202L291.733 219.275Z" fill="white" />
+    </mask>
+    <g mask="url(#mask0_2726_2025)">
+      <rect x="245.623" y="212.688" width="56.1067" height="73.5191" rx="28.0533" fill="white" />
+      <path d="M264.354 218.258C253.559 218.258 244.605 226.128 242.912 236.443C247.332 236.59 250.87 240.216 250.87 244.671C250.87 249.219 247.182 252.906 242.634 252.906C242.63 252.906 242.627 252.905 242.623 252.905V253.477C242.623 265.478 252.352 275.208 264.354 275.208C276.355 275.208 286.085 265.478 286.085 253.477V239.988C286.085 227.987 276.355 218.258 264.354 218.258Z" fill="black" />
+    </g>
+    <path d="M294 218L245.072 249.051C243.74 249.896 242 248.939 242 247.362V237.5" stroke="#EFA076" stroke-width="6" stroke-linecap="round" stroke-linejoin="round" />
+    <mask id="mask1_2726_2025" style="mask-type:alpha" maskUnits="userSpaceOnUse" x="164" y="219" width="58" height="68">
+      <path d="M174.995 219.275C168.884 224.421 164.999 232.127 164.999 240.742V258.154C164.999 273.648 177.559 286.208 193.052 286.208C208.545 286.208 221.105 273.648 221.105 258.154V248.202L174.995 219.275Z" fill="white" />
+    </mask>
+    <g mask="url(#mask1_2726_2025)">
+      <rect width="56.1067" height="73.5191" rx="28.0533" transform="matrix(-1 0 0 1 221.105 212.688)" fill="white" />
+      <path d="M202.374 218.258C192.275 218.258 183.785 225.147 181.348 234.482C183.912 234.821 185.89 237.015 185.891 239.671C185.891 242.562 183.546 244.906 180.654 244.906C180.651 244.906 180.647 244.905 180.644 244.905V253.477C180.644 265.478 190.373 275.208 202.374 275.208C214.376 275.208 224.105 265.478 224.105 253.477V239.988C224.105 227.987 214.376 218.258 202.374 218.258Z" fill="black" />
+    </g>
+    <path d="M173 218L221.928 249.051C223.26 249.896 225 248.939 225 247.362V237.5" stroke="#EFA076" stroke-width="6" stroke-linecap="round" stroke-linejoin="round" />
+    <path d="M249.499 309.62C239.036 307.89 228.356 307.924 217.904 309.721" stroke="#EFA076" stroke-width="6" stroke-linecap="round" />
+    <path d="M216.067 318.498C217.171 312.796 216.12 306.887 213.118 301.915" stroke="#EFA076" stroke-width="6" stroke-linecap="round" />
+    <path d="M251.014 318.498C249.909 312.796 250.96 306.887 253.963 301.915" stroke="#EFA076" stroke-width="6" stroke-linecap="round" />
+    <circle opacity="0.2" cx="237" cy="279" r="5" fill="black" />
+  </g>
+  <defs>
+    <clipPath id="clip0_2726_2025">
+      <rect width="474" height="474" fill="white" />
+    </clipPath>
+  </defs>`,
+  furious: `<circle opacity="0.3" cx="310.193" cy="282.193" r="26.1933" fill="#FF7472" />
+  <path d="M187.162 193C177.126 193 168.149 197.663 162.162 205" stroke="#EFA076" stroke-width="10" stroke-linecap="round" stroke-linejoin="round" />
+  <path d="M282 193C292.036 193 301.013 197.663 307 205" stroke="#EFA076" stroke-width="10" stroke-linecap="round" stroke-linejoin="round" />
+  <mask id="mask0_2726_2341" style="mask-type:alpha" maskUnits="userSpaceOnUse" x="244" y="208" width="57" height="75">
+    <path d="M272.677 208.688C288.17 208.689 300.729 221.249 300.729 236.742V254.154C300.729 269.648 288.17 282.208 272.677 282.208C257.183 282.208 244.623 269.648 244.623 254.154V236.742C244.623 221.249 257.183 208.688 272.677 208.688Z" fill="white" />
+  </mask>
+  <g mask="url(#mask0_2726_2341)">
+    <rect x="244.623" y="208.688" width="56.1067" height="73.5191" rx="28.0533" fill="white" />
+    <path d="M266.354 226.258C263.364 226.258 260.515 226.862 257.923 227.954C258.527 229.13 258.87 230.469 258.87 231.891C258.87 236.56 255.182 240.346 250.634 240.346C249.118 240.346 247.7 239.923 246.48 239.189C245.288 241.88 244.623 244.856 244.623 247.988V261.477C244.623 273.478 254.352 283.208 266.354 283.208C278.355 283.208 288.085 273.478 288.085 261.477V247.988C288.085 235.987 278.355 226.258 266.354 226.258Z" fill="black" />
+  </g>
+  <circle opacity="0.3" cx="152.193" cy="282.193" r="26.1933" fill="#FF7472" />
+  <mask id="mask1_2726_2341" style="mask-type:alpha" maskUnits="userSpaceOnUse" x="163" y="208" width="57" height="75">
+    <path d="M191.323 208.74C175.83 208.74 163.271 221.301 163.271 236.794V254.206C163.271 269.699 175.83 282.26 191.323 282.26C206.817 282.26 219.377 269.699 219.377 254.206V236.794C219.377 221.301 206.817 208.74 191.323 208.74Z" fill="white" />
+  </mask>
+  <g mask="url(#mask1_2726_2341)">
+    <rect width="56.1067" height="73.5191" rx="28.0533" transform="matrix(-1 0 0 1 219.377 208.74)" fill="white" />
+    <path d="M197.646 226.31C194.656 226.31 191.807 226.914 189.215 228.006C189.819 229.182 190.162 230.521 190.162 231.942C190.162 236.612 186.474 240.397 181.926 240.397C180.41 240.397 178.992 239.974 177.772 239.241C176.58 241.931 175.915 244.908 175.915 248.04V261.528C175.915 273.53 185.644 283.26 197.646 283.26C209.647 283.26 219.377 273.53 219.377 261.528V248.04C219.377 236.038 209.647 226.31 197.646 226.31Z" fill="black" />
+  </g>
+  <g filter="url(#filter0_i_2726_2341)">
+    <path d="M244.393 312.098C247.503 319.401 244.048 328.098 236.142 328.813C234.403 328.97 232.653 329.029 230.9 328.987C229.146 328.945 227.401 328.803 225.671 328.563C217.809 327.47 214.774 318.618 218.23 311.472C223.603 300.362 239.557 300.744 244.393 312.098Z" fill="#EFA076" />
+  </g>
+  <circle opacity="0.2" cx="237" cy="279" r="5" fill="black" />
+  <defs>
+    <filter id="filter0_i_2726_2341" x="216.817" y="303.356" width="28.7109" height="25.6436" filterUnits="userSpaceOnUse" color-interpolation-filters="sRGB">
+      <feFlood flood-opacity="0" result="BackgroundImageFix" />
+      <feBlend mode="normal" in="SourceGraphic" in2="BackgroundImageFix" result="shape" />
+      <feColorMatrix in="SourceAlpha" type="matrix" values="0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 127 0" result="hardAlpha" />
+      <feOffset dx="-4" dy="3" />
+      <feComposite in2="hardAlpha" operator="arithmetic" k2="-1" k3="1" />
+      <feColorMatrix type="matrix" values="0 0 0 0 0.930198 0 0 0 0 0.537217 0 0 0 0 0.328291 0 0 0 1 0" />
+      <feBlend mode="normal" in2="shape" result="effect1_innerShadow_2726_2341" />
+    </filter>
+  </defs>`,
+  sad: `<circle opacity="0.3" cx="161.193" cy="278.051" r="26.1933" fill="#FF7472" />
+  <circle opacity="0.3" cx="313.051" cy="278.193" r="26.1933" fill="#FF7472" />
+  <path d="M179.162 198C189.198 198 198.176 193.337 204.162 186" stroke="#EFA076" stroke-width="10" stroke-linecap="round" stroke-linejoin="round" />
+  <path d="M282 198C271.964 198 262.987 193.337 257 186" stroke="#EFA076" stroke-width="10" stroke-linecap="round" stroke-linejoin="round" />
+  <mask id="mask0_2726_2523" style="mask-type:alpha" maskUnits="userSpaceOnUse" x="163" y="208" width="57" height="75">
+    <path d="M191.323 208.74C175.83 208.74 163.271 221.301 163.271 236.794V254.206C163.271 269.699 175.83 282.26 191.323 282.26C206.817 282.26 219.377 269.699 219.377 254.206V236.794C219.377 221.301 206.817 208.74 191.323 208.74Z" fill="white" />
+  </mask>
+  <g mask="url(#mask0_2726_2523)">
+    <rect width="56.1067" height="73.5191" rx="28.0533" transform="matrix(-1 0 0 1 219.377 208.74)" fill="white" />
+    <path d="M197.646 226.31C194.656 226.31 191.807 226.914 189.215 228.006C189.819 229.182 190.162 230.521 190.162 231.942C190.162 236.612 186.474 240.397 181.926 240.397C180.41 240.397 178.992 239.974 177.772 239.241C176.58 241.931 175.915 244.908 175.915 248.04V261.528C175.915 273.53 185.644 283.26 197.646 283.26C209.647 283.26 219.377 273.53 219.377 261.528V248.04C219.377 236.038 209.647 226.31 197.646 226.31Z" fill="black" />
+  </g>
+  <mask id="mask1_2726_2523" style="mask-type:alpha" maskUnits="userSpaceOnUse" x="244" y="208" width="57" height="75">
+    <path d="M272.677 208.688C288.17 208.689 300.729 221.249 300.729 236.742V254.154C300.729 269.648 288.17 282.208 272.677 282.208C257.183 282.208 244.623 269.648 244.623 254.154V236.742C244.623 221.249 257.183 208.688 272.677 208.688Z" fill="white" />
+  </mask>
+  <g mask="url(#mask1_2726_2523)">
+    <rect x="244.623" y="208.688" width="56.1067" height="73.5191" rx="28.0533" fill="white" />
+    <path d="M266.354 226.258C263.364 226.258 260.515 226.862 257.923 227.954C258.527 229.13 258.87 230.469 258.87 231.891C258.87 236.56 255.182 240.346 250.634 240.346C249.118 240.346 247.7 239.923 246.48 239.189C245.288 241.88 244.623 244.856 244.623 247.988V261.477C244.623 273.478 254.352 283.208 266.354 283.208C278.355 283.208 288.085 273.478 288.085 261.477V247.988C288.085 235.987 278.355 226.258 266.354 226.258Z" fill="black" />
+  </g>
+  <g filter="url(#filter0_i_2726_2523)">
+    <path d="M254.023 322.263C256.778 325.804 256.164 330.982 252.194 333.072C245.714 336.484 238.475 338.319 231.073 338.369C223.671 338.419 216.408 336.683 209.882 333.359C205.885 331.322 205.201 326.153 207.908 322.576C210.614 318.998 215.696 318.418 219.871 320.06C223.38 321.44 227.143 322.15 230.963 322.124C234.783 322.098 238.536 321.337 242.026 319.91C246.179 318.211 251.268 318.723 254.023 322.263Z" fill="#EFA076" />
+  </g>
+  <circle opacity="0.2" cx="237" cy="279" r="5" fill="black" />
+  <defs>
+    <filter id="filter0_i_2726_2523" x="206.282" y="318.973" width="49.4314" height="19.3975" filterUnits="userSpaceOnUse" color-interpolation-filters="sRGB">
+      <feFlood flood-opacity="0" result="BackgroundImageFix" />
+      <feBlend mode="normal" in="SourceGraphic" in2="BackgroundImageFix" result="shape" />
+      <feColorMatrix in="SourceAlpha" type="matrix" values="0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 127 0" result="hardAlpha" />
+      <feOffset dx="-4" dy="3" />
+      <feComposite in2="hardAlpha" operator="arithmetic" k2="-1" k3="1" />
+      <feColorMatrix type="matrix" values="0 0 0 0 0.930198 0 0 0 0 0.537217 0 0 0 0 0.328291 0 0 0 1 0" />
+      <feBlend mode="normal" in2="shape" result="effect1_innerShadow_2726_2523" />
+    </filter>
+  </defs>`,
+  starry: `<circle opacity="0.3" cx="161.193" cy="278.051" r="26.1933" fill="#FF7472" />
+  <circle opacity="0.3" cx="313.051" cy="278.193" r="26.1933" fill="#FF7472" />
+  <mask id="mask0_2726_2716" style="mask-type:alpha" maskUnits="userSpaceOnUse" x="151" y="208" width="74" height="74">
+    <rect x="151" y="208" width="73.52" height="73.5191" rx="36.7595" fill="white" />
+  </mask>
+  <g mask="url(#mask0_2726_2716)">
+    <rect x="147" y="203" width="82" height="84" rx="41" fill="white" />
+    <path d="M195.311 225C211.05 225 223.811 237.76 223.811 253.5C223.811 269.24 211.05 282 195.311 282C179.57 282 166.811 269.24 166.811 253.5C166.811 246.971 169.007 240.955 172.7 236.149C174.211 237.681 176.486 238.657 179.031 238.657C183.58 238.657 187.267 235.543 187.267 231.702C187.267 229.849 186.407 228.166 185.007 226.92C188.202 225.68 191.677 225 195.311 225Z" fill="black" />
+    <path d="M195.817 238.636C195.82 245.801 201.538 251.63 208.66 251.811L209.001 251.814C201.72 251.814 195.817 257.717 195.817 264.998L195.817 265H195.816L195.817 264.998C195.817 257.718 189.916 251.815 182.636 251.814L182.636 251.813C189.914 251.813 195.814 245.914 195.816 238.636H195.817Z" fill="white" />
+    <path d="M210.957 263.312C210.141 265.277 208.945 267.063 207.438 268.567C205.93 270.071 204.14 271.264 202.17 272.078C200.2 272.893 198.089 273.312 195.957 273.312" stroke="white" stroke-width="5" stroke-linecap="round" />
+  </g>
+  <mask id="mask1_2726_2716" style="mask-type:alpha" maskUnits="userSpaceOnUse" x="236" y="208" width="75" height="75">
+    <rect x="236.623" y="208.688" width="73.52" height="73.5191" rx="36.7595" fill="white" />
+  </mask>
+  <g mask="url(#mask1_2726_2716)">
+    <rect x="231" y="202" width="83" height="87" rx="41.5" fill="white" />
+    <path d="M266.354 225C282.094 225 294.854 237.76 294.854 253.5C294.854 269.24 282.094 282 266.354 282C250.614 282 237.854 269.24 237.854 253.5C237.854 247.142 239.937 241.27 243.456 236.529C244.957 238.238 247.362 239.346 250.074 239.346C254.623 239.346 258.31 236.232 258.31 232.391C258.309 230.298 257.214 228.423 255.481 227.148C258.832 225.764 262.504 225 266.354 225Z" fill="black" />
+    <path d="M263.863 240.365C263.865 247.066 269.299 252.498 276 252.498C269.298 252.498 263.863 257.931 263.863 264.634L263.863 264.637H263.862L263.863 264.634C263.863 257.932 258.431 252.499 251.729 252.498L251.729 252.497C258.43 252.496 263.861 247.066 263.862 240.365H263.863Z" fill="white" />
+    <path d="M284 264C283.184 265.965 281.988 267.751 280.481 269.255C278.973 270.76 277.183 271.953 275.213 272.767C273.243 273.581 271.132 274 269 274" stroke="white" stroke-width="5" stroke-linecap="round" />
+  </g>
+  <path d="M181 196C170.964 196 161.987 200.663 156 208" stroke="#EFA076" stroke-width="10" stroke-linecap="round" stroke-linejoin="round" />
+  <path d="M181 196C170.964 196 161.987 200.663 156 208" stroke="black" stroke-opacity="0.2" stroke-width="10" stroke-linecap="round" stroke-linejoin="round" />
+  <path d="M279 196C289.036 196 298.013 200.663 304 208" stroke="#EFA076" stroke-width="10" stroke-linecap="round" stroke-linejoin="round" />
+  <path d="M279 196C289.036 196 298.013 200.663 304 208" stroke="black" stroke-opacity="0.2" stroke-width="10" stroke-linecap="round" stroke-linejoin="round" />
+  <g filter="url(#filter0_i_2726_2716)">
+    <path d="M240.145 322.132C242.827 318.537 242.109 313.372 238.098 311.363C233.808 309.214 229.194 307.742 224.419 307.015C219.643 306.288 214.8 306.32 210.066 307.095C205.639 307.819 203.415 312.536 204.906 316.767C206.397 320.998 211.062 323.096 215.539 322.801C217.679 322.66 219.837 322.751 221.973 323.076C224.11 323.401 226.197 323.957 228.198 324.729C232.384 326.343 237.462 325.728 240.145 322.132Z" fill="#EFA076" />
+  </g>
+  <circle opacity="0.2" cx="237" cy="279" r="5" fill="black" />
+  <defs>
+    <filter id="filter0_i_2726_2716" x="204.444" y="306.491" width="37.2939" height="19.0811" filterUnits="userSpaceOnUse" color-interpolation-filters="sRGB">
+      <feFlood flood-opacity="0" result="BackgroundImageFix" />
+      <feBlend mode="normal" in="SourceGraphic" in2="BackgroundImageFix" result="shape" />
+      <feColorMatrix in="SourceAlpha" type="matrix" values="0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 0 127 0" result="hardAlpha" />
+      <feOffset dx="-4" dy="3" />
+      <feComposite in2="hardAlpha" operator="arithmetic" k2="-1" k3="1" />
+      <feColorMatrix type="matrix" values="0 0 0 0 0.930198 0 0 0 0 0.537217 0 0 0 0 0.328291 0 0 0 1 0" />
+      <feBlend mode="normal" in2="shape" result="effect1_innerShadow_2726_2716" />
+    </filter>
+  </defs>`,
+  shocked: `<circle opacity="0.3" cx="313.051" cy="278.193" r="26.1933" fill="#FF7472" />
+  <circle opacity="0.3" cx="151.193" cy="278.193" r="26.1933" fill="#FF7472" />
+  <mask id="mask0_2726_2895" style="mask-type:alpha" maskUnits="userSpaceOnUse" x="151" y="208" width="74" height="74">
+    <rect x="151" y="208" width="73.52" height="73.5191" rx="36.7595" fill="white" />
+  </mask>
+  <g mask="url(#mask0_2726_2895)">
+    <rect x="147" y="203" width="82" height="84" rx="41" fill="white" />
+    <path d="M191.5 208C210.002 208 225 222.998 225 241.5C225 260.002 210.002 275 191.5 275C172.998 275 158 260.002 158 241.5C158 222.998 172.998 208 191.5 208Z" fill="black" />
+    <path d="M208.5 255C207.766 256.769 206.689 258.376 205.332 259.73C203.976 261.084 202.365 262.158 200.592 262.89C198.819 263.623 196.919 264 195 264" stroke="white" stroke-width="6" stroke-linecap="round" />
+    <circle cx="177.189" cy="225" r="5" fill="white" />
+  </g>
+  <mask id="mask1_2726_2895" style="mask-type:alpha" maskUnits="userSpaceOnUse" x="236" y="208" width="75" height="75">
+    <rect x="236.623" y="208.688" width="73.52" height="73.5191" rx="36.7595" fill="white" />
+  </mask>
+  <g mask="url(#mask1_2726_2895)">
+    <rect x="231" y="202" width="83" height="87" rx="41.5" fill="white" />
+    <path d="M270.5 208C289.002 208 304 222.998 304 241.5C304 260.002 289.002 275 270.5 275C251.998 275 237 260.002 237 241.5C237 222.998 251.998 208 270.5 208Z" fill="black" />
+    <path d="M287.5 255C286.766 256.769 285.689 258.376 284.332 259.73C282.976 261.084 281.365 262.158 279.592 262.89C277.819 263.623 275.919 264 274 264" stroke="white" stroke-width="6" stroke-linecap="round" />
+    <circle cx="256.189" cy="225" r="5" fill="white" />
+  </g>
+  <path d="M248.839 302.059C238.376 303.789 227.696 303.755 217.244 301.958" stroke="#EFA076" stroke-width="6" stroke-linecap="round" />
+  <path d="M215.406 293.181C216.511 298.883 215.46 304.792 212.457 309.764" stroke="#EFA076" stroke-width="6" stroke-linecap="round" />
+  <path d="M250.353 293.181C249.249 298.883 250.3 304.792 253.302 309.764" stroke="#EFA076" stroke-width="6" stroke-linecap="round" />`,
+  tired: `<g clip-path="url(#clip0_2732_1738)">
+    <circle opacity="0.3" cx="145" cy="314" r="32" fill="#FF7472" />
+    <circle opacity="0.3" cx="334" cy="312" r="34" fill="#FF7472" />
+    <mask id="mask0_2732_1738" style="mask-type:alpha" maskUnits="userSpaceOnUse" x="245" y="221" width="57" height="66">
+      <path d="M253.758 221.224C263.52 227.857 275.307 231.734 288 231.734C292.019 231.734 295.946 231.344 299.748 230.603C301.026 233.812 301.729 237.312 301.729 240.977V258.389C301.729 273.882 289.17 286.442 273.677 286.442C258.183 286.442 245.623 273.882 245.623 258.389V240.977C245.623 233.272 248.73 226.294 253.758 221.224Z" fill="white" />
+    </mask>
+    <g mask="url(#mask0_2732_1738)">
+      <rect x="245.623" y="212.923" width="56.1067" height="73.5191" rx="28.0533" fill="white" />
+      <path d="M265.61 218.492C249.884 218.492 237.135 231.241 237.135 246.967C237.135 251.521 238.206 255.825 240.107 259.643C241.083 257.871 242.969 256.671 245.135 256.671C248.302 256.671 250.87 259.239 250.87 262.406C250.87 265.134 248.965 267.415 246.412 267.996C251.475 272.621 258.213 275.442 265.61 275.442C281.336 275.442 294.085 262.693 294.085 246.967C294.085 231.241 281.336 218.492 265.61 218.492Z" fill="black" />
+      <path opacity="0.3" d="M282.48 256.234C281.746 258.003 280.67 259.61 279.313 260.964C277.956 262.318 276.345 263.392 274.572 264.125C272.8 264.857 270.899 265.234 268.98 265.234" stroke="white" stroke-width="6" stroke-linecap="round" />
+    </g>
+    <path d="M249.503 218.052C257.142 224.267 266.172 228.54 275.822 230.506C285.472 232.472 295.454 232.073 304.916 229.342" stroke="#EFA076" stroke-width="6" stroke-linecap="round" />
+    <mask id="mask1_2732_1738" style="mask-type:alpha" maskUnits="userSpaceOnUse" x="165" y="221" width="57" height="66">
+      <path d="M213.242 221.224C203.48 227.857 191.693 231.734 179 231.734C174.981 231.734 171.054 231.344 167.252 230.603C165.974 233.812 165.271 237.312 165.271 240.977V258.389C165.271 273.882 177.83 286.442 193.323 286.442C208.817 286.442 221.377 273.882 221.377 258.389V240.977C221.377 233.272 218.27 226.294 213.242 221.224Z" fill="white" />
+    </mask>
+    <g mask="url(#mask1_2732_1738)">
+      <rect width="56.1067" height="73.5191" rx="28.0533" transform="matrix(-1 0 0 1 221.377 212.923)" fill="white" />
+      <path d="M201.061 218.492C185.334 218.492 172.585 231.241 172.585 246.967C172.585 251.521 173.657 255.825 175.558 259.643C176.534 257.871 178.419 256.671 180.585 256.671C183.753 256.671 186.32 259.239 186.32 262.406C186.32 265.134 184.415 267.415 181.862 267.996C186.925 272.621 193.663 275.442 201.061 275.442C216.787 275.442 229.535 262.693 229.535 246.967C229.535 231.241 216.787 218.492 201.061 218.492Z" fill="black" />
+      <path opacity="0.3" d="M217.929 256.234C217.194 258.003 216.118 259.61 214.761 260.964C213.404 262.318 211.793 263.392 210.021 264.125C208.248 264.857 206.348 265.234 204.429 265.234" stroke="white" stroke-width="6" stroke-linecap="round" />
+    </g>
+    <path d="M215.492 219.615C208.14 225.104 199.645 228.863 190.639 230.614C181.634 232.364 172.349 232.061 163.477 229.726" stroke="#EFA076" stroke-width="6" stroke-linecap="round" />
+    <path d="M249.499 309.62C239.036 307.89 228.356 307.924 217.904 309.721" stroke="#EFA076" stroke-width="6" stroke-linecap="round" />
+    <path d="M216.067 318.498C217.171 312.796 216.12 306.887 213.118 301.915" stroke="#EFA076" stroke-width="6" stroke-linecap="round" />
+    <path d="M251.014 318.498C249.909 312.796 250.96 306.887 253.963 301.915" stroke="#EFA076" stroke-width="6" stroke-linecap="round" />
+  </g>
+  <defs>
+    <clipPath id="clip0_2732_1738">
+      <rect width="474" height="474" fill="white" />
+    </clipPath>
+  </defs>`,
+  worried: `<g clip-path="url(#clip0_2792_6371)">
+    <circle opacity="0.3" cx="145" cy="310" r="32" fill="#FF7472" />
+    <circle opacity="0.3" cx="334" cy="310" r="34" fill="#FF7472" />
+    <mask id="mask0_2792_6371" style="mask-type:alpha" maskUnits="userSpaceOnUse" x="245" y="219" width="57" height="68">
+      <path d="M291.733 219.275C297.845 224.421 301.729 232.127 301.729 240.742V258.154C301.729 273.648 289.17 286.208 273.677 286.208C258.183 286.208 245.623 273.648 245.623 258.154V248.202L291.733 219.275Z" fill="white" />
+    </mask>
+    <g mask="url(#mask0_2792_6371)">
+      <rect x="245.623" y="212.688" width="56.1067" height="73.5191" rx="28.0533" fill="white" />
+      <path d="M264.354 218.258C253.559 218.258 244.605 226.128 242.912 236.443C247.332 236.59 250.87 240.216 250.87 244.671C250.87 249.219 247.182 252.906 242.634 252.906C242.63 252.906 242.627 252.905 242.623 252.905V253.477C242.623 265.478 252.352 275.208 264.354 275.208C276.355 275.208 286.085 265.478 286.085 253.477V239.988C286.085 227.987 276.355 218.258 264.354 218.258Z" fill="black" />
+      <path d="M278.479 259C277.745 260.769 276.669 262.376 275.312 263.73C273.955 265.084 272.344 266.158 270.571 266.89C268.799 267.623 266.898 268 264.979 268" stroke="white" stroke-width="6" stroke-linecap="round" />
+    </g>
+    <path d="M294 218L245.072 249.051C243.74 249.896 242 248.939 242 247.362V237.5" stroke="#EFA076" stroke-width="6" stroke-linecap="round" stroke-linejoin="round" />
+    <mask id="mask1_2792_6371" style="mask-type:alpha" maskUnits="userSpaceOnUse" x="164" y="219" width="58" height="68">
+      <path d="M174.995 219.275C168.884 224.421 164.999 232.127 164.999 240.742V258.154C164.999 273.648 177.559 286.208 193.052 286.208C208.545 286.208 221.105 273.648 221.105 258.154V248.202L174.995 219.275Z" fill="white" />
+    </mask>
+    <g mask="url(#mask1_2792_6371)">
+      <rect width="56.1067" height="73.5191" rx="28.0533" transform="matrix(-1 0 0 1 221.105 212.688)" fill="white" />
+      <path d="M202.374 218.258C192.275 218.258 183.785 225.147 181.348 234.482C183.912 234.821 185.89 237.015 185.891 239.671C185.891 242.562 183.546 244.906 180.654 244.906C180.651 244.906 180.647 244.905 180.644 244.905V253.477C180.644 265.478 190.373 275.208 202.374 275.208C214.376 275.208 224.105 265.478 224.105 253.477V239.988C224.105 227.987 214.376 218.258 202.374 218.258Z" fill="black" />
+      <path d="M216.5 259C215.766 260.769 214.689 262.376 213.332 263.73C211.976 265.084 210.365 266.158 208.592 266.89C206.819 267.623 204.919 268 203 268" stroke="white" stroke-width="6" stroke-linecap="round" />
+    </g>
+    <path d="M173 218L221.928 249.051C223.26 249.896 225 248.939 225 247.362V237.5" stroke="#EFA076" stroke-width="6" stroke-linecap="round" stroke-linejoin="round" />
+    <path d="M249.499 309.62C239.036 307.89 228.356 307.924 217.904 309.721" stroke="#EFA076" stroke-width="6" stroke-linecap="round" />
+    <path d="M216.067 318.498C217.171 312.796 216.12 306.887 213.118 301.915" stroke="#EFA076" stroke-width="6" stroke-linecap="round" />
+    <path d="M251.014 318.498C249.909 312.796 250.96 306.887 253.963 301.915" stroke="#EFA076" stroke-width="6" stroke-linecap="round" />
+    <circle opacity="0.2" cx="237" cy="279" r="5" fill="black" />
+  </g>
+  <defs>
+    <clipPath id="clip0_2792_6371">
+      <rect width="474" height="474" fill="white" />
+    </clipPath>
+  </defs>`,
+};
@@ -0,0 +1,20 @@
+import { BuiltInOption } from "../../types";
+
+export const faceDetailSvg: Record<BuiltInOption<"faceDetail">, string> = {
+  none: ``,
+  stubble: `<path d="M86 284C106 306 134 314 164 310C190 306 208 288 237 288C266 288 284 306 310 310C340 314 368 306 388 284V304C388 341.003 358.003 371 321 371H153C115.997 371 86 341.003 86 304V284Z" fill="black" fill-opacity="0.18" />`,
+  mustache: `<path d="M237 289C226 281 206 279 194 287C186 293 182 301 175 304C190 309 210 305 222 299C229 295.5 234 294.5 237 296.5C240 294.5 245 295.5 252 299C264 305 284 309 299 304C292 301 288 293 280 287C268 279 248 281 237 289Z" fill="black" />`,
+  goatee: `<path d="M237 289C226 281 206 279 194 287C186 293 182 301 175 304C190 309 210 305 222 299C229 295.5 234 294.5 237 296.5C240 294.5 245 295.5 252 299C264 305 284 309 299 304C292 301 288 293 280 287C268 279 248 281 237 289Z" fill="black" />
+  <path d="M210 345C210 341 220 339 237 339C254 339 264 341 264 345C264 361 252 371 237 371C222 371 210 361 210 345Z" fill="black" />`,
+  fullBeard: `<path fill-rule="evenodd" clip-rule="evenodd" d="M86 284C106 306 134 314 164 310C190 306 208 288 237 288C266 288 284 306 310 310C340 314 368 306 388 284V304C388 341.003 358.003 371 321 371H153C115.997 371 86 341.003 86 304V284ZM237 298C215 298 196 306 196 318C196 330 215 338 237 338C259 338 278 330 278 318C278 306 259 298 237 298Z" fill="black" />`,
+  freckles: `<circle cx="146" cy="282" r="3.5" fill="#B8643C" fill-opacity="0.55" />
+  <circle cx="160" cy="292" r="3" fill="#B8643C" fill-opacity="0.55" />
+  <circle cx="136" cy="296" r="3" fill="#B8643C" fill-opacity="0.55" />
+  <circle cx="152" cy="306" r="3.5" fill="#B8643C" fill-opacity="0.55" />
+  <circle cx="328" cy="282" r="3.5" fill="#B8643C" fill-opacity="0.55" />
+  <circle cx="314" cy="292" r="3" fill="#B8643C" fill-opacity="0.55" />
+  <circle cx="338" cy="296" r="3" fill="#B8643C" fill-opacity="0.55" />
+  <circle cx="322" cy="306" r="3.5" fill="#B8643C" fill-opacity="0.55" />`,
+  blush: `<ellipse cx="160" cy="292" rx="30" ry="18" fill="#FF7472" fill-opacity="0.35" />
+  <ellipse cx="314" cy="292" rx="30" ry="18" fill="#FF7472" fill-opacity="0.35" />`,
+};
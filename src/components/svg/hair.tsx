@@ -1,345 +0,0 @@
-export const hairComponents: Record<string, React.ReactNode> = {
-  afroPuffs: (
-    <>
-      <path
-        d="M223.499 48.9996C261.771 48.9996 295.638 67.8597 316.313 96.7925C326.394 91.8041 337.747 88.9996 349.756 88.9996C391.453 88.9996 425.256 122.802 425.256 164.5C425.256 176.148 422.617 187.18 417.906 197.031C430.076 210.363 437.498 228.104 437.498 247.578C437.498 280.839 415.846 309.041 385.868 318.863C387.013 313.938 387.62 308.806 387.62 303.533C387.62 303.25 387.618 302.968 387.614 302.686C399.883 298.624 408.735 287.062 408.735 273.43V247.944C408.735 232.576 397.485 219.837 382.771 217.511C378.955 158.05 329.519 111.002 269.094 111.002H209.927C149.579 111.002 100.192 157.929 96.2627 217.282C80.6844 218.82 68.5149 231.961 68.5146 247.944V273.43C68.5146 285.834 75.8458 296.525 86.4102 301.411C86.3884 302.115 86.377 302.823 86.377 303.533C86.377 307.472 86.7153 311.333 87.3633 315.087C61.7929 312.171 41.9297 290.46 41.9297 264.109C41.9297 253.36 45.237 243.384 50.8867 235.139C43.6244 221.687 39.5001 206.273 39.5 189.891C39.5 138.077 80.7629 95.9529 132.057 94.9127C152.84 67.0454 186.062 48.9996 223.499 48.9996Z"
-        fill="black"
-      />
-      <path
-        d="M383.357 217.5C383.357 154.586 332.354 105.635 269.44 105.635H214.5C151.585 105.635 95.6661 154.586 95.666 217.5H126.715C160.903 217.5 192.157 198.184 207.447 167.605C211.104 160.291 220.522 158.124 227.008 163.104L242.5 175L252.899 166.7C262.291 159.205 275.833 160.041 284.233 168.633L296.1 180.774C319.058 204.26 350.514 217.5 383.357 217.5Z"
-        fill="black"
-      />
-    </>
-  ),
-  asymmetricBuns: (
-    <>
-      <path
-        d="M351.451 190.664V223.392L368.616 235.001L382.563 271V102H238.781H95V262.508L105.872 235.001L121.579 223.392L123.377 189.808C123.832 181.316 130.85 174.664 139.354 174.664H335.451C344.288 174.664 351.451 181.827 351.451 190.664Z"
-        fill="black"
-      />
-      <rect x="201.5" y="71" width="181" height="64" rx="32" fill="black" />
-      <rect x="95" y="71" width="107" height="64" rx="32" fill="black" />
-    </>
-  ),
-  bob: (
-    <>
-      <path
-        d="M239.885 80C348.667 80 436.835 168.218 436.774 277L436.727 363.688C436.718 379.327 424.038 392 408.399 392H356.224C350.652 384.885 344.347 378.373 337.417 372.581C366.328 364.964 387.648 338.641 387.648 307.338C387.648 307.055 387.646 306.773 387.643 306.491C399.911 302.429 408.764 290.867 408.764 277.235V251.749C408.764 236.578 397.8 223.969 383.364 221.41C382.325 159.394 331.731 109.44 269.467 109.44H209.61C147.433 109.44 96.8915 159.254 95.7158 221.15C80.414 222.951 68.543 235.963 68.543 251.749V277.235C68.543 289.64 75.8738 300.33 86.4385 305.216C86.4167 305.921 86.4053 306.628 86.4053 307.338C86.4053 338.641 107.725 364.964 136.637 372.581C129.707 378.373 123.401 384.885 117.83 392H71.3701C55.7317 392 43.0518 379.327 43.043 363.688L42.9941 277C42.9335 168.218 131.102 80 239.885 80Z"
-        fill="black"
-      />
-      <path
-        d="M383.356 219.552C383.356 156.637 332.354 105.635 269.439 105.635H209.583C146.669 105.635 95.6661 156.637 95.666 219.552V257.086C95.666 258.904 95.7087 260.711 95.7931 262.508L106.665 235.001L122.372 223.392L124.17 189.808C124.625 181.316 131.643 174.664 140.147 174.664H181.797H210.205H211.446C219.535 174.664 227.081 170.588 231.516 163.823L238.612 153L245.709 163.823C250.144 170.588 257.69 174.664 265.779 174.664H267.02H295.428H336.244C345.081 174.664 352.244 181.827 352.244 190.664V223.392L369.409 235.001L382.543 270.76C383.08 266.277 383.356 261.714 383.356 257.086V219.552Z"
-        fill="black"
-      />
-    </>
-  ),
-  bobSidePart: (
-    <>
-      <path
-        d="M239.885 80C348.667 80 436.835 168.218 436.773 277L436.727 360.961C436.718 376.449 424.16 389 408.672 389H353.667C348.753 383.117 343.322 377.679 337.441 372.762C366.341 365.124 387.647 338.801 387.647 307.5C387.647 307.163 387.644 306.827 387.639 306.491C399.909 302.43 408.763 290.868 408.763 277.235V251.749C408.763 236.578 397.799 223.969 383.363 221.41C382.324 159.394 331.73 109.44 269.466 109.44H209.609C146.695 109.441 95.6924 160.442 95.6924 223.356V260.891C95.6924 278.969 99.9052 296.063 107.4 311.247C108.419 313.31 109.08 315.531 109.429 317.805C112.886 340.377 127.526 359.266 147.515 368.643C139.615 374.584 132.428 381.422 126.099 389H71.0977C55.6097 389 43.0518 376.449 43.043 360.961L42.9961 277C42.9348 168.218 131.103 80 239.885 80Z"
-        fill="black"
-      />
-      <path
-        d="M383.358 219.552C383.358 156.637 332.355 105.635 269.441 105.635H209.584C146.67 105.635 95.6675 156.637 95.6674 219.552V257.086C95.6674 258.904 95.5817 386.703 95.666 388.5H176.41L176.41 174.664V152L197.694 174.974C202.236 179.877 208.617 182.664 215.3 182.664H227.022H255.43H336.246C345.082 182.664 352.246 189.827 352.246 198.664V223.392L369.411 235.001L382.544 270.76C383.081 266.277 383.358 261.714 383.358 257.086V219.552Z"
-        fill="black"
-      />
-    </>
-  ),
-  bowlCut: (
-    <>
-      <path
-        opacity="0.2"
-        d="M257.563 70.0004C326.599 70.0005 382.563 125.965 382.563 195V222.508H374.131C361.605 222.508 351.451 212.354 351.451 199.828C351.451 194.782 347.333 190.706 342.287 190.757L129.949 192.914C125.313 192.962 121.579 196.733 121.579 201.37C121.579 213.044 112.116 222.508 100.441 222.508H95V195C95 125.965 150.964 70.0004 220 70.0004H257.563Z"
-        fill="black"
-      />
-      <path
-        d="M259.563 70C327.494 70.0001 382.563 125.069 382.563 193H95C95 125.069 150.069 70 218 70H259.563Z"
-        fill="black"
-      />
-    </>
-  ),
-  braids: (
-    <>
-      <path
-        d="M385.847 288.1C396.615 293.534 404 304.693 404 317.578C404 330.096 397.03 340.985 386.759 346.578C397.03 352.171 404 363.06 404 375.578C404 388.096 397.03 398.985 386.759 404.578C397.03 410.171 404 421.06 404 433.578C404 447.446 395.444 459.314 383.323 464.197C382.501 426.396 365.292 392.635 338.517 369.73C338.597 369.28 338.687 368.834 338.785 368.391C366.985 360.306 387.621 334.33 387.621 303.533C387.621 298.223 387.007 293.056 385.847 288.1ZM88.0127 288.704C86.9425 293.475 86.378 298.438 86.3779 303.533C86.3779 334.716 107.536 360.955 136.278 368.685C136.301 368.79 136.321 368.895 136.343 369C109.176 391.831 91.6363 425.745 90.6865 463.779C79.0928 458.661 71 447.065 71 433.578C71 421.06 77.9699 410.171 88.2402 404.578C77.9699 398.985 71 388.095 71 375.578C71 363.06 77.9699 352.171 88.2402 346.578C77.9699 340.985 71 330.095 71 317.578C71 305.153 77.8673 294.333 88.0127 288.704Z"
-        fill="black"
-      />
-      <path
-        d="M383.149 219.552C383.149 156.637 332.147 105.635 269.232 105.635H209.376C146.462 105.635 95.459 156.637 95.459 219.552V257.086C95.459 258.904 95.5017 260.711 95.5861 262.508L106.458 235.001L122.165 223.392L123.963 189.808C124.418 181.316 131.436 174.664 139.94 174.664H181.59H209.997H211.239C219.328 174.664 226.874 170.588 231.309 163.823L238.405 153L245.502 163.823C249.937 170.588 257.483 174.664 265.572 174.664H266.813H295.221H336.037C344.874 174.664 352.037 181.827 352.037 190.664V223.392L369.202 235.001L382.336 270.76C382.873 266.277 383.149 261.714 383.149 257.086V219.552Z"
-        fill="black"
-      />
-    </>
-  ),
-  bunnyEars: (
-    <>
-      <path
-        d="M383.357 179.552C383.357 116.637 332.355 65.6348 269.44 65.6348H214.5C151.586 65.6348 95.6668 116.637 95.6668 179.552C95.6668 193.842 95.1235 210.229 95.7939 224.508C124.098 224.508 150.593 210.593 166.659 187.29L193.103 148.932C200.639 138.001 215.365 134.794 226.764 141.602L242.5 151L257.746 141.619C268.749 134.848 283.136 137.967 290.347 148.688L315.801 186.532C330.928 209.021 356.254 222.508 383.357 222.508V179.552Z"
-        fill="black"
-      />
-      <path
-        d="M250.987 94.7905C247.968 92.582 245.414 89.8006 243.47 86.6051C241.527 83.4096 240.231 79.8625 239.658 76.1664C239.086 72.4703 239.246 68.6975 240.132 65.0636C241.017 61.4296 242.609 58.0055 244.817 54.9869C247.026 51.9683 249.807 49.4142 253.003 47.4705C256.198 45.5268 259.745 44.2315 263.442 43.6587C267.138 43.0858 270.91 43.2465 274.544 44.1317C278.178 45.0169 281.602 46.6092 284.621 48.8176L267.804 71.804L250.987 94.7905Z"
-        fill="black"
-      />
-      <path
-        d="M233.621 94.79C236.639 92.5815 239.193 89.8001 241.137 86.6046C243.081 83.4091 244.376 79.862 244.949 76.1659C245.522 72.4698 245.361 68.697 244.476 65.0631C243.591 61.4291 241.998 58.005 239.79 54.9864C237.582 51.9678 234.8 49.4137 231.605 47.47C228.409 45.5263 224.862 44.2311 221.166 43.6582C217.47 43.0853 213.697 43.246 210.063 44.1312C206.429 45.0164 203.005 46.6087 199.986 48.8171L216.804 71.8036L233.621 94.79Z"
-        fill="black"
-      />
-    </>
-  ),
-  curlyHeadband: (
-    <>
-      <path
-        d="M396.637 381.437C397.609 386.947 393.369 392 387.773 392H356.228C349.638 383.583 342.018 376.012 333.557 369.477C359.16 364.328 379.515 344.686 385.703 319.476L396.637 381.437ZM92.0576 330.409C100.759 350.251 118.735 365.101 140.5 369.478C132.039 376.012 124.42 383.584 117.83 392H91.7695C86.1632 392 81.9214 386.929 82.9111 381.411L92.0576 330.409Z"
-        fill="black"
-      />
-      <path
-        d="M247.608 41.6361C256.685 41.6361 265.673 43.4243 274.059 46.8978C280.033 49.3725 285.618 52.6684 290.657 56.6801L292.371 47.1703C301.304 48.78 309.833 52.1338 317.47 57.0394C325.107 61.945 331.703 68.3065 336.881 75.7611C337.465 76.6026 338.03 77.4567 338.575 78.3217C340.767 77.3812 343.074 76.716 345.441 76.349C349.137 75.7762 352.91 75.9375 356.544 76.8226C360.178 77.7078 363.602 79.2997 366.621 81.5082L356.771 94.9701C372.803 106.601 383.229 125.486 383.229 146.807V203.316C366.047 203.316 352.117 189.386 352.117 172.203V168.194C349.705 168.917 347.148 169.307 344.5 169.307C338.648 169.307 333.24 167.409 328.855 164.197C325.992 167.045 322.879 169.645 319.546 171.96C312.091 177.139 303.689 180.798 294.82 182.729C285.952 184.66 276.789 184.826 267.856 183.216L275.599 140.246L213.708 140.876L221.339 183.217C212.406 184.827 203.244 184.661 194.375 182.73C185.506 180.799 177.104 177.14 169.649 171.961C163.434 167.644 157.979 162.34 153.493 156.27C148.881 164.072 140.386 169.307 130.666 169.307C127.722 169.307 124.891 168.825 122.245 167.939V176.736C122.245 191.415 110.345 203.316 95.666 203.316V146.807C95.6661 123.066 108.593 102.343 127.793 91.2953L120.633 81.5092C123.651 79.3007 127.076 77.7078 130.71 76.8226C134.344 75.9375 138.117 75.7771 141.812 76.35C144.73 76.8022 147.553 77.7059 150.186 79.0219C150.864 77.9173 151.573 76.8302 152.314 75.7631C157.493 68.3084 164.089 61.946 171.726 57.0404C179.362 52.1348 187.891 48.7819 196.824 47.1722L199.362 61.2601C205.647 55.1336 213.044 50.2587 221.158 46.8978C229.544 43.4243 238.532 41.6361 247.608 41.6361Z"
-        fill="black"
-      />
-    </>
-  ),
-  curlyMessy: (
-    <>
-      <path
-        d="M224.78 64.4777C233.378 61.5674 242.464 60.3794 251.521 60.9806C260.577 61.5818 269.427 63.9612 277.564 67.9825L270.953 81.3585C277.229 78.3623 283.932 76.3242 290.838 75.3253C299.821 74.026 308.972 74.509 317.769 76.7462C326.565 78.9836 334.836 82.932 342.106 88.3654C349.377 93.7987 355.506 100.611 360.145 108.413L353.494 112.365C370.996 123.787 382.563 143.542 382.563 166V222.508C365.381 222.508 351.451 208.578 351.451 191.396V169.692C348.34 174.074 344.843 178.185 340.994 181.973C332.406 190.424 322.237 197.102 311.068 201.623C299.899 206.145 287.949 208.423 275.899 208.326C263.85 208.23 251.939 205.76 240.844 201.06C232.539 197.541 224.813 192.824 217.908 187.072L220.673 202.41C211.74 204.02 202.578 203.854 193.709 201.923C184.84 199.992 176.438 196.332 168.983 191.153C165.21 188.532 161.717 185.547 158.551 182.248C152.208 191.175 141.785 196.999 130 196.999C127.096 196.999 124.276 196.643 121.578 195.977C121.552 210.634 109.663 222.508 95 222.508V166C95 165.226 95.0138 164.456 95.041 163.689C95.0144 163.129 95 162.565 95 161.999C95.0001 158.144 95.6242 154.435 96.7754 150.967C100.937 133.68 112.114 119.127 127.127 110.488L119.967 100.701C122.985 98.493 126.409 96.9009 130.043 96.0157C133.677 95.1306 137.45 94.9693 141.146 95.5421C144.063 95.9943 146.887 96.8991 149.519 98.215C150.197 97.11 150.907 96.0227 151.648 94.9552C156.827 87.5006 163.423 81.1391 171.06 76.2335C178.696 71.3279 187.225 67.9741 196.158 66.3644L198.696 80.4532C199.578 79.5934 200.484 78.7558 201.413 77.9425C208.242 71.9636 216.183 67.3881 224.78 64.4777Z"
-        fill="black"
-      />
-    </>
-  ),
-  curlyPigtails: (
-    <>
-      <path
-        d="M396.635 381.437C397.607 386.947 393.368 392 387.772 392H356.226C349.636 383.583 342.016 376.012 333.555 369.477C359.158 364.328 379.513 344.686 385.701 319.476L396.635 381.437ZM92.0557 330.409C100.757 350.251 118.733 365.101 140.498 369.478C132.037 376.012 124.419 383.584 117.829 392H91.7686C86.1621 392 81.9194 386.929 82.9092 381.411L92.0557 330.409Z"
-        fill="black"
-      />
-      <path
-        fillRule="evenodd"
-        clipRule="evenodd"
-        d="M225.446 45.2855C234.044 42.3752 243.13 41.1863 252.187 41.7875C261.243 42.3887 270.093 44.7681 278.23 48.7894L271.619 62.1654C277.895 59.1693 284.598 57.1321 291.504 56.1332C300.487 54.8339 309.638 55.3168 318.435 57.5541C327.231 59.7914 335.502 63.7389 342.772 69.1723C350.043 74.6055 356.172 81.4181 360.811 89.2201L354.16 93.1732C371.661 104.595 383.229 124.35 383.229 146.807V203.316C366.047 203.316 352.117 189.386 352.117 172.204V150.499C349.006 154.881 345.509 158.993 341.66 162.781C333.072 171.232 322.903 177.909 311.734 182.431C300.565 186.953 288.615 189.23 276.565 189.133C264.517 189.036 252.605 186.568 241.51 181.868C233.205 178.349 225.48 173.632 218.575 167.88L221.339 183.217C212.406 184.827 203.244 184.661 194.375 182.73C185.506 180.799 177.104 177.14 169.649 171.961C165.876 169.34 162.383 166.355 159.217 163.056C152.874 171.983 142.45 177.807 130.666 177.807C127.762 177.807 124.942 177.451 122.244 176.785C122.218 191.442 110.329 203.316 95.666 203.316V146.807C95.666 146.033 95.6798 145.263 95.707 144.496C95.6805 143.936 95.666 143.373 95.666 142.807C95.666 138.951 96.2905 135.24 97.4424 131.771C101.604 114.486 112.781 99.9331 127.793 91.2953L120.633 81.5082C123.651 79.2999 127.075 77.7078 130.709 76.8227C134.343 75.9375 138.116 75.7772 141.812 76.35C144.729 76.8022 147.553 77.7058 150.186 79.0219C150.864 77.9173 151.573 76.8302 152.314 75.7631C157.493 68.3084 164.089 61.946 171.726 57.0404C179.362 52.1348 187.891 48.7819 196.824 47.1723L199.362 61.2611C200.244 60.4012 201.15 59.5637 202.079 58.7504C208.908 52.7714 216.849 48.196 225.446 45.2855Z"
-        fill="black"
-      />
-    </>
-  ),
-  curlyPuff: (
-    <>
-      <path
-        d="M359 50.0004C372.255 50.0004 383 60.7455 383 74.0004V143H382.563V239L368.616 203.001L351.451 191.393V158.664C351.451 150.952 345.993 144.513 338.729 143H136.083C129.115 144.45 123.772 150.435 123.377 157.809L121.579 191.393L105.872 203.001L95 230.508V70.0004H95.334C97.2384 58.6497 107.108 50.0004 119 50.0004C130.892 50.0004 140.762 58.6497 142.666 70.0004H143.334C145.238 58.6497 155.108 50.0004 167 50.0004C178.892 50.0004 188.762 58.6497 190.666 70.0004H191.334C193.238 58.6497 203.108 50.0004 215 50.0004C226.892 50.0004 236.762 58.6497 238.666 70.0004H239.334C241.238 58.6497 251.108 50.0004 263 50.0004C274.892 50.0004 284.762 58.6497 286.666 70.0004H287.334C289.238 58.6497 299.108 50.0004 311 50.0004C322.892 50.0004 332.762 58.6497 334.666 70.0004H335.334C337.238 58.6497 347.108 50.0004 359 50.0004Z"
-        fill="black"
-      />
-    </>
-  ),
-  fullCurly: (
-    <>
-      <path
-        d="M305 66.0005C346.921 66.0005 382.565 92.8707 395.65 130.328C399.557 141.511 409.27 150.2 420.488 154.003C448.117 163.37 468 189.52 468 220.313C468 233.148 464.544 245.176 458.514 255.518C456.719 258.596 455.313 261.908 454.74 265.424L448.423 304.187C446.29 317.269 433.956 326.147 420.874 324.014L385.99 318.329C387.056 313.567 387.621 308.616 387.621 303.533C387.621 295.429 386.191 287.659 383.571 280.461C382.372 277.165 381.869 273.64 382.268 270.156C382.758 265.867 383.011 261.505 383.011 257.086V224.919C383.01 162.004 332.009 111.002 269.095 111.002H209.928C147.014 111.002 96.011 162.004 96.0107 224.919V257.086C96.0107 258.725 96.0453 260.357 96.1143 261.979C96.2787 265.849 95.3431 269.682 93.5957 273.139C88.9789 282.273 86.3781 292.599 86.3779 303.533C86.3779 309.547 87.1681 315.376 88.6445 320.925L64.4844 323.412C51.2992 324.768 39.5108 315.179 38.1543 301.994L34.7686 269.086C34.3206 264.731 32.606 260.634 30.3145 256.904C23.7728 246.257 20.0001 233.726 20 220.313C20 191.426 37.4983 166.626 62.4736 155.933C72.6228 151.588 81.0594 143.097 84.4453 132.588C96.5173 95.1222 131.824 68.0005 173.5 68.0005C190.107 68.0005 205.702 72.3068 219.219 79.858C230.468 86.1425 244.937 86.0062 256.014 79.4214C270.355 70.8961 287.106 66.0005 305 66.0005Z"
-        fill="black"
-      />
-      <path
-        d="M383.357 219.552C383.357 156.637 332.355 105.635 269.44 105.635H214.5C151.586 105.635 95.6668 156.637 95.6668 219.552C95.6668 233.842 95.1235 250.229 95.7939 264.508C123.808 264.508 149.736 249.702 163.973 225.574L193.243 175.968C200.553 163.579 216.547 159.5 228.897 166.876L242.5 175L255.578 166.953C267.542 159.59 283.225 163.58 290.217 175.764L318.419 224.904C331.768 248.164 356.538 262.508 383.357 262.508V219.552Z"
-        fill="black"
-      />
-    </>
-  ),
-  longAfro: (
-    <>
-      <path
-        d="M239.857 76.1953C348.82 76.1953 437.152 164.527 437.152 273.49V462.423C437.152 466.304 437.093 470.164 436.978 474H383.357V467.035C383.357 427.558 365.484 392.256 337.39 368.776C366.301 361.16 387.621 334.837 387.621 303.533C387.621 303.251 387.619 302.968 387.615 302.687C399.884 298.624 408.736 287.062 408.736 273.431V247.944C408.736 232.774 397.773 220.164 383.337 217.605C382.298 155.589 331.704 105.636 269.439 105.636H209.583C147.406 105.636 96.8642 155.449 95.6885 217.346C80.3866 219.147 68.5156 232.158 68.5156 247.944V273.431C68.5156 285.835 75.8465 296.526 86.4111 301.411C86.3894 302.116 86.3779 302.823 86.3779 303.533C86.3779 334.836 107.698 361.16 136.609 368.776C108.516 392.256 90.6436 427.558 90.6436 467.035V474H42.7363C42.6206 470.164 42.5625 466.304 42.5625 462.423V273.49C42.5625 164.527 130.894 76.1953 239.857 76.1953Z"
-        fill="black"
-      />
-      <path
-        d="M383.356 219.552C383.356 156.637 332.354 105.635 269.439 105.635H209.583C146.669 105.635 95.6661 156.637 95.666 219.552V257.086C95.666 258.904 95.7087 260.711 95.7931 262.508L106.665 235.001L122.372 223.392L124.17 189.808C124.625 181.316 131.643 174.664 140.147 174.664H262.612H276.816L291.02 150.664L305.224 174.664H319.428H336.244C345.081 174.664 352.244 181.827 352.244 190.664V223.392L369.409 235.001L382.543 270.76C383.08 266.277 383.356 261.714 383.356 257.086V219.552Z"
-        fill="black"
-      />
-    </>
-  ),
-  longPeak: (
-    <>
-      <path
-        d="M239.857 76.1953C348.82 76.1953 437.152 164.527 437.152 273.49V462.423C437.152 466.304 437.093 470.164 436.978 474H383.357V467.035C383.357 427.558 365.484 392.256 337.39 368.776C366.301 361.16 387.621 334.837 387.621 303.533C387.621 303.251 387.619 302.968 387.615 302.687C399.884 298.624 408.736 287.062 408.736 273.431V247.944C408.736 232.774 397.773 220.164 383.337 217.605C382.298 155.589 331.704 105.635 269.439 105.635H209.583C147.406 105.635 96.8642 155.449 95.6885 217.346C80.3866 219.147 68.5156 232.158 68.5156 247.944V273.431C68.5156 285.835 75.8465 296.526 86.4111 301.411C86.3894 302.116 86.3779 302.823 86.3779 303.533C86.3779 334.836 107.698 361.16 136.609 368.776C108.516 392.256 90.6436 427.558 90.6436 467.035V474H42.7363C42.6206 470.164 42.5625 466.304 42.5625 462.423V273.49C42.5625 164.527 130.894 76.1953 239.857 76.1953Z"
-        fill="black"
-      />
-      <path
-        d="M383.356 219.552C383.356 156.637 332.354 105.635 269.439 105.635H209.583C146.669 105.635 95.6661 156.637 95.666 219.552V257.086C95.666 258.904 95.7087 260.711 95.7931 262.508L106.665 235.001L122.372 223.392L124.17 189.808C124.625 181.316 131.643 174.664 140.147 174.664H181.797H210.205H211.446C219.535 174.664 227.081 170.588 231.516 163.823L238.612 153L245.709 163.823C250.144 170.588 257.69 174.664 265.779 174.664H267.02H295.428H336.244C345.081 174.664 352.244 181.827 352.244 190.664V223.392L369.409 235.001L382.543 270.76C383.08 266.277 383.356 261.714 383.356 257.086V219.552Z"
-        fill="black"
-      />
-    </>
-  ),
-  longStraight: (
-    <>
-      <g clipPath="url(#clip0_2728_4710)">
-        <path
-          d="M239.884 80C348.671 80 436.847 168.213 436.802 277L436.726 458.241C436.717 479.097 419.807 496 398.951 496H383.384V471C383.384 431.534 365.521 396.242 337.441 372.762C366.341 365.124 387.647 338.801 387.647 307.5C387.647 307.163 387.644 306.827 387.639 306.491C399.909 302.43 408.763 290.868 408.763 277.235V251.749C408.763 236.578 397.799 223.969 383.363 221.41C382.324 159.394 331.73 109.439 269.466 109.439H209.609C146.695 109.44 95.6924 160.442 95.6924 223.356V260.891C95.6924 271.163 97.0515 281.118 99.6006 290.585C100.356 293.389 100.506 296.319 100.152 299.201C99.819 301.921 99.6475 304.69 99.6475 307.5C99.6475 336.794 118.309 361.729 144.393 371.067C115.125 394.525 96.3838 430.574 96.3838 471V496H80.8164C59.9605 496 43.0507 479.097 43.042 458.241L42.9668 277C42.9213 168.213 131.097 80.0001 239.884 80Z"
-          fill="black"
-        />
-        <path
-          d="M383.358 219.552C383.358 156.637 332.355 105.635 269.441 105.635H209.584C146.67 105.635 95.6675 156.637 95.6674 219.552V257.086C95.6674 258.904 95.5817 518.203 95.666 520H176.41L176.41 174.664V152L197.694 174.974C202.236 179.877 208.617 182.664 215.3 182.664H227.022H255.43H336.246C345.082 182.664 352.246 189.827 352.246 198.664V223.392L369.41 235.001L382.544 270.76C383.081 266.277 383.358 261.714 383.358 257.086V219.552Z"
-          fill="black"
-        />
-      </g>
-      <defs>
-        <clipPath id="clip0_2728_4710">
-          <rect width="474" height="474" fill="white" />
-        </clipPath>
-      </defs>
-    </>
-  ),
-  messyArtistic: (
-    <>
-      <g clipPath="url(#clip0_2728_5592)">
-        <path
-          d="M251.5 52C272.763 52 290 69.237 290 90.5C290 111.763 272.763 129 251.5 129L222.5 129C201.237 129 184 111.763 184 90.5C184 69.237 201.237 52 222.5 52L251.5 52Z"
-          fill="black"
-        />
-        <path
-          d="M383.149 219.552C383.149 156.637 332.147 105.635 269.232 105.635H209.376C146.462 105.635 95.459 156.637 95.459 219.552V257.086C95.459 258.904 95.5017 260.711 95.5861 262.508C113.761 250.983 124.774 230.96 124.774 209.439V190.411C124.774 181.714 131.824 174.664 140.521 174.664H181.59H209.997H211.239C219.328 174.664 226.874 170.588 231.309 163.823L238.405 153L245.502 163.823C249.937 170.588 257.483 174.664 265.572 174.664H266.813H295.221H335.96C344.839 174.664 352.037 181.862 352.037 190.741V203.576C352.037 229.279 363.071 253.745 382.336 270.76C382.873 266.277 383.149 261.714 383.149 257.086V219.552Z"
-          fill="black"
-        />
-        <circle cx="150" cy="163.707" r="28" fill="black" />
-        <path
-          d="M236.672 199.117C227.739 200.726 218.577 200.561 209.708 198.63C200.839 196.698 192.437 193.039 184.983 187.861C177.528 182.682 171.166 176.087 166.26 168.45C161.355 160.813 158.002 152.284 156.392 143.352L224.414 131.094L236.672 199.117Z"
-          fill="black"
-        />
-        <path
-          d="M366.24 168.067C359.461 177.173 350.956 184.856 341.208 190.675C331.46 196.495 320.662 200.338 309.429 201.984C298.196 203.63 286.749 203.048 275.742 200.27C264.734 197.493 254.381 192.574 245.274 185.795C236.167 179.017 228.485 170.511 222.665 160.763C216.846 151.015 213.003 140.217 211.357 128.984C209.711 117.752 210.293 106.305 213.071 95.2969C215.848 84.2892 220.767 73.9364 227.546 64.8296L296.893 116.448L366.24 168.067Z"
-          fill="black"
-        />
-        <path
-          d="M154.523 100.696C159.134 99.6541 163.905 99.5302 168.564 100.332C173.223 101.133 177.679 102.845 181.676 105.368C185.674 107.892 189.135 111.178 191.863 115.039C194.591 118.9 196.531 123.261 197.573 127.872"
-          stroke="black"
-          strokeWidth="12"
-          strokeLinecap="round"
-        />
-        <path
-          d="M318.629 86.2806C314.358 88.3057 310.526 91.1524 307.355 94.6581C304.183 98.1638 301.733 102.26 300.145 106.712C298.556 111.165 297.86 115.887 298.096 120.608C298.333 125.33 299.496 129.959 301.522 134.23"
-          stroke="black"
-          strokeWidth="12"
-          strokeLinecap="round"
-        />
-      </g>
-      <defs>
-        <clipPath id="clip0_2728_5592">
-          <rect width="474" height="474" fill="white" />
-        </clipPath>
-      </defs>
-    </>
-  ),
-  pigtailBuns: (
-    <>
-      <path
-        d="M88.6426 286.139C87.166 291.688 86.377 297.518 86.377 303.533C86.377 334.836 107.697 361.159 136.608 368.776C120.368 382.349 107.543 399.873 99.6123 419.871C91.8126 424.659 82.6358 427.421 72.8125 427.421C44.4736 427.421 21.5002 404.448 21.5 376.109C21.5 355.86 33.2291 338.35 50.2637 330.003C52.7021 308.656 68.2418 291.29 88.6426 286.139ZM386.321 290.3C401.15 297.981 411.756 312.681 413.734 330.003C430.769 338.35 442.498 355.86 442.498 376.109C442.498 404.448 419.524 427.421 391.186 427.421C386.037 427.421 381.066 426.663 376.378 425.251C368.701 403.015 355.07 383.553 337.389 368.776C366.3 361.159 387.62 334.836 387.62 303.533C387.62 299.004 387.173 294.579 386.321 290.3Z"
-        fill="black"
-      />
-      <path
-        d="M383.149 219.552C383.149 156.637 332.147 105.635 269.232 105.635H209.376C146.462 105.635 95.459 156.637 95.459 219.552V257.086C95.459 258.904 95.5017 260.711 95.5861 262.508L106.458 235.001L122.165 223.392L123.963 189.808C124.418 181.316 131.436 174.664 139.94 174.664H181.59H209.997H211.239C219.328 174.664 226.874 170.588 231.309 163.823L238.405 153L245.502 163.823C249.937 170.588 257.483 174.664 265.572 174.664H266.813H295.221H336.037C344.874 174.664 352.037 181.827 352.037 190.664V223.392L369.202 235.001L382.336 270.76C382.873 266.277 383.149 261.714 383.149 257.086V219.552Z"
-        fill="black"
-      />
-    </>
-  ),
-  shortBuns: (
-    <>
-      <path
-        d="M88.6426 286.139C87.166 291.688 86.377 297.518 86.377 303.533C86.377 334.836 107.697 361.159 136.608 368.776C120.368 382.349 107.543 399.873 99.6123 419.871C91.8126 424.659 82.6358 427.421 72.8125 427.421C44.4736 427.421 21.5002 404.448 21.5 376.109C21.5 355.86 33.2291 338.35 50.2637 330.003C52.7021 308.656 68.2418 291.29 88.6426 286.139ZM386.321 290.3C401.15 297.981 411.756 312.681 413.734 330.003C430.769 338.35 442.498 355.86 442.498 376.109C442.498 404.448 419.524 427.421 391.186 427.421C386.037 427.421 381.066 426.663 376.378 425.251C368.701 403.015 355.07 383.553 337.389 368.776C366.3 361.159 387.62 334.836 387.62 303.533C387.62 299.004 387.173 294.579 386.321 290.3Z"
-        fill="black"
-      />
-      <path
-        d="M383.357 219.552C383.357 156.637 332.355 105.635 269.44 105.635H214.5C151.586 105.635 95.6668 156.637 95.6668 219.552C95.6668 233.842 95.1235 248.229 95.7939 262.508C128.806 262.508 159.401 245.199 176.404 216.902L199.951 177.713C207.704 164.81 224.965 161.536 236.905 170.704L242.5 175L247.349 171.13C258.965 161.86 276.111 165.124 283.508 178.013L306.437 217.965C322.249 245.517 351.59 262.508 383.357 262.508V219.552Z"
-        fill="black"
-      />
-    </>
-  ),
-  shortBuzz: (
-    <>
-      <path
-        d="M383.356 219.552C383.356 156.637 332.354 105.635 269.439 105.635H209.583C146.669 105.635 95.6661 156.637 95.666 219.552V257.086C95.666 258.904 95.7087 260.711 95.7931 262.508L106.665 235.001L122.372 223.392L124.17 189.808C124.625 181.316 131.643 174.664 140.147 174.664H336.244C345.081 174.664 352.244 181.827 352.244 190.664V223.392L369.409 235.001L382.543 270.76C383.08 266.277 383.356 261.714 383.356 257.086V219.552Z"
-        fill="#CC8F70"
-      />
-    </>
-  ),
-  shortCurly: (
-    <>
-      <path
-        d="M247.608 41.6361C256.685 41.6361 265.673 43.4243 274.059 46.8978C278.921 48.9118 283.525 51.4701 287.787 54.515L289.255 46.3715C297.605 47.8761 305.577 51.0105 312.716 55.5961C319.854 60.1816 326.02 66.1287 330.86 73.097C332.423 75.346 333.836 77.6876 335.096 80.1058C338.267 78.1933 341.781 76.9163 345.441 76.349C349.137 75.7762 352.91 75.9375 356.544 76.8226C360.178 77.7078 363.602 79.2997 366.621 81.5082L356.771 94.9701C372.803 106.601 383.229 125.486 383.229 146.807V203.316C366.047 203.316 352.117 189.386 352.117 172.203V168.194C349.705 168.917 347.148 169.307 344.5 169.307C335.077 169.307 326.803 164.388 322.104 156.978C319.78 159.168 317.291 161.189 314.656 163.02C307.688 167.86 299.834 171.281 291.544 173.086C283.254 174.892 274.689 175.046 266.339 173.541L272.332 140.28L216.964 140.843L222.856 173.542C214.506 175.047 205.942 174.893 197.651 173.087C189.361 171.282 181.507 167.861 174.539 163.021C167.592 158.195 161.66 152.052 157.08 144.941C155.993 158.579 144.583 169.307 130.666 169.307C127.722 169.307 124.891 168.825 122.245 167.939V176.736C122.245 191.415 110.345 203.316 95.666 203.316V146.807C95.6661 123.066 108.593 102.343 127.793 91.2953L120.633 81.5092C123.651 79.3007 127.076 77.7078 130.71 76.8226C134.344 75.9375 138.117 75.7771 141.812 76.35C145.508 76.9228 149.056 78.2179 152.251 80.1615C152.716 80.4442 153.17 80.7421 153.617 81.0502C154.995 78.2964 156.57 75.6383 158.335 73.098C163.175 66.1297 169.341 60.1826 176.479 55.597C183.618 51.0115 191.59 47.8771 199.94 46.3724L202.158 58.682C207.802 53.7557 214.218 49.7727 221.158 46.8978C229.544 43.4243 238.532 41.6361 247.608 41.6361Z"
-        fill="black"
-      />
-    </>
-  ),
-  sideBangs: (
-    <>
-      <path
-        d="M332.983 84.1953C374.534 84.1955 410.567 112.922 419.825 153.428L435.176 220.589C436.491 226.343 438.318 231.969 440.636 237.398L461.384 286.001C465.749 296.228 468 307.232 468 318.352V322.138C468 338.24 462.565 353.871 452.576 366.5C442.587 379.129 437.152 394.76 437.152 410.862V462.423C437.152 468.873 431.85 474 425.399 474H383.357V467.035C383.357 427.558 365.484 392.256 337.39 368.776C366.301 361.16 387.621 334.837 387.621 303.533C387.621 303.251 387.619 302.968 387.615 302.687C399.884 298.624 408.736 287.062 408.736 273.431V247.944C408.736 232.774 397.773 220.164 383.337 217.605C382.324 157.145 334.211 108.15 274.103 105.73L282.044 100.196C296.988 89.7799 314.767 84.1953 332.983 84.1953ZM69.9414 140.425C83.6854 95.84 126.692 66.9017 173.17 70.9648L204.579 73.7109C223.149 75.3344 240.883 82.1672 255.741 93.4238L271.896 105.663C271.079 105.646 270.26 105.636 269.439 105.636H209.583C147.406 105.636 96.8642 155.45 95.6885 217.346C80.3869 219.147 68.5156 232.159 68.5156 247.944V273.431C68.5156 285.835 75.8467 296.525 86.4111 301.411C86.3894 302.116 86.3779 302.823 86.3779 303.533C86.3779 334.836 107.698 361.159 136.609 368.776C108.516 392.256 90.6436 427.558 90.6436 467.035V474H54.3164C47.8659 474 42.5625 468.873 42.5625 462.423V401.912C42.5625 388.951 40.0177 376.117 35.0723 364.137L24.251 337.921C12.4386 309.306 14.6911 276.812 30.3398 250.102L36.7588 239.146C40.6153 232.563 43.6978 225.556 45.9453 218.266L69.9414 140.425Z"
-        fill="black"
-      />
-      <path
-        d="M383.356 219.552C383.356 156.637 332.354 105.635 269.439 105.635H209.583C146.669 105.635 95.6661 156.637 95.666 219.552V257.086C95.666 258.904 95.7087 260.711 95.7931 262.508L106.665 235.001L122.372 223.392L124.17 189.808C124.625 181.316 131.643 174.664 140.147 174.664H154.205H155.446C163.535 174.664 171.081 170.588 175.516 163.823L182.612 153L189.709 163.823C194.144 170.588 201.69 174.664 209.779 174.664H211.02H239.428H336.244C345.081 174.664 352.244 181.827 352.244 190.664V223.392L369.409 235.001L382.543 270.76C383.08 266.277 383.356 261.714 383.356 257.086V219.552Z"
-        fill="black"
-      />
-    </>
-  ),
-  spaceBuns: (
-    <>
-      <path
-        d="M351.451 184.664V223.392L368.616 235.001L382.563 271V102H238.781H95V262.508L105.872 235.001L121.579 223.392L123.461 183.902C123.868 175.371 130.903 168.664 139.443 168.664H335.451C344.288 168.664 351.451 175.827 351.451 184.664Z"
-        fill="black"
-      />
-      <rect x="239" y="71" width="143.5" height="64" rx="32" fill="black" />
-      <rect x="95" y="71" width="143.5" height="64" rx="32" fill="black" />
-    </>
-  ),
-  spikyEarmuffs: (
-    <>
-      <path
-        d="M402.186 156.578C430.525 156.578 453.498 179.551 453.498 207.89C453.498 228.139 441.769 245.648 424.734 253.995C422.337 274.99 407.266 292.134 387.362 297.594C386.842 291.627 385.543 285.881 383.57 280.46C382.371 277.165 381.868 273.64 382.267 270.156C382.757 265.867 383.01 261.505 383.01 257.085V224.918C383.01 204.681 377.732 185.676 368.479 169.205C377.495 161.342 389.283 156.578 402.186 156.578ZM72.8125 156.578C87.0271 156.578 99.8893 162.36 109.182 171.698C100.773 187.582 96.0098 205.694 96.0098 224.918V257.085C96.0098 258.725 96.0443 260.357 96.1133 261.979C96.2777 265.849 95.3421 269.682 93.5947 273.139C89.8628 280.522 87.4488 288.685 86.6602 297.317C67.2407 291.571 52.622 274.646 50.2637 253.995C33.2292 245.648 21.5 228.139 21.5 207.89C21.5 179.551 44.4734 156.578 72.8125 156.578Z"
-        fill="black"
-      />
-      <path
-        d="M383.357 219.552C383.357 156.637 332.355 105.635 269.44 105.635H214.5C151.586 105.635 95.6668 156.637 95.6668 219.552C95.6668 233.842 95.1235 248.229 95.7939 262.508C128.806 262.508 159.401 245.199 176.404 216.902L199.951 177.713C207.704 164.81 224.965 161.536 236.905 170.704L242.5 175L247.349 171.13C258.965 161.86 276.111 165.124 283.508 178.013L306.437 217.965C322.249 245.517 351.59 262.508 383.357 262.508V219.552Z"
-        fill="black"
-      />
-    </>
-  ),
-  tinyBun: (
-    <>
-      <path
-        d="M240.5 52C261.763 52 279 69.237 279 90.5C279 111.763 261.763 129 240.5 129L233.5 129C212.237 129 195 111.763 195 90.5C195 69.237 212.237 52 233.5 52L240.5 52Z"
-        fill="black"
-      />
-      <path
-        d="M383.149 219.552C383.149 156.637 332.147 105.635 269.232 105.635H209.376C146.462 105.635 95.459 156.637 95.459 219.552V257.086C95.459 258.904 95.5017 260.711 95.5861 262.508L106.458 235.001L122.165 223.392L123.963 189.808C124.418 181.316 131.436 174.664 139.94 174.664H181.59H209.997H211.239C219.328 174.664 226.874 170.588 231.309 163.823L238.405 153L245.502 163.823C249.937 170.588 257.483 174.664 265.572 174.664H266.813H295.221H336.037C344.874 174.664 352.037 181.827 352.037 190.664V223.392L369.202 235.001L382.336 270.76C382.873 266.277 383.149 261.714 383.149 257.086V219.552Z"
-        fill="black"
-      />
-    </>
-  ),
-  topKnot: (
-    <>
-      <path
-        d="M352.244 187.664V223.392L369.409 235.001L383.356 271V122L239.575 105.635H151.793C120.865 105.635 95.793 130.707 95.793 161.635L95.7931 262.508L106.665 235.001L122.372 223.392L124.215 186.858C124.644 178.345 131.671 171.664 140.194 171.664H336.244C345.081 171.664 352.244 178.827 352.244 187.664Z"
-        fill="black"
-      />
-      <rect x="174" y="68" width="209" height="103" rx="51.5" fill="black" />
-    </>
-  ),
-  wavyCenterPart: (
-    <>
-      <path
-        d="M174.41 79.9996C194.96 79.9996 215 86.395 231.752 98.2974L244 107C260.276 89.7661 282.934 79.9996 306.639 79.9996H321.115C365.885 79.9996 405.084 110.046 416.716 153.279L437.152 229.239L461.384 286.002C465.749 296.228 468 307.233 468 318.352V322.137C468 338.24 462.565 353.87 452.576 366.5C442.587 379.129 437.152 394.761 437.152 410.863V462.423C437.152 468.874 431.85 474 425.399 474H383.357V467.035C383.357 427.557 365.484 392.256 337.39 368.776C366.301 361.159 387.621 334.836 387.621 303.533C387.621 295.429 386.191 287.659 383.571 280.461C382.372 277.165 381.869 273.64 382.268 270.156C382.758 265.867 383.011 261.505 383.011 257.086V224.919C383.01 162.004 332.009 111.002 269.095 111.002H209.928C147.014 111.002 96.011 162.004 96.0107 224.919V257.086C96.0107 258.725 96.0453 260.357 96.1143 261.979C96.2787 265.849 95.3431 269.682 93.5957 273.139C88.9789 282.273 86.3781 292.599 86.3779 303.533C86.3779 334.836 107.698 361.159 136.609 368.776C108.516 392.256 90.6437 427.558 90.6436 467.035V474H54.3154C47.8653 473.999 42.5628 468.874 42.5625 462.423V401.913C42.5625 388.952 40.0178 376.116 35.0723 364.136L24.25 337.921C12.4375 309.306 14.6908 276.812 30.3398 250.101L37.5156 237.854C40.8721 232.125 43.6433 226.073 45.7881 219.789L70.625 147.021C84.3054 106.94 121.966 79.9997 164.317 79.9996H174.41Z"
-        fill="black"
-      />
-      <path
-        d="M383.357 219.552C383.357 156.637 332.355 105.635 269.44 105.635H214.5C151.586 105.635 95.6668 156.637 95.6668 219.552C95.6668 233.842 95.1235 248.229 95.7939 262.508C128.806 262.508 159.401 245.199 176.404 216.902L199.951 177.713C207.704 164.81 224.965 161.536 236.905 170.704L242.5 175L247.349 171.13C258.965 161.86 276.111 165.124 283.508 178.013L306.437 217.965C322.249 245.517 351.59 262.508 383.357 262.508V219.552Z"
-        fill="black"
-      />
-    </>
-  ),
-  wavyPuffs: (
-    <>
-      <path
-        d="M382.565 214.789C409.55 223.806 429 249.28 429 279.297C429 313.01 404.466 340.993 372.277 346.365C381.863 334.715 387.621 319.798 387.621 303.533C387.621 295.429 386.191 287.659 383.571 280.461C382.372 277.165 381.869 273.641 382.268 270.156C382.758 265.867 383.011 261.506 383.011 257.086V224.919C383.011 221.505 382.859 218.126 382.565 214.789ZM96.4863 214.448C96.1721 217.896 96.0107 221.389 96.0107 224.919V257.086C96.0107 258.725 96.0453 260.357 96.1143 261.979C96.2787 265.85 95.3432 269.683 93.5957 273.14C88.9788 282.273 86.378 292.6 86.3779 303.533C86.3779 319.345 91.8202 333.885 100.931 345.387C71.131 338.166 49 311.316 49 279.297C49.0003 248.891 68.9574 223.149 96.4863 214.448Z"
-        fill="black"
-      />
-      <path
-        d="M383.357 179.552C383.357 116.637 332.355 65.6348 269.44 65.6348H214.5C151.586 65.6348 95.6668 116.637 95.6668 179.552C95.6668 193.842 95.1235 210.229 95.7939 224.508C124.098 224.508 150.593 210.593 166.659 187.29L193.103 148.932C200.639 138.001 215.365 134.794 226.764 141.602L242.5 151L257.746 141.619C268.749 134.848 283.136 137.967 290.347 148.688L315.801 186.532C330.928 209.021 356.254 222.508 383.357 222.508V179.552Z"
-        fill="black"
-      />
-    </>
-  ),
-};
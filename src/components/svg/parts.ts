@@ -0,0 +1,85 @@
+import {
+  AccessoryType,
+  BackgroundPatternType,
+  BuiltInOption,
+  ExtensibleCategory,
+} from "../../types";
+import { parseSvg, SvgNode } from "../../utils/svg";
+import { backgroundSvg } from "./background";
+import { skinSvg } from "./skin";
+import { tshirtSvg } from "./tshirt";
+import { expressionSvg } from "./expression";
+import { hairSvg } from "./hair";
+import { faceDetailSvg } from "./faceDetail";
+import { accessorySvg } from "./accessories";
+import { backgroundPatternSvg } from "./backgroundPatterns";
+
+/**
+ * Parsed artwork for every option of every part category. Options added
+ * with `registerOption` join their category's record.
+ */
+export type PartRegistry = {
+  [C in ExtensibleCategory]: Record<BuiltInOption<C>, SvgNode[]>;
+} & {
+  accessory: Record<AccessoryType, SvgNode[]>;
+  backgroundPattern: Record<BackgroundPatternType, SvgNode[]>;
+};
+
+/** Kinds of part artwork, one per attribute drawn from it. */
+export type PartCategory = keyof PartRegistry;
+
+function parseParts<K extends string>(
+  markup: Record<K, string>,
+): Record<K, SvgNode[]> {
+  const parsed = {} as Record<K, SvgNode[]>;
+  for (const key of Object.keys(markup) as K[]) {
+    parsed[key] = parseSvg(markup[key]);
+  }
+  return parsed;
+}
+
+/**
+ * The single source of part artwork.
+ * Both `<Avatar>` and `generateSvg` render from these trees.
+ */
+export const parts: PartRegistry = {
+  background: parseParts(backgroundSvg),
+  skin: parseParts(skinSvg),
+  tshirt: parseParts(tshirtSvg),
+  expression: parseParts(expressionSvg),
+  hair: parseParts(hairSvg),
+  faceDetail: parseParts(faceDetailSvg),
+  accessory: parseParts(accessorySvg),
+  backgroundPattern: parseParts(backgroundPatternSvg),
+};
+
+/**
+ * Looks up the artwork for one option of a part category.
+ *
+ * @param category - Part category, e.g. `'hair'`
+ * @param option - Option key, e.g. `'spaceBuns'`
+ * @returns The option's nodes, or `undefined` for an unknown option
+ */
+export function getPart<C extends PartCategory>(
+  category: C,
+  option: string,
+): SvgNode[] | undefined {
+  const options: Record<string, SvgNode[]> = parts[category];
+  return Object.prototype.hasOwnProperty.call(options, option)
+    ? options[option]
+    : undefined;
+}
+
+/**
+ * Adds the artwork of a plugin option to its category, replacing the
+ * option's previous artwork.
+ * @internal
+ */
+export function addPart(
+  category: ExtensibleCategory,
+  option: string,
+  nodes: SvgNode[],
+): void {
+  const options: Record<string, SvgNode[]> = parts[category];
+  options[option] = nodes;
+}
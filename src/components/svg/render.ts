@@ -0,0 +1,49 @@
+import { createElement, CSSProperties, ReactNode } from "react";
+import { SvgNode } from "../../utils/svg";
+
+const camelCase = (name: string) =>
+  name.replace(/[-:]([a-z])/g, (_, letter: string) => letter.toUpperCase());
+
+function toReactProp(name: string): string {
+  if (name === "class") return "className";
+  if (name.startsWith("data-") || name.startsWith("aria-")) return name;
+  return camelCase(name);
+}
+
+function toStyleObject(style: string): CSSProperties {
+  const result: Record<string, string> = {};
+  for (const declaration of style.split(";")) {
+    const separator = declaration.indexOf(":");
+    if (separator === -1) continue;
+    const property = declaration.slice(0, separator).trim();
+    const value = declaration.slice(separator + 1).trim();
+    if (property) result[camelCase(property)] = value;
+  }
+  return result;
+}
+
+/**
+ * Renders parsed SVG nodes as React elements.
+ * Attribute names are converted to their React spelling
+ * (`fill-opacity` → `fillOpacity`) and `style` strings to objects; text
+ * content (such as a `<style>` element's rules) is rendered as is, and
+ * nodes with a React renderer draw its content instead of their children.
+ *
+ * @param nodes - Nodes to render
+ * @returns React elements, keyed by position
+ */
+export function renderSvgNodes(nodes: readonly SvgNode[]): ReactNode[] {
+  return nodes.map((node, index) => {
+    const props: Record<string, unknown> = { key: index };
+    for (const [name, value] of Object.entries(node.attrs)) {
+      props[toReactProp(name)] =
+        name === "style" ? toStyleObject(value) : value;
+    }
+    if (node.render) {
+      return createElement(node.tag, props, node.render() as ReactNode);
+    }
+    return node.text !== undefined
+      ? createElement(node.tag, props, node.text)
+      : createElement(node.tag, props, ...renderSvgNodes(node.children));
+  });
+}
@@ -1,230 +0,0 @@
-export const skinComponents: Record<string, React.ReactNode> = {
-  deepBrown: (
-    <>
-      <g clipPath="url(#clip0_2732_2183)">
-        <rect
-          x="347.109"
-          y="217.13"
-          width="61.6262"
-          height="87.1133"
-          rx="30.8131"
-          fill="#6A3B3A"
-        />
-        <rect
-          x="347.109"
-          y="217.13"
-          width="61.6262"
-          height="87.1133"
-          rx="30.8131"
-          fill="black"
-          fillOpacity="0.2"
-        />
-        <rect
-          x="68.5156"
-          y="217.13"
-          width="61.6262"
-          height="87.1133"
-          rx="30.8131"
-          fill="#6A3B3A"
-        />
-        <rect
-          x="68.5156"
-          y="217.13"
-          width="61.6262"
-          height="87.1133"
-          rx="30.8131"
-          fill="black"
-          fillOpacity="0.2"
-        />
-
-        <path
-          d="M269.44 105.636C332.355 105.636 383.357 156.637 383.357 219.552V257.086C383.357 261.714 383.081 266.277 382.544 270.76C382.13 274.218 382.604 277.719 383.767 281.002C386.263 288.048 387.622 295.632 387.622 303.533C387.622 340.793 357.417 370.999 320.157 370.999H269.932C269.768 371 269.604 371.002 269.44 371.002H209.584C209.42 371.002 209.256 371 209.093 370.999H153.845C116.585 370.999 86.3789 340.793 86.3789 303.533C86.379 292.788 88.8913 282.629 93.3605 273.612C95.0695 270.164 95.9745 266.352 95.7941 262.508C95.7097 260.711 95.667 258.904 95.667 257.086V219.552C95.667 156.637 146.67 105.636 209.584 105.636H269.44Z"
-          fill="#6A3B3A"
-        />
-      </g>
-      <defs>
-        <clipPath id="clip0_2732_2183">
-          <rect width="474" height="474" fill="white" />
-        </clipPath>
-      </defs>
-    </>
-  ),
-  lightCream: (
-    <>
-      <g clipPath="url(#clip0_2732_2211)">
-        <rect
-          x="347.109"
-          y="217.13"
-          width="61.6262"
-          height="87.1133"
-          rx="30.8131"
-          fill="#FAD9C4"
-        />
-        <rect
-          x="347.109"
-          y="217.13"
-          width="61.6262"
-          height="87.1133"
-          rx="30.8131"
-          fill="black"
-          fillOpacity="0.05"
-        />
-        <rect
-          x="68.5156"
-          y="217.13"
-          width="61.6262"
-          height="87.1133"
-          rx="30.8131"
-          fill="#FAD9C4"
-        />
-        <rect
-          x="68.5156"
-          y="217.13"
-          width="61.6262"
-          height="87.1133"
-          rx="30.8131"
-          fill="black"
-          fillOpacity="0.05"
-        />
-        <path
-          d="M269.44 105.636C332.355 105.636 383.357 156.637 383.357 219.552V257.086C383.357 261.714 383.081 266.277 382.544 270.76C382.13 274.218 382.604 277.719 383.767 281.002C386.263 288.048 387.622 295.632 387.622 303.533C387.622 340.793 357.417 370.999 320.157 370.999H269.932C269.768 371 269.604 371.002 269.44 371.002H209.584C209.42 371.002 209.256 371 209.093 370.999H153.845C116.585 370.999 86.3789 340.793 86.3789 303.533C86.379 292.788 88.8913 282.629 93.3605 273.612C95.0695 270.164 95.9745 266.352 95.7941 262.508C95.7097 260.711 95.667 258.904 95.667 257.086V219.552C95.667 156.637 146.67 105.636 209.584 105.636H269.44Z"
-          fill="#FAD9C4"
-        />
-      </g>
-      <defs>
-        <clipPath id="clip0_2732_2211">
-          <rect width="474" height="474" fill="white" />
-        </clipPath>
-      </defs>
-    </>
-  ),
-  mediumTan: (
-    <>
-      <g clipPath="url(#clip0_2732_2197)">
-        <rect
-          x="347.109"
-          y="217.13"
-          width="61.6262"
-          height="87.1133"
-          rx="30.8131"
-          fill="#C17D54"
-        />
-        <rect
-          x="347.109"
-          y="217.13"
-          width="61.6262"
-          height="87.1133"
-          rx="30.8131"
-          fill="black"
-          fillOpacity="0.1"
-        />
-        <rect
-          x="68.5156"
-          y="217.13"
-          width="61.6262"
-          height="87.1133"
-          rx="30.8131"
-          fill="#C17D54"
-        />
-        <rect
-          x="68.5156"
-          y="217.13"
-          width="61.6262"
-          height="87.1133"
-          rx="30.8131"
-          fill="black"
-          fillOpacity="0.1"
-        />
-        <path
-          d="M269.44 105.636C332.355 105.636 383.357 156.637 383.357 219.552V257.086C383.357 261.714 383.081 266.277 382.544 270.76C382.13 274.218 382.604 277.719 383.767 281.002C386.263 288.048 387.622 295.632 387.622 303.533C387.622 340.793 357.417 370.999 320.157 370.999H269.932C269.768 371 269.604 371.002 269.44 371.002H209.584C209.42 371.002 209.256 371 209.093 370.999H153.845C116.585 370.999 86.3789 340.793 86.3789 303.533C86.379 292.788 88.8913 282.629 93.3605 273.612C95.0695 270.164 95.9745 266.352 95.7941 262.508C95.7097 260.711 95.667 258.904 95.667 257.086V219.552C95.667 156.637 146.67 105.636 209.584 105.636H269.44Z"
-          fill="#C17D54"
-        />
-      </g>
-      <defs>
-        <clipPath id="clip0_2732_2197">
-          <rect width="474" height="474" fill="white" />
-        </clipPath>
-      </defs>
-    </>
-  ),
-  softPeach: (
-    <>
-      <g clipPath="url(#clip0_2732_2204)">
-        <rect
-          x="347.109"
-          y="217.13"
-          width="61.6262"
-          height="87.1133"
-          rx="30.8131"
-          fill="#F2C19B"
-        />
-        <rect
-          x="68.5156"
-          y="217.13"
-          width="61.6262"
-          height="87.1133"
-          rx="30.8131"
-          fill="#F2C19B"
-        />
-        <path
-          d="M269.44 105.635C332.355 105.635 383.357 156.637 383.357 219.552V257.086C383.357 261.714 383.081 266.277 382.544 270.76C382.13 274.218 382.604 277.719 383.767 281.002C386.263 288.048 387.622 295.632 387.622 303.533C387.622 340.793 357.417 370.999 320.157 370.999H269.932C269.768 371 269.604 371.002 269.44 371.002H209.584C209.42 371.002 209.256 371 209.093 370.999H153.845C116.585 370.999 86.3789 340.793 86.3789 303.533C86.379 292.788 88.8913 282.629 93.3605 273.612C95.0695 270.164 95.9745 266.352 95.7941 262.508C95.7097 260.711 95.667 258.904 95.667 257.086V219.552C95.667 156.637 146.67 105.635 209.584 105.635H269.44Z"
-          fill="#FFCBA3"
-        />
-      </g>
-      <defs>
-        <clipPath id="clip0_2732_2204">
-          <rect width="474" height="474" fill="white" />
-        </clipPath>
-      </defs>
-    </>
-  ),
-  warmBrown: (
-    <>
-      <g clipPath="url(#clip0_2732_2190)">
-        <rect
-          x="347.109"
-          y="217.13"
-          width="61.6262"
-          height="87.1133"
-          rx="30.8131"
-          fill="#8A5244"
-        />
-        <rect
-          x="347.109"
-          y="217.13"
-          width="61.6262"
-          height="87.1133"
-          rx="30.8131"
-          fill="black"
-          fillOpacity="0.2"
-        />
-        <rect
-          x="68.5156"
-          y="217.13"
-          width="61.6262"
-          height="87.1133"
-          rx="30.8131"
-          fill="#8A5244"
-        />
-        <rect
-          x="68.5156"
-          y="217.13"
-          width="61.6262"
-          height="87.1133"
-          rx="30.8131"
-          fill="black"
-          fillOpacity="0.2"
-        />
-        <path
-          d="M269.44 105.635C332.355 105.635 383.357 156.637 383.357 219.552V257.086C383.357 261.714 383.081 266.277 382.544 270.76C382.13 274.218 382.604 277.719 383.767 281.002C386.263 288.048 387.622 295.632 387.622 303.533C387.622 340.793 357.417 370.999 320.157 370.999H269.932C269.768 371 269.604 371.002 269.44 371.002H209.584C209.42 371.002 209.256 371 209.093 370.999H153.845C116.585 370.999 86.3789 340.793 86.3789 303.533C86.379 292.788 88.8913 282.629 93.3605 273.612C95.0695 270.164 95.9745 266.352 95.7941 262.508C95.7097 260.711 95.667 258.904 95.667 257.086V219.552C95.667 156.637 146.67 105.635 209.584 105.635H269.44Z"
-          fill="#8A5244"
-        />
-      </g>
-      <defs>
-        <clipPath id="clip0_2732_2190">
-          <rect width="474" height="474" fill="white" />
-        </clipPath>
-      </defs>
-    </>
-  ),
-};
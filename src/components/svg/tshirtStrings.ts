@@ -1,155 +0,0 @@
-export const tshirtSvg: Record<string, string> = {
-  amber: `<g clip-path="url(#clip0_2732_7519)">
-<rect x="90.6426" y="339.035" width="292.713" height="308.412" rx="128" fill="#F3A13F"/>
-<g style="mix-blend-mode:overlay" opacity="0.2">
-<rect x="179" y="270" width="116" height="124" rx="58" fill="black"/>
-</g>
-<g style="mix-blend-mode:overlay" opacity="0.2">
-<path d="M323.5 418V508.5" stroke="black" stroke-width="10" stroke-linecap="round"/>
-</g>
-<g style="mix-blend-mode:overlay" opacity="0.2">
-<path d="M150 418V508.5" stroke="black" stroke-width="10" stroke-linecap="round"/>
-</g>
-</g>
-<defs>
-<clipPath id="clip0_2732_7519">
-<rect width="474" height="474" fill="white"/>
-</clipPath>
-</defs>`,
-  blue: `<g clip-path="url(#clip0_2732_7510)">
-<rect x="90.6426" y="339.035" width="292.713" height="308.412" rx="128" fill="#45A1CD"/>
-<g style="mix-blend-mode:overlay" opacity="0.2">
-<rect x="179" y="270" width="116" height="124" rx="58" fill="black"/>
-</g>
-<g style="mix-blend-mode:overlay" opacity="0.2">
-<path d="M323.5 418V508.5" stroke="black" stroke-width="10" stroke-linecap="round"/>
-</g>
-<g style="mix-blend-mode:overlay" opacity="0.2">
-<path d="M150 418V508.5" stroke="black" stroke-width="10" stroke-linecap="round"/>
-</g>
-</g>
-<defs>
-<clipPath id="clip0_2732_7510">
-<rect width="474" height="474" fill="white"/>
-</clipPath>
-</defs>`,
-  charcoal: `<g clip-path="url(#clip0_2732_7527)">
-<rect x="90.6426" y="339.035" width="292.713" height="308.412" rx="128" fill="#424242"/>
-<g style="mix-blend-mode:overlay" opacity="0.2">
-<rect x="179" y="270" width="116" height="124" rx="58" fill="black"/>
-</g>
-<g style="mix-blend-mode:overlay" opacity="0.2">
-<path d="M323.5 418V508.5" stroke="black" stroke-width="10" stroke-linecap="round"/>
-</g>
-<g style="mix-blend-mode:overlay" opacity="0.2">
-<path d="M150 418V508.5" stroke="black" stroke-width="10" stroke-linecap="round"/>
-</g>
-</g>
-<defs>
-<clipPath id="clip0_2732_7527">
-<rect width="474" height="474" fill="white"/>
-</clipPath>
-</defs>`,
-  green: `<g clip-path="url(#clip0_2732_7515)">
-<rect x="90.6426" y="339.035" width="292.713" height="308.412" rx="128" fill="#79B23C"/>
-<g style="mix-blend-mode:overlay" opacity="0.2">
-<rect x="179" y="270" width="116" height="124" rx="58" fill="black"/>
-</g>
-<g style="mix-blend-mode:overlay" opacity="0.2">
-<path d="M323.5 418V508.5" stroke="black" stroke-width="10" stroke-linecap="round"/>
-</g>
-<g style="mix-blend-mode:overlay" opacity="0.2">
-<path d="M150 418V508.5" stroke="black" stroke-width="10" stroke-linecap="round"/>
-</g>
-</g>
-<defs>
-<clipPath id="clip0_2732_7515">
-<rect width="474" height="474" fill="white"/>
-</clipPath>
-</defs>`,
-  orange: `<g clip-path="url(#clip0_2732_7440)">
-<rect x="90.6426" y="339.035" width="292.713" height="308.412" rx="128" fill="#F58D3E"/>
-<g style="mix-blend-mode:overlay" opacity="0.2">
-<rect x="179" y="270" width="116" height="124" rx="58" fill="black"/>
-</g>
-<g style="mix-blend-mode:overlay" opacity="0.2">
-<path d="M323.5 418V508.5" stroke="black" stroke-width="10" stroke-linecap="round"/>
-</g>
-<g style="mix-blend-mode:overlay" opacity="0.2">
-<path d="M150 418V508.5" stroke="black" stroke-width="10" stroke-linecap="round"/>
-</g>
-</g>
-<defs>
-<clipPath id="clip0_2732_7440">
-<rect width="474" height="474" fill="white"/>
-</clipPath>
-</defs>`,
-  pink: `<g clip-path="url(#clip0_2732_7523)">
-<rect x="90.6426" y="339.035" width="292.713" height="308.412" rx="128" fill="#FBC8DE"/>
-<g style="mix-blend-mode:overlay" opacity="0.2">
-<rect x="179" y="270" width="116" height="124" rx="58" fill="black"/>
-</g>
-<g style="mix-blend-mode:overlay" opacity="0.2">
-<path d="M323.5 418V508.5" stroke="black" stroke-width="10" stroke-linecap="round"/>
-</g>
-<g style="mix-blend-mode:overlay" opacity="0.2">
-<path d="M150 418V508.5" stroke="black" stroke-width="10" stroke-linecap="round"/>
-</g>
-</g>
-<defs>
-<clipPath id="clip0_2732_7523">
-<rect width="474" height="474" fill="white"/>
-</clipPath>
-</defs>`,
-  raspberry: `<g clip-path="url(#clip0_2732_7521)">
-<rect x="90.6426" y="339.035" width="292.713" height="308.412" rx="128" fill="#C13C65"/>
-<g style="mix-blend-mode:overlay" opacity="0.2">
-<rect x="179" y="270" width="116" height="124" rx="58" fill="black"/>
-</g>
-<g style="mix-blend-mode:overlay" opacity="0.2">
-<path d="M323.5 418V508.5" stroke="black" stroke-width="10" stroke-linecap="round"/>
-</g>
-<g style="mix-blend-mode:overlay" opacity="0.2">
-<path d="M150 418V508.5" stroke="black" stroke-width="10" stroke-linecap="round"/>
-</g>
-</g>
-<defs>
-<clipPath id="clip0_2732_7521">
-<rect width="474" height="474" fill="white"/>
-</clipPath>
-</defs>`,
-  white: `<g clip-path="url(#clip0_2732_7525)">
-<rect x="90.6426" y="339.035" width="292.713" height="308.412" rx="128" fill="#ECF0F1"/>
-<g style="mix-blend-mode:overlay" opacity="0.2">
-<rect x="179" y="270" width="116" height="124" rx="58" fill="black"/>
-</g>
-<g style="mix-blend-mode:overlay" opacity="0.2">
-<path d="M323.5 418V508.5" stroke="black" stroke-width="10" stroke-linecap="round"/>
-</g>
-<g style="mix-blend-mode:overlay" opacity="0.2">
-<path d="M150 418V508.5" stroke="black" stroke-width="10" stroke-linecap="round"/>
-</g>
-</g>
-<defs>
-<clipPath id="clip0_2732_7525">
-<rect width="474" height="474" fill="white"/>
-</clipPath>
-</defs>`,
-  yellow: `<g clip-path="url(#clip0_2732_7517)">
-<rect x="90.6426" y="339.035" width="292.713" height="308.412" rx="128" fill="#F3CC3F"/>
-<g style="mix-blend-mode:overlay" opacity="0.2">
-<rect x="179" y="270" width="116" height="124" rx="58" fill="black"/>
-</g>
-<g style="mix-blend-mode:overlay" opacity="0.2">
-<path d="M323.5 418V508.5" stroke="black" stroke-width="10" stroke-linecap="round"/>
-</g>
-<g style="mix-blend-mode:overlay" opacity="0.2">
-<path d="M150 418V508.5" stroke="black" stroke-width="10" stroke-linecap="round"/>
-</g>
-</g>
-<defs>
-<clipPath id="clip0_2732_7517">
-<rect width="474" height="474" fill="white"/>
-</clipPath>
-</defs>`,
-};
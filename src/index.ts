@@ -1,31 +1,132 @@
 // Components
-export {
-  Avatar,
-  generateRandomConfig,
-  defaultConfig,
-} from "./components/Avatar";
+export { Avatar } from "./components/Avatar";
 export { AvatarPicker } from "./components/AvatarPicker";
+export { AvatarThemeProvider } from "./components/AvatarThemeProvider";
+
+// Random generation
+export { generateRandomConfig } from "./utils/random";
+
+// Seeded generation
+export { generateConfigFromSeed, LATEST_SEED_VERSION } from "./utils/seed";
+
+// Share codes
+export { encodeConfig, decodeConfig, LATEST_CODE_VERSION } from "./utils/code";
+
+// Validation
+export { validateConfig, parseConfig, sanitizeConfig } from "./utils/validate";
 
 // Export utilities
 export {
+  defaultConfig,
   generateSvg,
   generateBase64,
   generatePngBase64,
   downloadSvg,
   downloadPng,
 } from "./utils/export";
+export {
+  generateImage,
+  downloadImage,
+  isImageFormatSupported,
+} from "./utils/image";
+export { generateSvgSprite } from "./utils/sprite";
+
+// Themes
+export { applyTheme, createTheme } from "./utils/themes";
+
+// Plugins
+export { registerOption, registerCategory } from "./utils/plugins";
+
+// Catalog
+export {
+  enumerateConfigs,
+  countConfigs,
+  getConfigAt,
+  getCatalogPage,
+} from "./utils/catalog";
 
 // Types
 export type {
   AvatarConfig,
   AvatarProps,
   AvatarPickerProps,
+  AvatarPickerLayout,
+  GenerateSvgOptions,
+  AvatarShape,
+  AvatarShapeOptions,
+  AvatarAnimationOptions,
+  SeedVersion,
+  AvatarCodeVersion,
+  RandomConfigOptions,
+  CatalogVersion,
+  CatalogOptions,
+  CatalogEntry,
+  CatalogPage,
+  AvatarOptionLists,
+  AvatarOptionWeights,
+  AvatarOptionAliases,
+  ConfigErrorCode,
+  ConfigFieldError,
+  ParseConfigOptions,
+  ParseConfigResult,
+  SanitizeConfigOptions,
+  RasterizerWasmSource,
+  ImageFormat,
+  GenerateImageOptions,
+  AnimationFormat,
+  AnimationFrame,
+  GenerateAnimationOptions,
+  SpriteOptions,
+  PngAtlasOptions,
+  SpriteEntry,
+  SvgSprite,
+  PngAtlas,
+  HexColor,
+  AvatarCategory,
+  AvatarOptionMap,
+  ExtensibleCategory,
+  PluginOptions,
+  PluginCategories,
+  PluginOption,
+  PartDefinition,
+  CategoryDefinition,
+  PluginLayer,
+  AvatarThemeName,
+  AvatarTheme,
+  AvatarThemeOptions,
+  AvatarThemeProviderProps,
+  AvatarColorScheme,
+  AvatarColorSchemeOptions,
   BackgroundType,
+  BackgroundColor,
+  BackgroundFill,
+  BackgroundPatternType,
+  LinearGradientBackground,
+  RadialGradientBackground,
+  PatternBackground,
+  TransparentBackground,
   SkinType,
   TshirtType,
   ExpressionType,
   HairType,
+  HairColorType,
+  FaceDetailType,
+  AccessoryType,
 } from "./types";
 
 // Constants
-export { BACKGROUNDS, SKINS, TSHIRTS, EXPRESSIONS, HAIRS } from "./types";
+export {
+  BACKGROUNDS,
+  SKINS,
+  TSHIRTS,
+  EXPRESSIONS,
+  HAIRS,
+  HAIR_COLORS,
+  FACE_DETAILS,
+  ACCESSORIES,
+  BACKGROUND_PATTERNS,
+  SHAPES,
+  THEMES,
+  COLOR_SCHEMES,
+  PICKER_LAYOUTS,
+} from "./types";
@@ -0,0 +1,11 @@
+// PNG, GIF and APNG exporters built on the optional `@resvg/resvg-wasm`
+// peer dependency. They are published as `pinecone-avatars/rasterizer`, so
+// that the main entry never imports it and bundles without it.
+
+export {
+  initRasterizer,
+  generatePng,
+  generateImage,
+  generatePngAtlas,
+} from "./utils/rasterize";
+export { generateAnimation, downloadAnimation } from "./utils/animatedImage";
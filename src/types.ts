@@ -10,13 +10,20 @@ export type BackgroundType =
   | "mintGreen"
   | "pastelGreen"
   | "peach"
-  | "softPink";
+  | "softPink"
+  | PluginOption<"background">;
 
 /**
  * Available skin tone options for the avatar.
- * @example 'softPeach'
+ * @example 'lightCream' | 'softPeach' | 'deepBrown'
  */
-export type SkinType = "softPeach";
+export type SkinType =
+  | "deepBrown"
+  | "lightCream"
+  | "mediumTan"
+  | "softPeach"
+  | "warmBrown"
+  | PluginOption<"skin">;
 
 /**
  * Available t-shirt color options for the avatar.
@@ -31,7 +38,8 @@ export type TshirtType =
   | "pink"
   | "raspberry"
   | "white"
-  | "yellow";
+  | "yellow"
+  | PluginOption<"tshirt">;
 
 /**
  * Available facial expression options for the avatar.
@@ -50,7 +58,8 @@ export type ExpressionType =
   | "starry"
   | "suspicious"
   | "tired"
-  | "worried";
+  | "worried"
+  | PluginOption<"expression">;
 
 /**
  * Available hairstyle options for the avatar.
@@ -83,11 +92,146 @@ export type HairType =
   | "tinyBun"
   | "topKnot"
   | "wavyCenterPart"
-  | "wavyPuffs";
+  | "wavyPuffs"
+  | PluginOption<"hair">;
+
+/**
+ * Available hair color options for the avatar.
+ * @example 'black' | 'blonde' | 'auburn'
+ */
+export type HairColorType =
+  | "black"
+  | "darkBrown"
+  | "brown"
+  | "auburn"
+  | "red"
+  | "blonde"
+  | "platinum"
+  | "gray"
+  | "silver"
+  | "electricBlue"
+  | "bubblegumPink"
+  | "lavender";
+
+/**
+ * Available face detail options for the avatar: facial hair, freckles or
+ * blush. `none` turns the layer off.
+ * @example 'none' | 'fullBeard' | 'freckles'
+ */
+export type FaceDetailType =
+  | "none"
+  | "stubble"
+  | "mustache"
+  | "goatee"
+  | "fullBeard"
+  | "freckles"
+  | "blush"
+  | PluginOption<"faceDetail">;
+
+/**
+ * Available accessory options for the avatar.
+ * Accessories are worn in a stack, e.g. glasses together with a hat.
+ * @example 'roundGlasses' | 'beanie' | 'headphones'
+ */
+export type AccessoryType =
+  | "roundGlasses"
+  | "squareGlasses"
+  | "sunglasses"
+  | "beanie"
+  | "cap"
+  | "studEarrings"
+  | "hoopEarrings"
+  | "headphones";
+
+/**
+ * A custom color in hex notation (`#rgb` or `#rrggbb`).
+ * Accepted wherever a named color is, e.g. `tshirt: '#1E90FF'`; every
+ * dependent shade of the part is recolored to match.
+ */
+export type HexColor = `#${string}`;
+
+/**
+ * A background color: a named background option or a custom color.
+ */
+export type BackgroundColor = BackgroundType | HexColor;
+
+/**
+ * Available background pattern options.
+ * @example 'dots' | 'stripes' | 'confetti'
+ */
+export type BackgroundPatternType = "dots" | "stripes" | "confetti";
+
+/**
+ * A linear gradient background.
+ *
+ * @example
+ * ```ts
+ * { type: 'linear', colors: ['peach', '#E56464'], angle: 135 }
+ * ```
+ */
+export interface LinearGradientBackground {
+  type: "linear";
+  /** Two or more colors, spread evenly along the gradient */
+  colors: BackgroundColor[];
+  /**
+   * Direction in degrees, as in CSS: `0` runs bottom to top, `90` left to
+   * right. @default 180
+   */
+  angle?: number;
+}
+
+/**
+ * A radial gradient background, running from the first color at the
+ * center to the last color at the edge.
+ */
+export interface RadialGradientBackground {
+  type: "radial";
+  /** Two or more colors, spread evenly from the center outwards */
+  colors: BackgroundColor[];
+}
+
+/**
+ * A pattern drawn over a flat background color.
+ *
+ * @example
+ * ```ts
+ * { type: 'pattern', pattern: 'dots', color: 'mintGreen' }
+ * ```
+ */
+export interface PatternBackground {
+  type: "pattern";
+  /** The pattern drawn over the background */
+  pattern: BackgroundPatternType;
+  /** Color under the pattern. @default 'babyBlue' */
+  color?: BackgroundColor;
+  /**
+   * Color of the pattern. @default translucent white (multicolored for
+   * `confetti`)
+   */
+  patternColor?: HexColor;
+}
+
+/**
+ * No background; only the character is drawn, still inside the avatar's
+ * outline. Same as `background: 'none'`.
+ */
+export interface TransparentBackground {
+  type: "transparent";
+}
+
+/**
+ * A background that is not a flat color.
+ */
+export type BackgroundFill =
+  | LinearGradientBackground
+  | RadialGradientBackground
+  | PatternBackground
+  | TransparentBackground;
 
 /**
  * Complete configuration object for an avatar's appearance.
- * Contains all customizable attributes: background, skin, tshirt, expression, and hair.
+ * Contains all customizable attributes: background, skin, tshirt, expression, hair
+ * and the optional hair color, face detail and accessories.
  *
  * @example
  * ```tsx
@@ -96,21 +240,623 @@ export type HairType =
  *   skin: 'softPeach',
  *   tshirt: 'blue',
  *   expression: 'happy',
- *   hair: 'shortBuzz'
+ *   hair: 'shortBuzz',
+ *   hairColor: 'blonde'
+ * };
+ *
+ * // Team colors
+ * const custom: AvatarConfig = { ...config, tshirt: '#0B3D91', hairColor: '#B5651D' };
+ *
+ * // Gradient background
+ * const sunset: AvatarConfig = {
+ *   ...config,
+ *   background: { type: 'linear', colors: ['peach', 'coralRed'] },
  * };
  * ```
  */
-export interface AvatarConfig {
-  /** Background color of the avatar circle */
+export interface AvatarConfig extends Partial<PluginCategories> {
+  /**
+   * Background of the avatar circle: a named or custom color, a gradient,
+   * pattern or transparent background, or `'none'` to draw only the
+   * character
+   */
+  background: BackgroundColor | BackgroundFill | "none";
+  /** Skin tone of the avatar character, named or custom */
+  skin: SkinType | HexColor;
+  /** T-shirt color of the avatar character, named or custom */
+  tshirt: TshirtType | HexColor;
+  /** Facial expression of the avatar character */
+  expression: ExpressionType;
+  /** Hairstyle of the avatar character */
+  hair: HairType;
+  /** Hair color, named or custom. @default the hairstyle's own color */
+  hairColor?: HairColorType | HexColor;
+  /**
+   * Facial hair, freckles or blush, drawn under the expression. Facial hair
+   * takes the hair color. @default 'none'
+   */
+  faceDetail?: FaceDetailType;
+  /**
+   * Accessories worn by the avatar character. Each is drawn in its own
+   * layer (earrings under the hair, hats and headphones over it), whatever
+   * the order of the list. @default []
+   */
+  accessories?: AccessoryType[];
+}
+
+/**
+ * The named options of each avatar attribute that has an option list,
+ * including categories added by plugins.
+ */
+export interface AvatarOptionMap extends PluginCategories {
   background: BackgroundType;
-  /** Skin tone of the avatar character */
   skin: SkinType;
-  /** T-shirt color of the avatar character */
   tshirt: TshirtType;
-  /** Facial expression of the avatar character */
   expression: ExpressionType;
-  /** Hairstyle of the avatar character */
   hair: HairType;
+  hairColor: HairColorType;
+  faceDetail: FaceDetailType;
+}
+
+/** Avatar attributes that are chosen from a list of named options. */
+export type AvatarCategory = keyof AvatarOptionMap;
+
+/** Built-in categories that plugins can add options to. */
+export type ExtensibleCategory =
+  "background" | "skin" | "tshirt" | "expression" | "hair" | "faceDetail";
+
+/**
+ * Options added to the built-in categories by plugins, per category.
+ * Augment this interface to declare the options an app registers with
+ * `registerOption`; they then type-check wherever built-in options do.
+ *
+ * @example
+ * ```ts
+ * declare module 'pinecone-avatars' {
+ *   interface PluginOptions {
+ *     hair: 'houseMohawk' | 'houseSwoop';
+ *   }
+ * }
+ * ```
+ */
+export interface PluginOptions {}
+
+/**
+ * Categories added by plugins, mapped to their options. Augment this
+ * interface to declare the categories an app registers with
+ * `registerCategory`; each becomes an optional `AvatarConfig` attribute.
+ *
+ * @example
+ * ```ts
+ * declare module 'pinecone-avatars' {
+ *   interface PluginCategories {
+ *     badge: 'star' | 'heart';
+ *   }
+ * }
+ * ```
+ */
+export interface PluginCategories {}
+
+/** The options a plugin added to a built-in category. */
+export type PluginOption<C extends ExtensibleCategory> =
+  C extends keyof PluginOptions ? PluginOptions[C] & string : never;
+
+/** The options a built-in category ships with, without plugin options. */
+export type BuiltInOption<C extends ExtensibleCategory> = Exclude<
+  AvatarOptionMap[C],
+  PluginOption<C>
+>;
+
+/**
+ * Artwork of a plugin option.
+ *
+ * @example
+ * ```tsx
+ * {
+ *   svg: '<path d="M120 140C…" fill="#2B2B2B"/>',
+ *   render: () => <HouseMohawk />,
+ * }
+ * ```
+ */
+export interface PartDefinition {
+  /**
+   * SVG markup drawn on the avatar's 474×474 canvas, like the built-in
+   * parts. Used by `generateSvg` and the image exporters, and by `<Avatar>`
+   * unless `render` is given.
+   */
+  svg: string;
+  /**
+   * Draws the part in `<Avatar>` instead of `svg`, e.g. an SVGR component.
+   * It should draw the same artwork; recolored parts (such as hairstyles
+   * with a `hairColor`) always use `svg`.
+   */
+  render?: () => React.ReactNode;
+  /**
+   * Name of the option in `AvatarPicker`, read out by screen readers.
+   * @default the option's key split into words, e.g. "House mohawk"
+   */
+  label?: string;
+}
+
+/**
+ * Where the part of a plugin category is drawn.
+ * - `behindCharacter`: over the background, behind the body
+ * - `underHair`: over the face, under the hair
+ * - `overHair`: over the hair, under the expression
+ * - `overFace`: over everything else
+ */
+export type PluginLayer =
+  "behindCharacter" | "underHair" | "overHair" | "overFace";
+
+/**
+ * A category added by a plugin.
+ *
+ * @example
+ * ```ts
+ * {
+ *   label: 'Badge',
+ *   layer: 'overFace',
+ *   options: {
+ *     star: { svg: '<path d="M380 330l12 24…" fill="#F5C518"/>' },
+ *     heart: { svg: '<path d="M380 340c-8-12…" fill="#E5484D"/>' },
+ *   },
+ * }
+ * ```
+ */
+export interface CategoryDefinition<T extends string = string> {
+  /** Heading of the category in `AvatarPicker`. @default the category name */
+  label?: string;
+  /** Where the category's part is drawn. @default 'overFace' */
+  layer?: PluginLayer;
+  /** Artwork of every option */
+  options: Record<T, PartDefinition>;
+}
+
+/**
+ * Per-category lists of avatar options, e.g. an allow-list of expressions.
+ */
+export type AvatarOptionLists = {
+  [K in AvatarCategory]?: readonly AvatarOptionMap[K][];
+};
+
+/**
+ * Per-category relative weights for random selection.
+ * Options without a weight count as `1`; a weight of `0` excludes an option.
+ */
+export type AvatarOptionWeights = {
+  [K in AvatarCategory]?: Partial<Record<AvatarOptionMap[K], number>>;
+};
+
+/**
+ * Per-category maps from old or alternative option names to current ones,
+ * e.g. `{ hair: { buzz: 'shortBuzz' } }`.
+ */
+export type AvatarOptionAliases = {
+  [K in AvatarCategory]?: Record<string, AvatarOptionMap[K]>;
+} & {
+  accessories?: Record<string, AccessoryType>;
+};
+
+/**
+ * Why a field of an untrusted config was rejected.
+ * - `invalid_type`: the value (or the config itself) has the wrong type
+ * - `missing`: the field is absent
+ * - `unknown_option`: the value is not a known option or alias
+ * - `invalid_color`: the value is a malformed hex color
+ */
+export type ConfigErrorCode =
+  "invalid_type" | "missing" | "unknown_option" | "invalid_color";
+
+/**
+ * A validation problem reported by `validateConfig` / `parseConfig`.
+ */
+export interface ConfigFieldError {
+  /** The offending field, or `null` when the input is not an object at all */
+  field: keyof AvatarConfig | null;
+  /** Machine-readable reason */
+  code: ConfigErrorCode;
+  /** The rejected value */
+  value: unknown;
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * Options for `validateConfig`, `parseConfig` and `sanitizeConfig`.
+ */
+export interface ParseConfigOptions {
+  /** Extra aliases, checked after the library's built-in aliases */
+  aliases?: AvatarOptionAliases;
+}
+
+/**
+ * Options for `sanitizeConfig`.
+ */
+export interface SanitizeConfigOptions extends ParseConfigOptions {
+  /** Values used in place of missing or invalid fields. @default defaultConfig */
+  fallback?: AvatarConfig;
+}
+
+/**
+ * Result of `parseConfig`.
+ */
+export type ParseConfigResult =
+  | { success: true; config: AvatarConfig }
+  | { success: false; errors: ConfigFieldError[] };
+
+/**
+ * Constraints for `generateRandomConfig`.
+ *
+ * @example
+ * ```ts
+ * generateRandomConfig({
+ *   locked: { background: 'mintGreen' },
+ *   include: { expression: ['happy', 'focused', 'laughing'] },
+ *   exclude: { hair: ['bunnyEars'] },
+ *   weights: { tshirt: { blue: 3 } },
+ * });
+ * ```
+ */
+export interface RandomConfigOptions {
+  /** Attributes that keep the given value instead of being randomized */
+  locked?: Partial<AvatarConfig>;
+  /** Allow-lists: only these options are drawn for the category */
+  include?: AvatarOptionLists;
+  /** Deny-lists: these options are never drawn for the category */
+  exclude?: AvatarOptionLists;
+  /** Relative weights of the options within each category */
+  weights?: AvatarOptionWeights;
+  /** Source of randomness returning floats in `[0, 1)`. @default Math.random */
+  random?: () => number;
+}
+
+/**
+ * Versions of the avatar catalog (`enumerateConfigs`, `getConfigAt` etc.).
+ * A version freezes the option lists the catalog combines and their order,
+ * so catalog indexes stay valid across releases for as long as the caller
+ * keeps using the same version and filters.
+ */
+export type CatalogVersion = 1;
+
+/**
+ * Filters for the avatar catalog (`enumerateConfigs`, `countConfigs`,
+ * `getCatalogPage`). Without filters the catalog holds every combination of
+ * the named options and accessories of its version; options and categories
+ * registered by plugins are left out.
+ */
+export interface CatalogOptions {
+  /** Catalog version the indexes belong to. @default 1 */
+  version?: CatalogVersion;
+  /**
+   * Attributes that keep the given value, which may also be a custom color.
+   * Locking `hairColor` to `undefined` keeps each hairstyle's own color.
+   */
+  locked?: Partial<AvatarConfig>;
+  /**
+   * Allow-lists: only these options are listed for the category. Without
+   * one, `hairColor` also lists each hairstyle's own color.
+   */
+  include?: AvatarOptionLists;
+  /** Deny-lists: these options are never listed for the category */
+  exclude?: AvatarOptionLists;
+  /**
+   * Accessories combined into the listed sets, at most one per slot; `[]`
+   * lists avatars without accessories only. @default all accessories
+   */
+  accessories?: readonly AccessoryType[];
+}
+
+/**
+ * A configuration of the avatar catalog with its position.
+ */
+export interface CatalogEntry {
+  /**
+   * Position in the catalog. The same version and filters always give the
+   * same index, in every release.
+   */
+  index: number;
+  config: AvatarConfig;
+}
+
+/**
+ * A page of the avatar catalog, returned by `getCatalogPage`.
+ */
+export interface CatalogPage {
+  entries: CatalogEntry[];
+  /** Zero-based page number */
+  page: number;
+  pageSize: number;
+  /** Number of configurations in the filtered catalog */
+  total: number;
+  pageCount: number;
+}
+
+/**
+ * Versions of the seed → config mapping used by `generateConfigFromSeed`.
+ *
+ * A version freezes the hash function, the order in which attributes are
+ * drawn and the option lists they are drawn from. Adding options to
+ * `HAIRS`, `EXPRESSIONS` etc. never changes an existing version: the new
+ * options only become reachable through a new version, which callers opt
+ * into explicitly. Avatars generated from a seed therefore stay identical
+ * across releases for as long as the caller keeps using the same version.
+ */
+export type SeedVersion = 1;
+
+/**
+ * Versions of the share code format used by `encodeConfig` / `decodeConfig`.
+ * The version is stored as the first character of every code, and each
+ * version packs indices into its own frozen option lists, so codes written
+ * by older releases keep decoding to the same avatar.
+ * - `1`: the five original attributes as named options
+ * - `2`: every attribute, including custom colors
+ */
+export type AvatarCodeVersion = 1 | 2;
+
+/**
+ * Raster formats produced by `generateImage`.
+ * `png` is available everywhere; the others depend on the runtime's encoders.
+ */
+export type ImageFormat = "png" | "jpeg" | "webp" | "avif";
+
+/**
+ * Options for `generateImage` and `downloadImage`.
+ */
+export interface GenerateImageOptions extends AvatarShapeOptions {
+  /** Output format. @default "png" */
+  format?: ImageFormat;
+  /** Width and height in pixels. @default 474 */
+  size?: number;
+  /** Encoder quality from 0 to 1 for lossy formats (jpeg, webp, avif) */
+  quality?: number;
+  /**
+   * CSS color painted behind the avatar, filling the transparent corners
+   * around the circle. Defaults to white for `jpeg`, which has no alpha
+   * channel, and to transparent for the other formats.
+   */
+  matte?: string;
+}
+
+/**
+ * Formats produced by `generateAnimation`.
+ * - `gif`: plays everywhere, including e-mail clients; limited to 256 colors
+ *   and hard-edged transparency
+ * - `apng`: animated PNG with full color and smooth transparency
+ */
+export type AnimationFormat = "gif" | "apng";
+
+/**
+ * A frame of an animation timeline.
+ */
+export interface AnimationFrame {
+  /** Expression shown in the frame. @default the config's expression */
+  expression?: ExpressionType;
+  /** Draws the expression with its eyes shut, e.g. for a blink. @default false */
+  eyesClosed?: boolean;
+  /**
+   * How long the frame is shown in milliseconds, rounded to hundredths of a
+   * second. @default 500
+   */
+  duration?: number;
+}
+
+/**
+ * Options for `generateAnimation` and `downloadAnimation`.
+ */
+export interface GenerateAnimationOptions extends AvatarShapeOptions {
+  /** Output format. @default "gif" */
+  format?: AnimationFormat;
+  /** Width and height in pixels. @default 474 */
+  size?: number;
+  /** How many times the animation plays; `0` repeats it forever. @default 0 */
+  plays?: number;
+  /**
+   * CSS color painted behind the avatar. GIF pixels are either opaque or
+   * transparent, so set this to the color of the page or e-mail behind the
+   * avatar for smooth edges. @default transparent
+   */
+  matte?: string;
+}
+
+/**
+ * Options for `generateSvgSprite` and `generatePngAtlas`.
+ */
+export interface SpriteOptions extends AvatarShapeOptions {
+  /** Width and height of each avatar in pixels. @default 474 */
+  size?: number;
+  /** Avatars per row. @default the square root of the count, rounded up */
+  columns?: number;
+  /** Space between neighboring avatars in pixels. @default 0 */
+  gap?: number;
+  /**
+   * Prefix of each avatar's symbol id, followed by its index. The ids inside
+   * each avatar are scoped to its symbol id. Characters other than letters,
+   * digits, `-` and `_` are removed. @default "avatar-"
+   */
+  idPrefix?: string;
+}
+
+/**
+ * Options for `generatePngAtlas`.
+ */
+export interface PngAtlasOptions extends SpriteOptions {
+  /** CSS color painted behind the avatars. @default transparent */
+  matte?: string;
+}
+
+/**
+ * Where an avatar of a sprite or atlas is, in pixels from the top left.
+ */
+export interface SpriteEntry {
+  /** Position of the config in the input */
+  index: number;
+  /** The complete configuration of the avatar */
+  config: AvatarConfig;
+  /**
+   * Share code of the configuration (see `encodeConfig`), or `undefined`
+   * when it has values a code cannot hold, such as plugin options
+   */
+  code: string | undefined;
+  /** Id of the avatar's `<symbol>` */
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * An SVG sprite of several avatars, returned by `generateSvgSprite`.
+ */
+export interface SvgSprite {
+  /**
+   * SVG markup with a `<symbol>` per avatar, each also drawn at its place in
+   * the grid
+   */
+  svg: string;
+  width: number;
+  height: number;
+  /** One entry per config, in input order */
+  manifest: SpriteEntry[];
+}
+
+/**
+ * A PNG atlas of several avatars, returned by `generatePngAtlas`.
+ */
+export interface PngAtlas {
+  /** PNG file contents */
+  png: Uint8Array;
+  width: number;
+  height: number;
+  /** One entry per config, in input order */
+  manifest: SpriteEntry[];
+}
+
+/**
+ * The rasterizer's WebAssembly binary, or a URL / response to load it from.
+ * Accepted by `initRasterizer`.
+ */
+export type RasterizerWasmSource =
+  string | URL | Request | Response | BufferSource | WebAssembly.Module;
+
+/**
+ * Outline of the avatar.
+ * - `circle`: the classic round avatar
+ * - `square`: fills the whole square
+ * - `rounded`: a square with rounded corners (see `cornerRadius`)
+ * - `squircle`: a superellipse, as used for app icons
+ * - `fullBleed`: no outline; the artwork covers its box even when the box is
+ *   not square, e.g. an avatar stretched across a hero banner
+ */
+export type AvatarShape =
+  "circle" | "square" | "rounded" | "squircle" | "fullBleed";
+
+/**
+ * Shape options shared by `<Avatar>` and `generateSvg`.
+ */
+export interface AvatarShapeOptions {
+  /** Outline of the avatar. @default "circle" */
+  shape?: AvatarShape;
+  /**
+   * Corner radius of the `rounded` shape in pixels of the rendered size.
+   * Clamped to half the size. @default 20% of the size
+   */
+  cornerRadius?: number;
+  /**
+   * Clips the character to the outline. Set to `false` to draw the whole
+   * body, e.g. for a cut-out of the character with `background: 'none'`.
+   * The background is always clipped. @default true
+   */
+  clipBody?: boolean;
+}
+
+/**
+ * Animation options shared by `<Avatar>` and `generateSvg`.
+ * Animations are CSS embedded in the SVG's `<style>`, so they also play in
+ * exported files, and they stop when the user prefers reduced motion.
+ */
+export interface AvatarAnimationOptions {
+  /**
+   * Animates the avatar: it blinks and breathes while idle, and `<Avatar>`
+   * crossfades between expressions when `expression` changes.
+   * @default false
+   */
+  animated?: boolean;
+  /** Loops a talking mouth. Has no effect unless `animated`. @default false */
+  speaking?: boolean;
+}
+
+/**
+ * Names of the built-in themes.
+ * - `pastel`: soft, light backgrounds and t-shirts
+ * - `dark`: muted backgrounds and lighter dark shirts that stand out on
+ *   dark UIs
+ * - `highContrast`: very light backgrounds and saturated t-shirts
+ */
+export type AvatarThemeName = "pastel" | "dark" | "highContrast";
+
+/**
+ * A palette that repaints the named colors of the avatar: every option
+ * listed is drawn in the given color instead of its own, with the part's
+ * shades recolored to match. Options that are not listed keep their
+ * colors. The built-in themes leave skin tones unchanged.
+ *
+ * @example
+ * ```ts
+ * const brand: AvatarTheme = {
+ *   background: { babyBlue: '#DCEBFF', mintGreen: '#C8F2E0' },
+ *   tshirt: { blue: '#0B3D91', orange: '#FF6B00' },
+ * };
+ * ```
+ */
+export interface AvatarTheme {
+  /** Colors of the named backgrounds, also in gradients and patterns */
+  background?: Partial<Record<BackgroundType, HexColor>>;
+  /** Colors of the named skin tones */
+  skin?: Partial<Record<SkinType, HexColor>>;
+  /** Colors of the named t-shirts */
+  tshirt?: Partial<Record<TshirtType, HexColor>>;
+  /** Colors of the named hair colors */
+  hairColor?: Partial<Record<HairColorType, HexColor>>;
+}
+
+/**
+ * Theme options shared by `<Avatar>` and `generateSvg`.
+ */
+export interface AvatarThemeOptions {
+  /**
+   * Palette applied to the named colors: a built-in theme's name or a
+   * custom theme. `<Avatar>` falls back to the theme of the nearest
+   * `AvatarThemeProvider`.
+   */
+  theme?: AvatarThemeName | AvatarTheme;
+}
+
+/**
+ * Palette variant of an avatar.
+ * - `light`: the avatar's own colors
+ * - `dark`: the colors of the `dark` theme, for dark UIs
+ * - `auto`: both, switched by a `prefers-color-scheme` media query in the
+ *   SVG's `<style>`, so that exported files follow the viewer's setting too
+ */
+export type AvatarColorScheme = "light" | "dark" | "auto";
+
+/**
+ * Color scheme options shared by `<Avatar>` and `generateSvg`.
+ */
+export interface AvatarColorSchemeOptions {
+  /**
+   * Palette variant. The dark palette only repaints the named colors that
+   * `theme` leaves out, so a theme's colors are kept. @default "light"
+   */
+  colorScheme?: AvatarColorScheme;
+  /**
+   * Draws a 2px ring along the inside of the outline, to set the avatar
+   * apart from a background of similar color. `true` uses a ring that
+   * suits the color scheme; a hex color draws the ring in that color.
+   * Has no effect on the `fullBleed` shape. @default false
+   */
+  outline?: boolean | HexColor;
 }
 
 /**
@@ -120,17 +866,68 @@ export interface AvatarConfig {
  * @example
  * ```tsx
  * <Avatar size={100} background="mintGreen" expression="happy" />
+ * <Avatar size={48} seed={user.id} />
+ * <Avatar animated speaking={isTalking} expression={mood} />
+ * <Avatar colorScheme="auto" outline />
  * ```
  */
-export interface AvatarProps extends Partial<AvatarConfig> {
+export interface AvatarProps
+  extends
+    Partial<AvatarConfig>,
+    AvatarShapeOptions,
+    AvatarAnimationOptions,
+    AvatarThemeOptions,
+    AvatarColorSchemeOptions {
   /** Size of the avatar in pixels. @default 200 */
   size?: number;
+  /**
+   * Derives the configuration from a string such as a user id.
+   * Explicit attribute props still take precedence over the seeded values.
+   */
+  seed?: string;
+  /** Seed mapping version used with `seed`. @default 1 */
+  seedVersion?: SeedVersion;
   /** Optional CSS class name for the SVG element */
   className?: string;
   /** Optional inline styles for the SVG element */
   style?: React.CSSProperties;
 }
 
+/**
+ * Additional options for the SVG string exporters.
+ *
+ * @example
+ * ```ts
+ * generateSvg(config, 96, { idPrefix: `user-${user.id}` });
+ * ```
+ */
+export interface GenerateSvgOptions
+  extends
+    AvatarShapeOptions,
+    AvatarAnimationOptions,
+    AvatarThemeOptions,
+    AvatarColorSchemeOptions {
+  /**
+   * Prefix applied to every `id` (and `url(#…)` reference) in the markup.
+   * Set a unique value when several exported SVGs are inlined into the same
+   * document, otherwise their clip paths, masks and filters collide.
+   * Characters other than letters, digits, `-` and `_` are removed, so any
+   * string such as a user id can be passed.
+   * @default "" (ids are left unchanged)
+   */
+  idPrefix?: string;
+  /** Draws the expression with its eyes shut, e.g. for a blink. @default false */
+  eyesClosed?: boolean;
+}
+
+/**
+ * Arrangement of the AvatarPicker's categories.
+ * - `stacked`: every category below the other, options wrapping onto rows
+ * - `tabs`: one category at a time, chosen with a row of tabs
+ * - `compact`: every category as a single row that scrolls sideways
+ */
+export type AvatarPickerLayout = "stacked" | "tabs" | "compact";
+
 /**
  * Props for the AvatarPicker component.
  * A controlled/uncontrolled component for selecting avatar attributes.
@@ -150,6 +947,40 @@ export interface AvatarPickerProps {
   onChange?: (config: AvatarConfig) => void;
   /** Optional CSS class name for the picker container */
   className?: string;
+  /**
+   * Constraints applied by the Randomize button, e.g. allow-lists.
+   * Categories locked in the picker UI are added to `locked`.
+   */
+  randomizeOptions?: RandomConfigOptions;
+  /**
+   * How the categories are arranged: `stacked` lists every category with
+   * all of its options, `tabs` shows one category at a time behind a row
+   * of tabs, and `compact` shows each category as one horizontally
+   * scrolling row. @default "stacked"
+   */
+  layout?: AvatarPickerLayout;
+  /**
+   * Shows a large live preview of the avatar beside the options.
+   * @default false
+   */
+  preview?: boolean;
+}
+
+/**
+ * Props for the AvatarThemeProvider component.
+ *
+ * @example
+ * ```tsx
+ * <AvatarThemeProvider theme="pastel">
+ *   <AvatarPicker onChange={setConfig} />
+ * </AvatarThemeProvider>
+ * ```
+ */
+export interface AvatarThemeProviderProps {
+  /** Built-in theme name or custom theme; `undefined` turns theming off */
+  theme: AvatarThemeName | AvatarTheme | undefined;
+  /** Content that renders avatars */
+  children?: React.ReactNode;
 }
 
 /** Array of all available background color options */
@@ -165,7 +996,13 @@ export const BACKGROUNDS: BackgroundType[] = [
 ];
 
 /** Array of all available skin tone options */
-export const SKINS: SkinType[] = ["softPeach"];
+export const SKINS: SkinType[] = [
+  "deepBrown",
+  "lightCream",
+  "mediumTan",
+  "softPeach",
+  "warmBrown",
+];
 
 /** Array of all available t-shirt color options */
 export const TSHIRTS: TshirtType[] = [
@@ -227,3 +1064,71 @@ export const HAIRS: HairType[] = [
   "wavyCenterPart",
   "wavyPuffs",
 ];
+
+/** Array of all available hair color options */
+export const HAIR_COLORS: HairColorType[] = [
+  "black",
+  "darkBrown",
+  "brown",
+  "auburn",
+  "red",
+  "blonde",
+  "platinum",
+  "gray",
+  "silver",
+  "electricBlue",
+  "bubblegumPink",
+  "lavender",
+];
+
+/** Array of all available face detail options */
+export const FACE_DETAILS: FaceDetailType[] = [
+  "none",
+  "stubble",
+  "mustache",
+  "goatee",
+  "fullBeard",
+  "freckles",
+  "blush",
+];
+
+/** Array of all available accessory options */
+export const ACCESSORIES: AccessoryType[] = [
+  "roundGlasses",
+  "squareGlasses",
+  "sunglasses",
+  "beanie",
+  "cap",
+  "studEarrings",
+  "hoopEarrings",
+  "headphones",
+];
+
+/** Array of all available background pattern options */
+export const BACKGROUND_PATTERNS: BackgroundPatternType[] = [
+  "dots",
+  "stripes",
+  "confetti",
+];
+
+/** Array of all available avatar shapes */
+export const SHAPES: AvatarShape[] = [
+  "circle",
+  "square",
+  "rounded",
+  "squircle",
+  "fullBleed",
+];
+
+/** Array of all built-in theme names */
+export const THEMES: AvatarThemeName[] = ["pastel", "dark", "highContrast"];
+
+/** Array of all avatar color schemes */
+export const COLOR_SCHEMES: AvatarColorScheme[] = ["light", "dark", "auto"];
+
+/** Array of all AvatarPicker layouts */
+export const PICKER_LAYOUTS: AvatarPickerLayout[] = [
+  "stacked",
+  "tabs",
+  "compact",
+];
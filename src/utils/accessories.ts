@@ -0,0 +1,92 @@
+import { AccessoryType, ACCESSORIES } from "../types";
+
+/**
+ * Where an accessory is drawn in the avatar's stack of layers.
+ * - `underHair`: above the skin, so long hair falls over it
+ * - `overHair`: above the hair, so it sits on top of any hairstyle
+ * - `overFace`: above the expression
+ * @internal
+ */
+export type AccessoryLayer = "underHair" | "overHair" | "overFace";
+
+/** Part of the body an accessory is worn on; one accessory per slot. */
+type AccessorySlot = "eyes" | "head" | "ears";
+
+const ACCESSORY_PLACEMENT: Record<
+  AccessoryType,
+  { slot: AccessorySlot; layer: AccessoryLayer }
+> = {
+  roundGlasses: { slot: "eyes", layer: "overFace" },
+  squareGlasses: { slot: "eyes", layer: "overFace" },
+  sunglasses: { slot: "eyes", layer: "overFace" },
+  beanie: { slot: "head", layer: "overHair" },
+  cap: { slot: "head", layer: "overHair" },
+  studEarrings: { slot: "ears", layer: "underHair" },
+  hoopEarrings: { slot: "ears", layer: "underHair" },
+  // Headphones cover the ears, and their band rests on a hat
+  headphones: { slot: "ears", layer: "overHair" },
+};
+
+/**
+ * Returns the known accessories of `accessories` that are drawn in `layer`.
+ * Within a layer they are drawn in `ACCESSORIES` order (hats before
+ * headphones), so the order of the list never changes the result.
+ * @internal
+ */
+export function accessoriesInLayer(
+  accessories: readonly string[] | undefined,
+  layer: AccessoryLayer,
+): AccessoryType[] {
+  if (!accessories) return [];
+  return ACCESSORIES.filter(
+    (accessory) =>
+      ACCESSORY_PLACEMENT[accessory].layer === layer &&
+      accessories.includes(accessory),
+  );
+}
+
+/**
+ * Puts an accessory on or takes it off. Putting one on replaces the
+ * accessory worn in the same slot, e.g. a cap replaces a beanie.
+ * @internal
+ */
+export function toggleAccessory(
+  accessories: readonly AccessoryType[],
+  accessory: AccessoryType,
+): AccessoryType[] {
+  if (accessories.includes(accessory)) {
+    return accessories.filter((worn) => worn !== accessory);
+  }
+  const { slot } = ACCESSORY_PLACEMENT[accessory];
+  return [
+    ...accessories.filter((worn) => ACCESSORY_PLACEMENT[worn]?.slot !== slot),
+    accessory,
+  ];
+}
+
+/**
+ * Returns every set of `accessories` that can be worn together (at most one
+ * per slot), starting with the empty set. Each set lists its accessories
+ * in `ACCESSORIES` order.
+ * @internal
+ */
+export function accessoryCombinations(
+  accessories: readonly AccessoryType[],
+): AccessoryType[][] {
+  const slots = new Map<AccessorySlot, AccessoryType[]>();
+  for (const accessory of ACCESSORIES) {
+    const { slot } = ACCESSORY_PLACEMENT[accessory];
+    const worn = slots.get(slot) ?? [];
+    if (accessories.includes(accessory)) worn.push(accessory);
+    slots.set(slot, worn);
+  }
+
+  let combinations: AccessoryType[][] = [[]];
+  for (const worn of slots.values()) {
+    combinations = combinations.flatMap((combination) => [
+      combination,
+      ...worn.map((accessory) => [...combination, accessory]),
+    ]);
+  }
+  return combinations;
+}
@@ -0,0 +1,190 @@
+import {
+  AnimationFormat,
+  AnimationFrame,
+  AvatarConfig,
+  ExpressionType,
+  GenerateAnimationOptions,
+} from "../types";
+import { encodeApng } from "./apng";
+import { generateSvg } from "./export";
+import { encodeGif } from "./gif";
+import { rasterizeSvg, rasterizeSvgToPng } from "./rasterize";
+
+const FORMATS: Record<
+  AnimationFormat,
+  { mimeType: string; extension: string }
+> = {
+  gif: { mimeType: "image/gif", extension: "gif" },
+  apng: { mimeType: "image/apng", extension: "png" },
+};
+
+const DEFAULT_FRAME_DURATION = 500;
+
+/** Largest delay (in hundredths of a second) and play count GIF can store. */
+const MAX_UINT16 = 0xffff;
+
+interface ResolvedFrame {
+  expression: ExpressionType | undefined;
+  eyesClosed: boolean;
+  /** In hundredths of a second */
+  delay: number;
+}
+
+function resolveTimeline(
+  timeline: readonly (ExpressionType | AnimationFrame)[],
+): ResolvedFrame[] {
+  if (timeline.length === 0) {
+    throw new Error("An animation needs at least one frame");
+  }
+  return timeline.map((frame) => {
+    const {
+      expression,
+      eyesClosed = false,
+      duration = DEFAULT_FRAME_DURATION,
+    } = typeof frame === "string" ? { expression: frame } : frame;
+    if (!(Number.isFinite(duration) && duration > 0)) {
+      throw new Error(
+        `Invalid frame duration: ${duration} (expected a positive number of milliseconds)`,
+      );
+    }
+    // Browsers slow down GIF frames shorter than 20ms, so none are written
+    const delay = Math.min(Math.max(Math.round(duration / 10), 2), MAX_UINT16);
+    return { expression, eyesClosed, delay };
+  });
+}
+
+function resolveOptions(options: GenerateAnimationOptions) {
+  const { format = "gif", size = 474, plays = 0 } = options;
+  if (!Object.prototype.hasOwnProperty.call(FORMATS, format)) {
+    throw new Error(`Unsupported animation format: ${format}`);
+  }
+  if (!Number.isInteger(size) || size <= 0) {
+    throw new Error(`Invalid size: ${size} (expected a positive integer)`);
+  }
+  if (!Number.isInteger(plays) || plays < 0 || plays > MAX_UINT16) {
+    throw new Error(
+      `Invalid plays: ${plays} (expected an integer from 0 to ${MAX_UINT16})`,
+    );
+  }
+  return { ...options, format, size, plays };
+}
+
+/**
+ * Generates an animated GIF or APNG of an avatar going through a timeline
+ * of expressions, e.g. for chat reactions or e-mails.
+ * Works in Node.js (no browser, canvas or native modules needed) and in the
+ * browser after `initRasterizer`. Requires the `@resvg/resvg-wasm` package.
+ *
+ * @param config - Partial avatar configuration (missing values use defaults)
+ * @param timeline - Frames in order: expressions, or frames with their own
+ * duration and shut eyes
+ * @param options - Format, size, number of plays, matte color and shape
+ * @returns Promise resolving to the encoded file contents
+ * @throws Error if the timeline is empty, a duration, the size or the number
+ * of plays is out of range, the format is unknown, or the rasterizer cannot
+ * be loaded
+ *
+ * @example
+ * ```ts
+ * import { writeFile } from 'node:fs/promises';
+ * import { generateAnimation } from 'pinecone-avatars/rasterizer';
+ *
+ * // happy → laughing → happy, half a second each
+ * const gif = await generateAnimation(config, ['happy', 'laughing', 'happy'], {
+ *   size: 128,
+ * });
+ * await writeFile('reaction.gif', gif);
+ *
+ * // Blinking every few seconds, as a smooth-edged APNG
+ * const apng = await generateAnimation(
+ *   config,
+ *   [{ duration: 2400 }, { eyesClosed: true, duration: 120 }],
+ *   { format: 'apng', size: 256 },
+ * );
+ * ```
+ */
+export async function generateAnimation(
+  config: Partial<AvatarConfig>,
+  timeline: readonly (ExpressionType | AnimationFrame)[],
+  options: GenerateAnimationOptions = {},
+): Promise<Uint8Array> {
+  const frames = resolveTimeline(timeline);
+  const { format, size, plays, matte, shape, cornerRadius, clipBody } =
+    resolveOptions(options);
+  const delays = frames.map(({ delay }) => delay);
+
+  // Repeated frames (such as the open eyes of a blink) are drawn once
+  const svgs = frames.map(({ expression, eyesClosed }) =>
+    generateSvg(expression ? { ...config, expression } : config, size, {
+      shape,
+      cornerRadius,
+      clipBody,
+      eyesClosed,
+    }),
+  );
+  const render = async <T>(
+    rasterize: (svg: string, size: number, matte?: string) => Promise<T>,
+  ): Promise<T[]> => {
+    const rendered = new Map<string, T>();
+    const images: T[] = [];
+    for (const svg of svgs) {
+      let image = rendered.get(svg);
+      if (image === undefined) {
+        image = await rasterize(svg, size, matte);
+        rendered.set(svg, image);
+      }
+      images.push(image);
+    }
+    return images;
+  };
+
+  return format === "apng"
+    ? encodeApng(await render(rasterizeSvgToPng), delays, plays)
+    : encodeGif(await render(rasterizeSvg), delays, plays);
+}
+
+/**
+ * Downloads an animated GIF or APNG of the avatar.
+ * **Browser only** - triggers a file download. Call `initRasterizer` first.
+ *
+ * @param config - Partial avatar configuration (missing values use defaults)
+ * @param timeline - Frames in order, as for `generateAnimation`
+ * @param options - Format, size, number of plays, matte color and shape
+ * @param filename - Name for the downloaded file (default: `avatar.gif`, or
+ * `avatar.png` for APNG)
+ * @throws Error if called in a non-browser environment, or for the same
+ * reasons as `generateAnimation`
+ *
+ * @example
+ * ```ts
+ * import { downloadAnimation } from 'pinecone-avatars/rasterizer';
+ *
+ * await downloadAnimation(config, ['happy', 'laughing', 'happy'], {}, 'reaction.gif');
+ * ```
+ */
+export async function downloadAnimation(
+  config: Partial<AvatarConfig>,
+  timeline: readonly (ExpressionType | AnimationFrame)[],
+  options: GenerateAnimationOptions = {},
+  filename?: string,
+): Promise<void> {
+  if (typeof window === "undefined") {
+    throw new Error(
+      "downloadAnimation is only available in browser environment",
+    );
+  }
+
+  const { format } = resolveOptions(options);
+  const bytes = await generateAnimation(config, timeline, options);
+  const { mimeType, extension } = FORMATS[format];
+  const blob = new Blob([bytes as BlobPart], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename ?? `avatar.${extension}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
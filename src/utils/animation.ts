@@ -0,0 +1,159 @@
+import { SvgNode } from "./svg";
+
+/** Duration of the crossfade between two expressions, in milliseconds. */
+export const EXPRESSION_TRANSITION_MS = 300;
+
+/** Height of a shut eye relative to an open one. */
+const CLOSED_EYE_SCALE = 0.1;
+
+/**
+ * Rules for every animation class. The class and keyframe names are the
+ * same in every avatar, so the rules of several inlined avatars agree.
+ */
+const ANIMATION_CSS = [
+  ".avatar-blink{transform-box:fill-box;transform-origin:center;animation:avatar-blink 4s infinite}",
+  `@keyframes avatar-blink{0%,92%,100%{transform:scaleY(1)}95%{transform:scaleY(${CLOSED_EYE_SCALE})}}`,
+  ".avatar-talk{transform-box:fill-box;transform-origin:center top;animation:avatar-talk 0.45s ease-in-out infinite alternate}",
+  "@keyframes avatar-talk{to{transform:scaleY(0.4)}}",
+  ".avatar-breathe{transform-origin:237px 474px;animation:avatar-breathe 5s ease-in-out infinite}",
+  "@keyframes avatar-breathe{50%{transform:scale(1.015)}}",
+  `.avatar-enter{animation:avatar-fade ${EXPRESSION_TRANSITION_MS}ms ease-out}`,
+  `.avatar-leave{animation:avatar-fade ${EXPRESSION_TRANSITION_MS}ms ease-in reverse forwards}`,
+  "@keyframes avatar-fade{from{opacity:0}}",
+  "@media (prefers-reduced-motion:reduce){.avatar-blink,.avatar-talk,.avatar-breathe,.avatar-enter{animation:none}.avatar-leave{display:none}}",
+].join("");
+
+/**
+ * Returns the `<style>` element that drives the animation classes.
+ * @internal
+ */
+export function animationStyle(): SvgNode {
+  return { tag: "style", attrs: {}, children: [], text: ANIMATION_CSS };
+}
+
+/**
+ * Wraps nodes in a group with an animation class.
+ * @internal
+ */
+export function animatedGroup(className: string, children: SvgNode[]): SvgNode {
+  return { tag: "g", attrs: { class: className }, children };
+}
+
+/** Elements that only define paint servers, clip paths and masks. */
+const DEFINITION_TAGS = new Set(["defs", "clipPath", "mask", "filter"]);
+
+/** Top of the mouth area; eyes, brows and the nose lie above it. */
+const MOUTH_TOP = 265;
+
+/** The y coordinate an element starts drawing at, if it can be told. */
+function startY(node: SvgNode): number | undefined {
+  const { d, y } = node.attrs;
+  if (d !== undefined) {
+    const match = /^\s*M\s*-?[\d.]+[\s,]+(-?[\d.]+)/i.exec(d);
+    return match ? Number(match[1]) : undefined;
+  }
+  if (y !== undefined) return Number(y);
+  return node.tag === "g" && node.children.length > 0
+    ? startY(node.children[0])
+    : undefined;
+}
+
+function addClass(node: SvgNode, className: string): SvgNode {
+  const { class: existing } = node.attrs;
+  return {
+    ...node,
+    attrs: {
+      ...node.attrs,
+      class: existing ? `${existing} ${className}` : className,
+    },
+  };
+}
+
+function isMouth(node: SvgNode): boolean {
+  return (
+    // The artwork's mouths are paths, or groups that give them a shadow
+    (node.tag === "path" ||
+      (node.tag === "g" && node.attrs.filter !== undefined)) &&
+    node.attrs.opacity === undefined &&
+    (startY(node) ?? 0) >= MOUTH_TOP
+  );
+}
+
+/**
+ * Marks the eyes of an expression to blink and, when speaking, its mouth to
+ * talk. Eyes are the masked groups of the artwork; the mouth is the run of
+ * shapes (other than the round blush and nose) that start below the eyes,
+ * grouped so that its pieces move together.
+ * @internal
+ */
+export function markExpression(
+  nodes: readonly SvgNode[],
+  speaking: boolean,
+): SvgNode[] {
+  const result: SvgNode[] = [];
+  let mouth: SvgNode[] = [];
+  const endMouth = () => {
+    if (mouth.length > 0) result.push(animatedGroup("avatar-talk", mouth));
+    mouth = [];
+  };
+
+  for (const node of nodes) {
+    if (speaking && isMouth(node)) {
+      mouth.push(node);
+      continue;
+    }
+    endMouth();
+    if (DEFINITION_TAGS.has(node.tag)) {
+      result.push(node);
+    } else if (node.tag === "g" && node.attrs.mask !== undefined) {
+      result.push(addClass(node, "avatar-blink"));
+    } else if (node.tag === "g" && node.attrs.filter === undefined) {
+      // Groups that only clip the artwork are looked into
+      result.push({
+        ...node,
+        children: markExpression(node.children, speaking),
+      });
+    } else {
+      result.push(node);
+    }
+  }
+  endMouth();
+  return result;
+}
+
+/**
+ * Shuts the eyes of an expression, as in the middle of a blink. Each eye (a
+ * masked group) is squeezed about the middle of its mask, which bounds it.
+ * @internal
+ */
+export function closeEyes(nodes: readonly SvgNode[]): SvgNode[] {
+  const masks = new Map<string, SvgNode>();
+  const collect = (list: readonly SvgNode[]) => {
+    for (const node of list) {
+      if (node.tag === "mask" && node.attrs.id) {
+        masks.set(`url(#${node.attrs.id})`, node);
+      }
+      collect(node.children);
+    }
+  };
+  collect(nodes);
+
+  const close = (list: readonly SvgNode[]): SvgNode[] =>
+    list.map((node) => {
+      const mask = node.tag === "g" ? masks.get(node.attrs.mask) : undefined;
+      const middle = mask
+        ? Number(mask.attrs.y) + Number(mask.attrs.height) / 2
+        : NaN;
+      if (!Number.isFinite(middle)) {
+        return { ...node, children: close(node.children) };
+      }
+      return {
+        ...node,
+        attrs: {
+          ...node.attrs,
+          transform: `translate(0 ${middle}) scale(1 ${CLOSED_EYE_SCALE}) translate(0 ${-middle})`,
+        },
+      };
+    });
+  return close(nodes);
+}
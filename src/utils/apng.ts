@@ -0,0 +1,145 @@
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+function readChunks(png: Uint8Array): PngChunk[] {
+  if (PNG_SIGNATURE.some((byte, i) => png[i] !== byte)) {
+    throw new Error("Invalid PNG data");
+  }
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const chunks: PngChunk[] = [];
+  for (let offset = 8; offset + 8 <= png.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    chunks.push({
+      type,
+      data: png.subarray(offset + 8, offset + 8 + length),
+    });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(12 + data.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) bytes[4 + i] = type.charCodeAt(i);
+  bytes.set(data, 8);
+  view.setUint32(8 + data.length, crc32(bytes.subarray(4, 8 + data.length)));
+  return bytes;
+}
+
+/** Chunk data made of big-endian integers of the given byte widths. */
+function fields(...values: [number, 1 | 2 | 4][]): Uint8Array {
+  const bytes = new Uint8Array(values.reduce((sum, [, size]) => sum + size, 0));
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  for (const [value, size] of values) {
+    if (size === 1) view.setUint8(offset, value);
+    else if (size === 2) view.setUint16(offset, value);
+    else view.setUint32(offset, value);
+    offset += size;
+  }
+  return bytes;
+}
+
+/**
+ * Combines equally sized PNG images into an animated PNG. The image data is
+ * reused as compressed, so the frames are not decoded again.
+ *
+ * @param pngs - Frames as PNG file contents
+ * @param delays - How long each frame is shown, in hundredths of a second
+ * @param plays - How many times the animation plays; `0` repeats it forever
+ * @returns The APNG file contents
+ * @internal
+ */
+export function encodeApng(
+  pngs: readonly Uint8Array[],
+  delays: readonly number[],
+  plays: number,
+): Uint8Array {
+  const frames = pngs.map(readChunks);
+  const header = frames[0].find(({ type }) => type === "IHDR");
+  if (!header) {
+    throw new Error("Invalid PNG data");
+  }
+  const view = new DataView(
+    header.data.buffer,
+    header.data.byteOffset,
+    header.data.byteLength,
+  );
+  const width = view.getUint32(0);
+  const height = view.getUint32(4);
+
+  const parts: Uint8Array[] = [
+    new Uint8Array(PNG_SIGNATURE),
+    chunk("IHDR", header.data),
+    chunk("acTL", fields([frames.length, 4], [plays, 4])),
+  ];
+  let sequence = 0;
+  frames.forEach((chunks, frame) => {
+    // Every frame covers the whole image and replaces the previous one
+    parts.push(
+      chunk(
+        "fcTL",
+        fields(
+          [sequence++, 4],
+          [width, 4],
+          [height, 4],
+          [0, 4],
+          [0, 4],
+          [delays[frame], 2],
+          [100, 2],
+          [0, 1],
+          [0, 1],
+        ),
+      ),
+    );
+    for (const { type, data } of chunks) {
+      if (type !== "IDAT") continue;
+      if (frame === 0) {
+        parts.push(chunk("IDAT", data));
+      } else {
+        const frameData = new Uint8Array(4 + data.length);
+        new DataView(frameData.buffer).setUint32(0, sequence++);
+        frameData.set(data, 4);
+        parts.push(chunk("fdAT", frameData));
+      }
+    }
+  });
+  parts.push(chunk("IEND", new Uint8Array(0)));
+
+  const apng = new Uint8Array(
+    parts.reduce((sum, part) => sum + part.length, 0),
+  );
+  let offset = 0;
+  for (const part of parts) {
+    apng.set(part, offset);
+    offset += part.length;
+  }
+  return apng;
+}
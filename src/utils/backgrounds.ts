@@ -0,0 +1,126 @@
+import {
+  BackgroundColor,
+  BackgroundFill,
+  HexColor,
+  LinearGradientBackground,
+} from "../types";
+import { getPart } from "../components/svg/parts";
+import { isHexColor } from "./colors";
+import { hashString } from "./seed";
+import { mapSvgAttrs, SvgNode } from "./svg";
+
+const CIRCLE = { cx: "237", cy: "237", r: "237" };
+
+const node = (
+  tag: string,
+  attrs: Record<string, string>,
+  children: SvgNode[] = [],
+): SvgNode => ({ tag, attrs, children });
+
+/**
+ * Returns the paint of a named or custom background color, or `undefined`
+ * for an unknown name or a malformed color.
+ */
+function resolveBackgroundColor(
+  color: BackgroundColor | undefined,
+): string | undefined {
+  if (color === undefined) return undefined;
+  if (color.startsWith("#")) return isHexColor(color) ? color : undefined;
+  return getPart("background", color)?.[0]?.attrs.fill;
+}
+
+/**
+ * Points where a linear gradient starts and ends in the circle's bounding
+ * box, for a CSS-style angle.
+ */
+function gradientVector(angle: number): Record<string, string> {
+  const radians = (angle * Math.PI) / 180;
+  const dx = Math.sin(radians) / 2;
+  const dy = -Math.cos(radians) / 2;
+  const round = (value: number) => String(Math.round(value * 1000) / 1000);
+  return {
+    x1: round(0.5 - dx),
+    y1: round(0.5 - dy),
+    x2: round(0.5 + dx),
+    y2: round(0.5 + dy),
+  };
+}
+
+function gradientStops(colors: readonly BackgroundColor[]): SvgNode[] {
+  const paints = colors
+    .map(resolveBackgroundColor)
+    .filter((paint): paint is string => paint !== undefined);
+  return paints.map((paint, index) =>
+    node("stop", {
+      offset: String(
+        paints.length > 1
+          ? Math.round((index / (paints.length - 1)) * 1000) / 1000
+          : 0,
+      ),
+      "stop-color": paint,
+    }),
+  );
+}
+
+function linearGradient(id: string, fill: LinearGradientBackground): SvgNode {
+  const angle = Number.isFinite(fill.angle) ? (fill.angle as number) : 180;
+  return node(
+    "linearGradient",
+    { id, ...gradientVector(angle) },
+    gradientStops(fill.colors),
+  );
+}
+
+/** Paints every shape of a pattern in one opaque color. */
+function recolorPattern(nodes: SvgNode[], color: HexColor): SvgNode[] {
+  return mapSvgAttrs(nodes, ({ attrs }) => {
+    if (attrs.fill === undefined) return attrs;
+    const { "fill-opacity": _opacity, ...rest } = attrs;
+    return { ...rest, fill: color };
+  });
+}
+
+/**
+ * Returns the artwork of a gradient, pattern or transparent background.
+ * Gradient and pattern ids are derived from the background itself, so two
+ * exported SVGs with different backgrounds never share an id even without
+ * an `idPrefix`; the prefix still scopes them per instance.
+ * @internal
+ */
+export function getFillBackground(fill: BackgroundFill): SvgNode[] {
+  // Untyped callers can pass `undefined` or `null`: draw no background
+  if (typeof fill !== "object" || fill === null) return [];
+  const id = `background-${hashString(JSON.stringify(fill)).toString(36)}`;
+  const filled = (definition: SvgNode, base?: SvgNode) => [
+    node("defs", {}, [definition]),
+    ...(base ? [base] : []),
+    node("circle", { ...CIRCLE, fill: `url(#${id})` }),
+  ];
+
+  switch (fill.type) {
+    case "linear":
+      return filled(linearGradient(id, fill));
+    case "radial":
+      return filled(
+        node(
+          "radialGradient",
+          { id, cx: "0.5", cy: "0.5", r: "0.5" },
+          gradientStops(fill.colors),
+        ),
+      );
+    case "pattern": {
+      const [pattern] = getPart("backgroundPattern", fill.pattern) ?? [];
+      if (!pattern) return [];
+      const color = resolveBackgroundColor(fill.color ?? "babyBlue");
+      const shapes = isHexColor(fill.patternColor)
+        ? recolorPattern(pattern.children, fill.patternColor)
+        : pattern.children;
+      return filled(
+        node("pattern", { ...pattern.attrs, id }, shapes),
+        color ? node("circle", { ...CIRCLE, fill: color }) : undefined,
+      );
+    }
+    default:
+      return [];
+  }
+}
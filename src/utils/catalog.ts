@@ -0,0 +1,244 @@
+import {
+  AvatarConfig,
+  AvatarOptionMap,
+  CatalogEntry,
+  CatalogOptions,
+  CatalogPage,
+  CatalogVersion,
+} from "../types";
+import { accessoryCombinations } from "./accessories";
+import { OPTION_TABLE_V2, OptionTableV2 } from "./optionTables";
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/** Frozen option lists per catalog version. */
+const CATALOG_TABLES: Record<CatalogVersion, OptionTableV2> = {
+  1: OPTION_TABLE_V2,
+};
+
+/** Catalog order of the attributes; the last changes fastest. */
+const ATTRIBUTES = [
+  "background",
+  "skin",
+  "tshirt",
+  "expression",
+  "hair",
+  "hairColor",
+  "faceDetail",
+  "accessories",
+] as const satisfies readonly (keyof AvatarConfig)[];
+
+/** The values listed for each attribute. */
+type Dimensions = {
+  [K in (typeof ATTRIBUTES)[number]]: readonly AvatarConfig[K][];
+};
+
+/** Attributes chosen from the named options of a table. */
+type ListedCategory = keyof OptionTableV2 & keyof AvatarOptionMap;
+
+function listOptions<K extends ListedCategory>(
+  table: OptionTableV2,
+  category: K,
+  options: CatalogOptions,
+): AvatarConfig[K][] {
+  const locked = options.locked?.[category];
+  if (locked !== undefined) return [locked];
+
+  const known = table[category] as readonly AvatarOptionMap[K][];
+  const include: readonly AvatarOptionMap[K][] =
+    options.include?.[category] ?? known;
+  const exclude: readonly AvatarOptionMap[K][] =
+    options.exclude?.[category] ?? [];
+  return known.filter(
+    (option) => include.includes(option) && !exclude.includes(option),
+  );
+}
+
+function getDimensions(options: CatalogOptions): Dimensions {
+  const { locked = {}, version = 1 } = options;
+  const table = CATALOG_TABLES[version];
+  if (!table) {
+    throw new Error(`Unsupported catalog version: ${version}`);
+  }
+  const hairColor: AvatarConfig["hairColor"][] =
+    "hairColor" in locked
+      ? [locked.hairColor]
+      : [
+          // Each hairstyle's own color, unless the colors are allowed explicitly
+          ...(options.include?.hairColor ? [] : [undefined]),
+          ...listOptions(table, "hairColor", options),
+        ];
+  return {
+    background: listOptions(table, "background", options),
+    skin: listOptions(table, "skin", options),
+    tshirt: listOptions(table, "tshirt", options),
+    expression: listOptions(table, "expression", options),
+    hair: listOptions(table, "hair", options),
+    hairColor,
+    faceDetail: listOptions(table, "faceDetail", options),
+    accessories:
+      locked.accessories !== undefined
+        ? [locked.accessories]
+        : accessoryCombinations(
+            table.accessories.filter((accessory) =>
+              (options.accessories ?? table.accessories).includes(accessory),
+            ),
+          ),
+  };
+}
+
+function countDimensions(dimensions: Dimensions): number {
+  return ATTRIBUTES.reduce((total, key) => total * dimensions[key].length, 1);
+}
+
+/** Decodes a catalog index, whose digits are the attributes' positions. */
+function configAt(dimensions: Dimensions, index: number): AvatarConfig {
+  const positions = {} as Record<keyof Dimensions, number>;
+  let rest = index;
+  for (const key of [...ATTRIBUTES].reverse()) {
+    const { length } = dimensions[key];
+    positions[key] = rest % length;
+    rest = Math.floor(rest / length);
+  }
+
+  const hairColor = dimensions.hairColor[positions.hairColor];
+  const accessories = dimensions.accessories[positions.accessories];
+  return {
+    background: dimensions.background[positions.background],
+    skin: dimensions.skin[positions.skin],
+    tshirt: dimensions.tshirt[positions.tshirt],
+    expression: dimensions.expression[positions.expression],
+    hair: dimensions.hair[positions.hair],
+    ...(hairColor !== undefined && { hairColor }),
+    faceDetail: dimensions.faceDetail[positions.faceDetail],
+    ...(accessories && accessories.length > 0 && { accessories }),
+  };
+}
+
+/**
+ * Counts the configurations in the avatar catalog.
+ *
+ * @param options - Locks, allow-lists, deny-lists and allowed accessories
+ * @returns Number of configurations that `enumerateConfigs` lists
+ *
+ * @example
+ * ```ts
+ * import { countConfigs } from 'pinecone-avatars';
+ *
+ * countConfigs(); // every combination
+ * countConfigs({ accessories: [], locked: { hairColor: undefined } });
+ * ```
+ */
+export function countConfigs(options: CatalogOptions = {}): number {
+  return countDimensions(getDimensions(options));
+}
+
+/**
+ * Returns the configuration at an index of the avatar catalog.
+ *
+ * @param index - Position in the catalog, from 0
+ * @param options - The version and filters the index belongs to
+ * @returns The complete configuration
+ * @throws Error if the index is not an integer within the catalog
+ *
+ * @example
+ * ```ts
+ * import { getConfigAt } from 'pinecone-avatars';
+ *
+ * // A stable gallery URL per avatar, e.g. /gallery/1234
+ * const config = getConfigAt(Number(params.index), GALLERY_FILTERS);
+ * ```
+ */
+export function getConfigAt(
+  index: number,
+  options: CatalogOptions = {},
+): AvatarConfig {
+  const dimensions = getDimensions(options);
+  const total = countDimensions(dimensions);
+  if (!Number.isInteger(index) || index < 0 || index >= total) {
+    throw new Error(
+      `Invalid catalog index: ${index} (the catalog has ${total} configurations)`,
+    );
+  }
+  return configAt(dimensions, index);
+}
+
+/**
+ * Lists every configuration of the avatar catalog in index order, e.g. for
+ * exhaustive render tests. The configurations are created lazily, so a
+ * loop can stop at any point.
+ *
+ * @param options - Locks, allow-lists, deny-lists and allowed accessories
+ * @returns Iterator over the complete configurations
+ *
+ * @example
+ * ```ts
+ * import { enumerateConfigs, generateSvg } from 'pinecone-avatars';
+ *
+ * for (const config of enumerateConfigs({
+ *   include: { expression: ['happy'] },
+ *   accessories: [],
+ * })) {
+ *   expect(generateSvg(config)).toMatchSnapshot();
+ * }
+ * ```
+ */
+export function* enumerateConfigs(
+  options: CatalogOptions = {},
+): Generator<AvatarConfig, void, undefined> {
+  const dimensions = getDimensions(options);
+  const total = countDimensions(dimensions);
+  for (let index = 0; index < total; index++) {
+    yield configAt(dimensions, index);
+  }
+}
+
+/**
+ * Returns one page of the avatar catalog, each configuration paired with
+ * its index, e.g. to pre-generate a static gallery.
+ *
+ * @param page - Zero-based page number; pages past the end are empty
+ * @param pageSize - Configurations per page (default: 50)
+ * @param options - Locks, allow-lists, deny-lists and allowed accessories
+ * @returns The page's entries with the catalog's total and page count
+ * @throws Error if the page is not a non-negative integer or the page size
+ * is not a positive integer
+ *
+ * @example
+ * ```ts
+ * import { getCatalogPage } from 'pinecone-avatars';
+ *
+ * const { entries, pageCount } = getCatalogPage(0, 24, {
+ *   locked: { background: 'mintGreen' },
+ * });
+ * ```
+ */
+export function getCatalogPage(
+  page: number,
+  pageSize: number = DEFAULT_PAGE_SIZE,
+  options: CatalogOptions = {},
+): CatalogPage {
+  if (!Number.isInteger(page) || page < 0) {
+    throw new Error(`Invalid page: ${page} (expected a non-negative integer)`);
+  }
+  if (!Number.isInteger(pageSize) || pageSize <= 0) {
+    throw new Error(
+      `Invalid page size: ${pageSize} (expected a positive integer)`,
+    );
+  }
+
+  const dimensions = getDimensions(options);
+  const total = countDimensions(dimensions);
+  const entries: CatalogEntry[] = [];
+  const end = Math.min((page + 1) * pageSize, total);
+  for (let index = page * pageSize; index < end; index++) {
+    entries.push({ index, config: configAt(dimensions, index) });
+  }
+  return {
+    entries,
+    page,
+    pageSize,
+    total,
+    pageCount: Math.ceil(total / pageSize),
+  };
+}
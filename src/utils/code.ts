@@ -0,0 +1,435 @@
+import { AvatarCodeVersion, AvatarConfig, HexColor } from "../types";
+import { isHexColor } from "./colors";
+import {
+  OPTION_TABLE_V1,
+  OPTION_TABLE_V2,
+  OptionTable,
+  OptionTableV2,
+} from "./optionTables";
+import { getPluginCategories } from "./plugins";
+
+/** The newest share code version shipped by this release. */
+export const LATEST_CODE_VERSION: AvatarCodeVersion = 2;
+
+const ALPHABET =
+  "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+
+const BASE = BigInt(ALPHABET.length);
+
+const CATEGORIES = [
+  "background",
+  "skin",
+  "tshirt",
+  "expression",
+  "hair",
+] as const satisfies readonly (keyof OptionTable)[];
+
+/**
+ * Kinds of background in a version 2 code, in packing order.
+ * Never reorder; append new kinds at the end.
+ */
+const BACKGROUND_KINDS = [
+  "color",
+  "linear",
+  "radial",
+  "pattern",
+  "transparent",
+  "none",
+] as const;
+
+/** Number of `#rrggbb` colors. */
+const HEX_COLORS = 0x1000000;
+
+/** Most colors a gradient can have in a version 2 code. */
+const MAX_GRADIENT_COLORS = 8;
+
+function combinations(table: OptionTable): number {
+  return CATEGORIES.reduce((total, key) => total * table[key].length, 1);
+}
+
+function payloadLength(table: OptionTable): number {
+  let length = 1;
+  while (ALPHABET.length ** length < combinations(table)) length++;
+  return length;
+}
+
+function cannotEncode(key: string, value: unknown, version: number): never {
+  throw new Error(
+    `Cannot encode ${key} "${value}" in avatar code version ${version}`,
+  );
+}
+
+/** Packs the five original attributes into a fixed-length version 1 code. */
+function encodeV1(config: AvatarConfig): string {
+  const table = OPTION_TABLE_V1;
+  if (config.hairColor !== undefined) {
+    cannotEncode("hairColor", config.hairColor, 1);
+  }
+  if (config.faceDetail !== undefined && config.faceDetail !== "none") {
+    cannotEncode("faceDetail", config.faceDetail, 1);
+  }
+  if (config.accessories?.length) {
+    throw new Error("Cannot encode accessories in avatar code version 1");
+  }
+  const { background } = config;
+  if (typeof background !== "string") {
+    throw new Error(
+      `Cannot encode a ${background.type} background in avatar code version 1`,
+    );
+  }
+  const values = { ...config, background };
+
+  let index = 0;
+  for (const key of CATEGORIES) {
+    const options: readonly string[] = table[key];
+    const position = options.indexOf(values[key]);
+    if (position === -1) {
+      cannotEncode(key, values[key], 1);
+    }
+    index = index * options.length + position;
+  }
+
+  let payload = "";
+  for (let i = 0; i < payloadLength(table); i++) {
+    payload = ALPHABET[index % ALPHABET.length] + payload;
+    index = Math.floor(index / ALPHABET.length);
+  }
+  return payload;
+}
+
+function decodeV1(code: string): AvatarConfig {
+  const table = OPTION_TABLE_V1;
+  const payload = code.slice(1);
+  const expectedLength = payloadLength(table);
+  if (payload.length !== expectedLength) {
+    throw new Error(
+      `Invalid avatar code "${code}": expected ${expectedLength + 1} characters for version 1`,
+    );
+  }
+
+  let index = 0;
+  for (const char of payload) {
+    index = index * ALPHABET.length + ALPHABET.indexOf(char);
+  }
+  if (index >= combinations(table)) {
+    throw new Error(`Invalid avatar code "${code}": value out of range`);
+  }
+
+  const config: Partial<Record<keyof OptionTable, string>> = {};
+  for (const key of [...CATEGORIES].reverse()) {
+    const options = table[key];
+    config[key] = options[index % options.length];
+    index = Math.floor(index / options.length);
+  }
+  return config as AvatarConfig;
+}
+
+/**
+ * Packs every attribute into a version 2 code: a mixed-radix number whose
+ * digits are, least significant first, the background, skin, t-shirt,
+ * expression, hair, hair color, face detail and accessories. Optional
+ * attributes that are left out pack as zero, so the code only grows with
+ * what the config uses.
+ */
+function encodeV2(config: AvatarConfig): string {
+  const table = OPTION_TABLE_V2;
+  const digits: [digit: number, radix: number][] = [];
+  const put = (digit: number, radix: number) => digits.push([digit, radix]);
+
+  const putOption = (key: keyof OptionTableV2, value: string) => {
+    const options: readonly string[] = table[key];
+    const position = options.indexOf(value);
+    if (position === -1) {
+      cannotEncode(key, value, 2);
+    }
+    put(position, options.length);
+  };
+  const putHex = (value: HexColor) => {
+    const hex =
+      value.length === 4 ? value.replace(/[0-9a-f]/gi, "$&$&") : value;
+    put(parseInt(hex.slice(1), 16), HEX_COLORS);
+  };
+  const putColor = (key: "background" | "skin" | "tshirt", value: string) => {
+    if (isHexColor(value)) {
+      put(1, 2);
+      putHex(value);
+    } else {
+      put(0, 2);
+      putOption(key, value);
+    }
+  };
+
+  const { background } = config;
+  const putKind = (kind: (typeof BACKGROUND_KINDS)[number]) =>
+    put(BACKGROUND_KINDS.indexOf(kind), BACKGROUND_KINDS.length);
+  if (background === "none") {
+    putKind("none");
+  } else if (typeof background === "string") {
+    putKind("color");
+    putColor("background", background);
+  } else if (background.type === "linear" || background.type === "radial") {
+    putKind(background.type);
+    const { colors } = background;
+    if (colors.length < 2 || colors.length > MAX_GRADIENT_COLORS) {
+      throw new Error(
+        `Cannot encode a ${background.type} background with ${colors.length} colors in avatar code version 2`,
+      );
+    }
+    put(colors.length - 2, MAX_GRADIENT_COLORS - 1);
+    for (const color of colors) {
+      putColor("background", color);
+    }
+    if (background.type === "linear") {
+      // 0: the default angle, otherwise whole degrees plus one
+      const { angle } = background;
+      if (
+        angle !== undefined &&
+        !(Number.isInteger(angle) && angle >= 0 && angle < 360)
+      ) {
+        cannotEncode("background angle", angle, 2);
+      }
+      put(angle === undefined ? 0 : angle + 1, 361);
+    }
+  } else if (background.type === "pattern") {
+    putKind("pattern");
+    const { pattern, color, patternColor } = background;
+    putOption("backgroundPattern", pattern);
+    put(color === undefined ? 0 : 1, 2);
+    if (color !== undefined) {
+      putColor("background", color);
+    }
+    put(patternColor === undefined ? 0 : 1, 2);
+    if (patternColor !== undefined) {
+      if (!isHexColor(patternColor)) {
+        cannotEncode("background patternColor", patternColor, 2);
+      }
+      putHex(patternColor);
+    }
+  } else {
+    putKind("transparent");
+  }
+  putColor("skin", config.skin);
+  putColor("tshirt", config.tshirt);
+  putOption("expression", config.expression);
+  putOption("hair", config.hair);
+
+  // 0: the hairstyle's own color, 1: a named color, 2: a custom color
+  const { hairColor } = config;
+  if (hairColor === undefined) {
+    put(0, 3);
+  } else if (isHexColor(hairColor)) {
+    put(2, 3);
+    putHex(hairColor);
+  } else {
+    put(1, 3);
+    putOption("hairColor", hairColor);
+  }
+
+  // 0: left out, otherwise the option's position plus one
+  const { faceDetail } = config;
+  const faceDetails: readonly string[] = table.faceDetail;
+  if (faceDetail !== undefined && !faceDetails.includes(faceDetail)) {
+    cannotEncode("faceDetail", faceDetail, 2);
+  }
+  put(
+    faceDetail === undefined ? 0 : faceDetails.indexOf(faceDetail) + 1,
+    faceDetails.length + 1,
+  );
+
+  // One bit per accessory
+  let worn = 0;
+  for (const accessory of config.accessories ?? []) {
+    const position = table.accessories.indexOf(accessory);
+    if (position === -1) {
+      cannotEncode("accessory", accessory, 2);
+    }
+    worn |= 1 << position;
+  }
+  put(worn, 2 ** table.accessories.length);
+
+  let value = 0n;
+  for (const [digit, radix] of digits.reverse()) {
+    value = value * BigInt(radix) + BigInt(digit);
+  }
+  let payload = "";
+  do {
+    payload = ALPHABET[Number(value % BASE)] + payload;
+    value /= BASE;
+  } while (value > 0n);
+  return payload;
+}
+
+function decodeV2(code: string): AvatarConfig {
+  const table = OPTION_TABLE_V2;
+  const payload = code.slice(1);
+  if (payload.length === 0) {
+    throw new Error(
+      `Invalid avatar code "${code}": expected at least 2 characters for version 2`,
+    );
+  }
+  // Every value has exactly one code, so padding zeros are not accepted
+  if (payload.length > 1 && payload[0] === ALPHABET[0]) {
+    throw new Error(`Invalid avatar code "${code}": unexpected leading zero`);
+  }
+
+  let value = 0n;
+  for (const char of payload) {
+    value = value * BASE + BigInt(ALPHABET.indexOf(char));
+  }
+  const take = (radix: number): number => {
+    const digit = Number(value % BigInt(radix));
+    value /= BigInt(radix);
+    return digit;
+  };
+
+  const takeOption = <K extends keyof OptionTableV2>(
+    key: K,
+  ): OptionTableV2[K][number] => table[key][take(table[key].length)];
+  const takeHex = (): HexColor =>
+    `#${take(HEX_COLORS).toString(16).toUpperCase().padStart(6, "0")}`;
+  const takeColor = <K extends "background" | "skin" | "tshirt">(key: K) =>
+    take(2) === 1 ? takeHex() : takeOption(key);
+
+  const kind = BACKGROUND_KINDS[take(BACKGROUND_KINDS.length)];
+  let background: AvatarConfig["background"];
+  if (kind === "color") {
+    background = takeColor("background");
+  } else if (kind === "linear" || kind === "radial") {
+    const count = take(MAX_GRADIENT_COLORS - 1) + 2;
+    const colors = Array.from({ length: count }, () => takeColor("background"));
+    background = { type: kind, colors };
+    if (kind === "linear") {
+      const angle = take(361);
+      if (angle > 0) {
+        background = { type: kind, colors, angle: angle - 1 };
+      }
+    }
+  } else if (kind === "pattern") {
+    background = { type: kind, pattern: takeOption("backgroundPattern") };
+    if (take(2) === 1) {
+      background.color = takeColor("background");
+    }
+    if (take(2) === 1) {
+      background.patternColor = takeHex();
+    }
+  } else if (kind === "transparent") {
+    background = { type: kind };
+  } else {
+    background = kind;
+  }
+  const config: AvatarConfig = {
+    background,
+    skin: takeColor("skin"),
+    tshirt: takeColor("tshirt"),
+    expression: takeOption("expression"),
+    hair: takeOption("hair"),
+  };
+
+  const hairColor = take(3);
+  if (hairColor === 1) {
+    config.hairColor = takeOption("hairColor");
+  } else if (hairColor === 2) {
+    config.hairColor = takeHex();
+  }
+
+  const faceDetail = take(table.faceDetail.length + 1);
+  if (faceDetail > 0) {
+    config.faceDetail = table.faceDetail[faceDetail - 1];
+  }
+
+  const worn = take(2 ** table.accessories.length);
+  if (worn > 0) {
+    config.accessories = table.accessories.filter(
+      (_, position) => worn & (1 << position),
+    );
+  }
+
+  if (value > 0n) {
+    throw new Error(`Invalid avatar code "${code}": value out of range`);
+  }
+  return config;
+}
+
+/**
+ * Packs an avatar configuration into a short, URL-safe code such as `"24vK3"`.
+ * The first character is the code version; the rest is the base62-encoded
+ * index of each attribute within that version's frozen option lists, so
+ * codes stay decodable after new options are added to the library.
+ *
+ * Version 2 codes hold every attribute, including custom colors (which
+ * decode as uppercase `#RRGGBB`) and accessories (which decode in the
+ * library's order), and grow with the attributes in use.
+ * Version 1 codes always have 4 characters and only hold the five
+ * original attributes.
+ *
+ * @param config - Complete avatar configuration
+ * @param version - Code version to write (default: latest)
+ * @returns The avatar code
+ * @throws Error if a value cannot be represented in the code version, such
+ * as a plugin option, a gradient of more than 8 colors or at a fractional
+ * angle, or anything but a named color and the five original attributes in
+ * version 1
+ *
+ * @example
+ * ```ts
+ * import { encodeConfig, decodeConfig } from 'pinecone-avatars';
+ *
+ * const code = encodeConfig(config);
+ * history.replaceState(null, '', `?avatar=${code}`);
+ *
+ * const restored = decodeConfig(code);
+ * ```
+ */
+export function encodeConfig(
+  config: AvatarConfig,
+  version: AvatarCodeVersion = LATEST_CODE_VERSION,
+): string {
+  if (version !== 1 && version !== 2) {
+    throw new Error(`Unsupported avatar code version: ${version}`);
+  }
+  for (const { name } of getPluginCategories()) {
+    if (config[name] !== undefined) {
+      cannotEncode(name, config[name], version);
+    }
+  }
+  return (
+    ALPHABET[version] + (version === 1 ? encodeV1(config) : encodeV2(config))
+  );
+}
+
+/**
+ * Restores an avatar configuration from a code created by `encodeConfig`.
+ *
+ * @param code - The avatar code
+ * @returns The decoded AvatarConfig
+ * @throws Error describing why the code is malformed
+ *
+ * @example
+ * ```ts
+ * import { decodeConfig } from 'pinecone-avatars';
+ *
+ * const code = new URLSearchParams(location.search).get('avatar');
+ * const config = code ? decodeConfig(code) : defaultConfig;
+ * ```
+ */
+export function decodeConfig(code: string): AvatarConfig {
+  if (typeof code !== "string" || code.length === 0) {
+    throw new Error("Invalid avatar code: expected a non-empty string");
+  }
+
+  const version = ALPHABET.indexOf(code[0]);
+  if (version !== 1 && version !== 2) {
+    throw new Error(
+      `Unsupported avatar code version "${code[0]}" in "${code}"`,
+    );
+  }
+
+  for (const char of code.slice(1)) {
+    if (!ALPHABET.includes(char)) {
+      throw new Error(
+        `Invalid avatar code "${code}": unexpected character "${char}"`,
+      );
+    }
+  }
+  return version === 1 ? decodeV1(code) : decodeV2(code);
+}
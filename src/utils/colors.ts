@@ -0,0 +1,211 @@
+import { HairColorType, HexColor } from "../types";
+import { getPart } from "../components/svg/parts";
+import { SvgNode } from "./svg";
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * Checks whether a value is a custom color in `#rgb` or `#rrggbb` notation.
+ * @internal
+ */
+export function isHexColor(value: unknown): value is HexColor {
+  return typeof value === "string" && HEX_COLOR.test(value);
+}
+
+/** Attributes that can be given a custom color instead of a named option. */
+export type ColorableCategory = "background" | "skin" | "tshirt";
+
+/**
+ * The named option each custom color is drawn from, and the color in its
+ * artwork that is replaced by the custom one.
+ */
+const COLOR_TEMPLATES = {
+  background: { option: "babyBlue", color: "#B9E8FF" },
+  skin: { option: "mediumTan", color: "#C17D54" },
+  tshirt: { option: "orange", color: "#F58D3E" },
+} as const;
+
+function relativeLuminance(color: HexColor): number {
+  let hex = color.slice(1);
+  if (hex.length === 3) {
+    hex = hex.replace(/./g, "$&$&");
+  }
+  const [r, g, b] = [0, 2, 4].map((i) => {
+    const channel = parseInt(hex.slice(i, i + 2), 16) / 255;
+    return channel <= 0.04045
+      ? channel / 12.92
+      : ((channel + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * Opacity of the shadow on the ears for the built-in skin tones, from dark
+ * to light. Darker skin needs a stronger shadow to show.
+ */
+const SKIN_SHADE_STOPS = (
+  [
+    ["#8A5244", 0.2],
+    ["#C17D54", 0.1],
+    ["#FAD9C4", 0.05],
+  ] as const
+).map(([color, opacity]) => ({
+  luminance: relativeLuminance(color),
+  opacity,
+}));
+
+/**
+ * Interpolates the ear shadow's opacity for a custom skin tone between the
+ * built-in tones, so that their own colors give their own opacities.
+ */
+function skinShadeOpacity(color: HexColor): number {
+  const luminance = relativeLuminance(color);
+  const first = SKIN_SHADE_STOPS[0];
+  const last = SKIN_SHADE_STOPS[SKIN_SHADE_STOPS.length - 1];
+  if (luminance <= first.luminance) return first.opacity;
+  if (luminance >= last.luminance) return last.opacity;
+
+  for (let i = 1; i < SKIN_SHADE_STOPS.length; i++) {
+    const from = SKIN_SHADE_STOPS[i - 1];
+    const to = SKIN_SHADE_STOPS[i];
+    if (luminance <= to.luminance) {
+      const t = (luminance - from.luminance) / (to.luminance - from.luminance);
+      return (
+        Math.round((from.opacity + (to.opacity - from.opacity) * t) * 1000) /
+        1000
+      );
+    }
+  }
+  return last.opacity;
+}
+
+/** Subtrees that define clip paths and masks; their colors are not painted. */
+const DEFINITION_TAGS = new Set(["defs", "clipPath", "mask"]);
+
+/**
+ * Copies `nodes`, passing the attributes of every painted element through
+ * `recolor`. Clip paths, masks and other definitions are left untouched.
+ */
+function mapPaint(
+  nodes: SvgNode[],
+  recolor: (attrs: Record<string, string>) => Record<string, string>,
+): SvgNode[] {
+  return nodes.map((node) =>
+    DEFINITION_TAGS.has(node.tag)
+      ? node
+      : {
+          tag: node.tag,
+          attrs: recolor(node.attrs),
+          children: mapPaint(node.children, recolor),
+        },
+  );
+}
+
+function replaceColor(
+  attrs: Record<string, string>,
+  from: string,
+  to: string,
+): Record<string, string> {
+  const result = { ...attrs };
+  for (const name of ["fill", "stroke"]) {
+    if (result[name]?.toUpperCase() === from) {
+      result[name] = to;
+    }
+  }
+  return result;
+}
+
+/**
+ * Returns the artwork of a part drawn in a custom color: the template
+ * option's color is replaced throughout, and for skin the ear shadow is
+ * adjusted to the new tone.
+ * @internal
+ */
+export function getColoredPart(
+  category: ColorableCategory,
+  color: HexColor,
+): SvgNode[] {
+  const template = COLOR_TEMPLATES[category];
+  const nodes = getPart(category, template.option) ?? [];
+  const shadeOpacity =
+    category === "skin" ? String(skinShadeOpacity(color)) : undefined;
+
+  return mapPaint(nodes, (attrs) => {
+    const result = replaceColor(attrs, template.color, color);
+    if (shadeOpacity !== undefined && result["fill-opacity"] !== undefined) {
+      result["fill-opacity"] = shadeOpacity;
+    }
+    return result;
+  });
+}
+
+/** Paint used for each named hair color. */
+const HAIR_COLOR_VALUES: Record<HairColorType, HexColor> = {
+  black: "#000000",
+  darkBrown: "#3B2417",
+  brown: "#6B4226",
+  auburn: "#8D3A22",
+  red: "#B5381F",
+  blonde: "#E8C36A",
+  platinum: "#EDE3CF",
+  gray: "#8E8E8E",
+  silver: "#C9CDD2",
+  electricBlue: "#2F6FED",
+  bubblegumPink: "#F277B3",
+  lavender: "#A98BDB",
+};
+
+/**
+ * Returns the paint for a named or custom hair color, or `undefined` when
+ * the hairstyle keeps its own color.
+ * @internal
+ */
+export function resolveHairColor(
+  value: string | undefined,
+): HexColor | undefined {
+  if (isHexColor(value)) return value;
+  return value !== undefined &&
+    Object.prototype.hasOwnProperty.call(HAIR_COLOR_VALUES, value)
+    ? HAIR_COLOR_VALUES[value as HairColorType]
+    : undefined;
+}
+
+/** Whether a `fill` or `stroke` value paints a plain color. */
+function isColorPaint(value: string | undefined): value is string {
+  return value !== undefined && value !== "none" && !value.startsWith("url(");
+}
+
+/**
+ * Paints every strand of a hairstyle, highlights included, in one color.
+ * Translucent shadows that the style casts keep their own color.
+ * @internal
+ */
+export function recolorHair(nodes: SvgNode[], color: string): SvgNode[] {
+  return mapPaint(nodes, (attrs) => {
+    if (attrs.opacity !== undefined) return attrs;
+    const result = { ...attrs };
+    for (const name of ["fill", "stroke"]) {
+      if (isColorPaint(result[name])) {
+        result[name] = color;
+      }
+    }
+    return result;
+  });
+}
+
+/**
+ * Returns the color a hairstyle is drawn in, so that facial hair can match
+ * a style's own color.
+ * @internal
+ */
+export function getHairPaint(nodes: SvgNode[]): string | undefined {
+  for (const node of nodes) {
+    if (DEFINITION_TAGS.has(node.tag) || node.attrs.opacity !== undefined) {
+      continue;
+    }
+    if (isColorPaint(node.attrs.fill)) return node.attrs.fill;
+    const paint = getHairPaint(node.children);
+    if (paint) return paint;
+  }
+  return undefined;
+}
@@ -0,0 +1,385 @@
+import {
+  AvatarAnimationOptions,
+  AvatarColorSchemeOptions,
+  AvatarConfig,
+  AvatarShape,
+  AvatarShapeOptions,
+  FaceDetailType,
+  PluginLayer,
+} from "../types";
+import { getPart } from "../components/svg/parts";
+import {
+  ColorableCategory,
+  getColoredPart,
+  getHairPaint,
+  isHexColor,
+  recolorHair,
+  resolveHairColor,
+} from "./colors";
+import { AccessoryLayer, accessoriesInLayer } from "./accessories";
+import { getFillBackground } from "./backgrounds";
+import {
+  animatedGroup,
+  animationStyle,
+  closeEyes,
+  markExpression,
+} from "./animation";
+import { scopeSvgIds } from "./ids";
+import { getPluginParts } from "./plugins";
+import { applyTheme } from "./themes";
+import { SvgNode } from "./svg";
+
+/** The avatar's drawing coordinate system (`viewBox="0 0 474 474"`). */
+export const AVATAR_VIEWBOX = "0 0 474 474";
+
+const CANVAS = 474;
+const CENTER = CANVAS / 2;
+
+/** Share of the rendered size used as corner radius by the `rounded` shape. */
+const DEFAULT_CORNER_RATIO = 0.2;
+
+/** Width of the `outline` ring in pixels of the rendered size. */
+const RING_WIDTH = 2;
+
+/** Colors of the `outline: true` ring in each palette. */
+const RING_COLORS = { light: "#D4D8DD", dark: "#F2F2F2" } as const;
+
+/**
+ * Shows the palette that matches the viewer's color scheme. The class
+ * names are the same in every avatar, so the rules of several inlined
+ * avatars agree.
+ */
+const COLOR_SCHEME_CSS =
+  ".avatar-dark{display:none}@media (prefers-color-scheme:dark){.avatar-light{display:none}.avatar-dark{display:inline}}";
+
+/**
+ * Scales artwork drawn for the circle (such as the round backgrounds) about
+ * the center until it covers the corners of the square.
+ */
+const COVER_TRANSFORM = `translate(${CENTER} ${CENTER}) scale(1.415) translate(-${CENTER} -${CENTER})`;
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Superellipse `|x|⁴ + |y|⁴ = 1` inscribed in the canvas.
+ */
+const SQUIRCLE_PATH = (() => {
+  const steps = 96;
+  const commands: string[] = [];
+  for (let i = 0; i < steps; i++) {
+    const angle = (i / steps) * 2 * Math.PI;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const x = CENTER + CENTER * Math.sign(cos) * Math.sqrt(Math.abs(cos));
+    const y = CENTER + CENTER * Math.sign(sin) * Math.sqrt(Math.abs(sin));
+    commands.push(
+      `${i === 0 ? "M" : "L"}${formatNumber(x)} ${formatNumber(y)}`,
+    );
+  }
+  return `${commands.join("")}Z`;
+})();
+
+/**
+ * Returns the outline used as clip path for a shape, or `undefined` for
+ * `fullBleed`, which is not clipped.
+ */
+function shapeOutline(
+  shape: AvatarShape,
+  cornerRadius: number,
+): SvgNode | undefined {
+  const node = (tag: string, attrs: Record<string, string>): SvgNode => ({
+    tag,
+    attrs,
+    children: [],
+  });
+  const size = String(CANVAS);
+
+  switch (shape) {
+    case "fullBleed":
+      return undefined;
+    case "square":
+      return node("rect", { width: size, height: size });
+    case "rounded":
+      return node("rect", {
+        width: size,
+        height: size,
+        rx: formatNumber(cornerRadius),
+      });
+    case "squircle":
+      return node("path", { d: SQUIRCLE_PATH });
+    default:
+      return node("circle", {
+        cx: String(CENTER),
+        cy: String(CENTER),
+        r: String(CENTER),
+      });
+  }
+}
+
+/**
+ * Returns the artwork for a named option or a custom color.
+ */
+function colorablePart(category: ColorableCategory, value: string): SvgNode[] {
+  return isHexColor(value)
+    ? getColoredPart(category, value)
+    : (getPart(category, value) ?? []);
+}
+
+/** Face details drawn in the hair color. */
+const FACIAL_HAIR: ReadonlySet<string> = new Set<FaceDetailType>([
+  "stubble",
+  "mustache",
+  "goatee",
+  "fullBeard",
+]);
+
+/**
+ * Options for `composeAvatar`.
+ * @internal
+ */
+export interface ComposeOptions
+  extends AvatarShapeOptions, AvatarAnimationOptions, AvatarColorSchemeOptions {
+  /** Rendered size in pixels, used to convert `cornerRadius` */
+  size?: number;
+  /** Expression to crossfade from when animated */
+  previousExpression?: string;
+  /** Draws the expression with its eyes shut */
+  eyesClosed?: boolean;
+}
+
+/**
+ * Returns the `preserveAspectRatio` the root `<svg>` needs for a shape.
+ * A full-bleed avatar covers its box (cropping the overflow) instead of
+ * being letterboxed inside it.
+ * @internal
+ */
+export function getPreserveAspectRatio(
+  shape: AvatarShape | undefined,
+): string | undefined {
+  return shape === "fullBleed" ? "xMidYMid slice" : undefined;
+}
+
+/**
+ * Returns a ring along the inside of an outline: the outline stroked at
+ * twice the ring's width, clipped to itself.
+ */
+function outlineRing(
+  outline: SvgNode,
+  color: string,
+  width: number,
+): SvgNode[] {
+  return [
+    {
+      tag: "defs",
+      attrs: {},
+      children: [
+        {
+          tag: "clipPath",
+          attrs: { id: "avatarRingClip" },
+          children: [outline],
+        },
+      ],
+    },
+    {
+      tag: "g",
+      attrs: { "clip-path": "url(#avatarRingClip)" },
+      children: [
+        {
+          ...outline,
+          attrs: {
+            ...outline.attrs,
+            fill: "none",
+            stroke: color,
+            "stroke-width": formatNumber(width * 2),
+          },
+        },
+      ],
+    },
+  ];
+}
+
+/**
+ * Builds the contents of an avatar's root `<svg>` element.
+ * This is the single composition used by `<Avatar>` and `generateSvg`;
+ * unknown option keys and malformed colors contribute no artwork.
+ *
+ * @param config - Complete avatar configuration
+ * @param idPrefix - Prefix applied to every id in the output (may be empty)
+ * @param options - Shape of the avatar, whether it clips the character, its
+ * animation or shut eyes, and its color scheme
+ * @returns Nodes to place inside the root `<svg>`
+ * @internal
+ */
+export function composeAvatar(
+  config: AvatarConfig,
+  idPrefix: string,
+  options: ComposeOptions = {},
+): SvgNode[] {
+  const { animated = false, colorScheme = "light" } = options;
+  const style = animated ? [animationStyle()] : [];
+  const dark = () => composeScene(applyTheme(config, "dark"), "dark", options);
+  if (colorScheme !== "auto") {
+    return scopeSvgIds(
+      [
+        ...style,
+        ...(colorScheme === "dark"
+          ? dark()
+          : composeScene(config, "light", options)),
+      ],
+      idPrefix,
+    );
+  }
+
+  const nodes: SvgNode[] = [
+    ...style,
+    { tag: "style", attrs: {}, children: [], text: COLOR_SCHEME_CSS },
+    {
+      tag: "g",
+      attrs: { class: "avatar-light" },
+      children: composeScene(config, "light", options),
+    },
+    {
+      tag: "g",
+      attrs: { class: "avatar-dark" },
+      // Scoped apart so that the ids of both palettes stay unique
+      children: scopeSvgIds(dark(), "dark"),
+    },
+  ];
+  return scopeSvgIds(nodes, idPrefix);
+}
+
+/**
+ * Draws an avatar in one palette, without the animation style and with
+ * unscoped ids.
+ */
+function composeScene(
+  config: AvatarConfig,
+  palette: "light" | "dark",
+  options: ComposeOptions,
+): SvgNode[] {
+  const {
+    shape = "circle",
+    size = CANVAS,
+    clipBody = true,
+    animated = false,
+    speaking = false,
+    previousExpression,
+    eyesClosed = false,
+    outline: ring = false,
+  } = options;
+  const cornerRadius = Math.min(
+    Math.max(options.cornerRadius ?? size * DEFAULT_CORNER_RATIO, 0) *
+      (CANVAS / size),
+    CENTER,
+  );
+
+  const background =
+    config.background === "none"
+      ? []
+      : typeof config.background === "string"
+        ? colorablePart("background", config.background)
+        : getFillBackground(config.background);
+  const hair = getPart("hair", config.hair) ?? [];
+  const hairColor = resolveHairColor(config.hairColor);
+  const faceDetail = config.faceDetail ?? "none";
+  const faceDetailNodes = getPart("faceDetail", faceDetail) ?? [];
+  const beardColor = hairColor ?? getHairPaint(hair);
+  const openExpression = getPart("expression", config.expression) ?? [];
+  const expression = eyesClosed ? closeEyes(openExpression) : openExpression;
+  const leaving =
+    animated && previousExpression !== config.expression
+      ? getPart("expression", previousExpression ?? "")
+      : undefined;
+  const expressionLayer = !animated
+    ? expression
+    : leaving
+      ? [
+          // Scoped apart so that ids shared by both expressions stay unique
+          animatedGroup(
+            "avatar-leave",
+            scopeSvgIds(markExpression(leaving, false), "leave"),
+          ),
+          animatedGroup("avatar-enter", markExpression(expression, speaking)),
+        ]
+      : markExpression(expression, speaking);
+  const accessories = (layer: AccessoryLayer) =>
+    accessoriesInLayer(config.accessories, layer).flatMap(
+      (accessory) => getPart("accessory", accessory) ?? [],
+    );
+  const plugins = (layer: PluginLayer) => getPluginParts(config, layer);
+  const layers = [
+    ...plugins("behindCharacter"),
+    ...colorablePart("tshirt", config.tshirt),
+    ...colorablePart("skin", config.skin),
+    // Drawn under the expression so that every mouth stays visible
+    ...(FACIAL_HAIR.has(faceDetail) && beardColor
+      ? recolorHair(faceDetailNodes, beardColor)
+      : faceDetailNodes),
+    ...accessories("underHair"),
+    ...plugins("underHair"),
+    ...(hairColor ? recolorHair(hair, hairColor) : hair),
+    ...accessories("overHair"),
+    ...plugins("overHair"),
+    ...expressionLayer,
+    ...accessories("overFace"),
+    ...plugins("overFace"),
+  ];
+  const character = animated
+    ? [animatedGroup("avatar-breathe", layers)]
+    : layers;
+  const coveringBackground: SvgNode[] =
+    background.length === 0
+      ? []
+      : [
+          {
+            tag: "g",
+            attrs: { transform: COVER_TRANSFORM },
+            children: background,
+          },
+        ];
+
+  const outline = shapeOutline(shape, cornerRadius);
+  if (!outline) return [...coveringBackground, ...character];
+
+  const ringColor = ring === true ? RING_COLORS[palette] : ring;
+  const ringNodes =
+    ringColor && isHexColor(ringColor)
+      ? outlineRing(outline, ringColor, RING_WIDTH * (CANVAS / size))
+      : [];
+
+  const isCircle = outline.tag === "circle";
+  const clipped = [
+    ...(isCircle ? [] : coveringBackground),
+    ...(clipBody ? character : []),
+  ];
+  if (clipped.length === 0) {
+    // An unclipped character over a round background (or none at all)
+    return [...background, ...character, ...ringNodes];
+  }
+
+  return [
+    {
+      tag: "defs",
+      attrs: {},
+      children: [
+        {
+          tag: "clipPath",
+          attrs: { id: "avatarClip" },
+          children: [outline],
+        },
+      ],
+    },
+    // The round background already has the circle's outline
+    ...(isCircle ? background : []),
+    // Clipped content
+    {
+      tag: "g",
+      attrs: { "clip-path": "url(#avatarClip)" },
+      children: clipped,
+    },
+    ...(clipBody ? [] : character),
+    ...ringNodes,
+  ];
+}
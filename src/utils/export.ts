@@ -1,11 +1,23 @@
-import { AvatarConfig } from "../types";
-import { backgroundSvg } from "../components/svg/backgroundStrings";
-import { skinSvg } from "../components/svg/skinStrings";
-import { tshirtSvg } from "../components/svg/tshirtStrings";
-import { expressionSvg } from "../components/svg/expressionStrings";
-import { hairSvg } from "../components/svg/hairStrings";
-
-const defaultConfig: AvatarConfig = {
+import { AvatarConfig, GenerateSvgOptions } from "../types";
+import {
+  AVATAR_VIEWBOX,
+  composeAvatar,
+  getPreserveAspectRatio,
+} from "./compose";
+import { stringifySvg } from "./svg";
+import { applyTheme } from "./themes";
+import { toIdPrefix } from "./ids";
+
+/**
+ * Default avatar configuration used when no props are provided.
+ *
+ * @example
+ * ```tsx
+ * import { defaultConfig } from 'chipmunk-avatars';
+ * console.log(defaultConfig.background); // 'babyBlue'
+ * ```
+ */
+export const defaultConfig: AvatarConfig = {
   background: "babyBlue",
   skin: "softPeach",
   tshirt: "orange",
@@ -13,12 +25,26 @@ const defaultConfig: AvatarConfig = {
   hair: "shortBuzz",
 };
 
+/**
+ * Fills in the attributes missing from a partial configuration. Attributes
+ * set to `undefined` count as missing, as they do for `<Avatar>` props.
+ * @internal
+ */
+export function withDefaults(config: Partial<AvatarConfig>): AvatarConfig {
+  const defined = Object.fromEntries(
+    Object.entries(config).filter(([, value]) => value !== undefined),
+  );
+  return { ...defaultConfig, ...defined };
+}
+
 /**
  * Generates the complete SVG markup string for an avatar.
  * Works in both browser and Node.js environments.
  *
  * @param config - Partial avatar configuration (missing values use defaults)
  * @param size - Width and height of the SVG in pixels (default: 474)
+ * @param options - Additional output options such as `idPrefix`, `shape`,
+ * `animated`, `theme` and `colorScheme`
  * @returns Complete SVG markup as a string
  *
  * @example
@@ -27,21 +53,73 @@ const defaultConfig: AvatarConfig = {
  *
  * const svg = generateSvg({ background: 'mintGreen', expression: 'happy' });
  * document.getElementById('container').innerHTML = svg;
+ *
+ * // Team colors
+ * const branded = generateSvg({ tshirt: '#0B3D91', hairColor: '#B5651D' });
+ *
+ * // Only the character, for compositing
+ * const cutout = generateSvg({ background: 'none' }, 474, { clipBody: false });
+ *
+ * // Blinking avatar with a talking mouth, as a self-contained file
+ * const talking = generateSvg(config, 128, { animated: true, speaking: true });
+ *
+ * // Rounded square with 24px corners
+ * const tile = generateSvg(config, 96, { shape: 'rounded', cornerRadius: 24 });
+ *
+ * // In the tenant's palette
+ * const themed = generateSvg(config, 96, { theme: tenant.avatarTheme });
+ *
+ * // Follows the viewer's light or dark mode wherever the file is shown
+ * const adaptive = generateSvg(config, 96, { colorScheme: 'auto', outline: true });
+ *
+ * // Several avatars inlined into one page need distinct ids
+ * list.innerHTML = users
+ *   .map((user) => generateSvg(user.avatar, 48, { idPrefix: user.id }))
+ *   .join('');
  * ```
  */
 export function generateSvg(
   config: Partial<AvatarConfig> = {},
   size: number = 474,
+  options: GenerateSvgOptions = {},
 ): string {
-  const merged = { ...defaultConfig, ...config };
+  const {
+    idPrefix: prefix = "",
+    shape,
+    cornerRadius,
+    clipBody,
+    animated,
+    speaking,
+    eyesClosed,
+    theme,
+    colorScheme,
+    outline,
+  } = options;
+  const idPrefix = toIdPrefix(prefix);
+  const complete = withDefaults(config);
+  const content = stringifySvg(
+    composeAvatar(
+      theme === undefined ? complete : applyTheme(complete, theme),
+      idPrefix,
+      {
+        shape,
+        cornerRadius,
+        clipBody,
+        animated,
+        speaking,
+        eyesClosed,
+        colorScheme,
+        outline,
+        size,
+      },
+    ),
+  );
+  const preserveAspectRatio = getPreserveAspectRatio(shape);
+  const aspect = preserveAspectRatio
+    ? ` preserveAspectRatio="${preserveAspectRatio}"`
+    : "";
 
-  const background = backgroundSvg[merged.background] || "";
-  const tshirt = tshirtSvg[merged.tshirt] || "";
-  const skin = skinSvg[merged.skin] || "";
-  const hair = hairSvg[merged.hair] || "";
-  const expression = expressionSvg[merged.expression] || "";
-
-  return `<svg width="${size}" height="${size}" viewBox="0 0 474 474" fill="none" xmlns="http://www.w3.org/2000/svg"><defs><clipPath id="avatarClip"><circle cx="237" cy="237" r="237"/></clipPath></defs>${background}<g clip-path="url(#avatarClip)">${tshirt}${skin}${hair}${expression}</g></svg>`;
+  return `<svg width="${size}" height="${size}" viewBox="${AVATAR_VIEWBOX}"${aspect} fill="none" xmlns="http://www.w3.org/2000/svg">${content}</svg>`;
 }
 
 /**
@@ -64,6 +142,7 @@ function toBase64(str: string): string {
  *
  * @param config - Partial avatar configuration (missing values use defaults)
  * @param size - Width and height of the SVG in pixels (default: 474)
+ * @param options - Additional output options, as for `generateSvg`
  * @returns Base64 data URL string (e.g., `data:image/svg+xml;base64,...`)
  *
  * @example
@@ -78,8 +157,9 @@ function toBase64(str: string): string {
 export function generateBase64(
   config: Partial<AvatarConfig> = {},
   size: number = 474,
+  options: GenerateSvgOptions = {},
 ): string {
-  const svg = generateSvg(config, size);
+  const svg = generateSvg(config, size, options);
   return `data:image/svg+xml;base64,${toBase64(svg)}`;
 }
 
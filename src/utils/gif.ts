@@ -0,0 +1,294 @@
+import { RasterImage } from "./rasterize";
+
+/** Pixels with less alpha are written as transparent. */
+const ALPHA_THRESHOLD = 128;
+
+const PALETTE_SIZE = 256;
+const MAX_LZW_CODES = 4096;
+
+/**
+ * Colors are counted at 5 bits per channel, which keeps the histogram small
+ * while the flat colors of the artwork still land in buckets of their own.
+ */
+function colorKey(r: number, g: number, b: number): number {
+  return ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+}
+
+/** Straight (non-premultiplied) color of an opaque-enough pixel. */
+function readColor(
+  pixels: Uint8Array,
+  offset: number,
+): [number, number, number] {
+  const alpha = pixels[offset + 3];
+  const unpremultiply = (value: number) =>
+    alpha === 255 ? value : Math.min(255, Math.round((value * 255) / alpha));
+  return [
+    unpremultiply(pixels[offset]),
+    unpremultiply(pixels[offset + 1]),
+    unpremultiply(pixels[offset + 2]),
+  ];
+}
+
+interface ColorBucket {
+  key: number;
+  count: number;
+  /** Sums of the exact channel values of the pixels in the bucket */
+  sums: [number, number, number];
+}
+
+function channelOf(bucket: ColorBucket, channel: number): number {
+  return (bucket.key >> (10 - channel * 5)) & 31;
+}
+
+function channelRange(box: ColorBucket[], channel: number): number {
+  let min = 31;
+  let max = 0;
+  for (const bucket of box) {
+    const value = channelOf(bucket, channel);
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+  return max - min;
+}
+
+/**
+ * Picks up to `maxColors` colors for the pixels with median cut: the box
+ * of colors that spans the widest range is split at its median until there
+ * are enough boxes, and each box contributes its average color.
+ */
+function buildPalette(
+  images: readonly RasterImage[],
+  maxColors: number,
+): [number, number, number][] {
+  const buckets = new Map<number, ColorBucket>();
+  for (const { pixels } of images) {
+    for (let offset = 0; offset < pixels.length; offset += 4) {
+      if (pixels[offset + 3] < ALPHA_THRESHOLD) continue;
+      const color = readColor(pixels, offset);
+      const key = colorKey(...color);
+      const bucket = buckets.get(key);
+      if (bucket) {
+        bucket.count++;
+        color.forEach((value, channel) => (bucket.sums[channel] += value));
+      } else {
+        buckets.set(key, { key, count: 1, sums: color });
+      }
+    }
+  }
+
+  const boxes: ColorBucket[][] =
+    buckets.size > 0 ? [Array.from(buckets.values())] : [];
+  while (boxes.length < maxColors) {
+    let widest = -1;
+    let widestRange = 0;
+    let widestChannel = 0;
+    boxes.forEach((box, index) => {
+      for (let channel = 0; channel < 3; channel++) {
+        const range = channelRange(box, channel);
+        if (range > widestRange) {
+          widest = index;
+          widestRange = range;
+          widestChannel = channel;
+        }
+      }
+    });
+    if (widest < 0) break;
+
+    const box = boxes[widest].sort(
+      (a, b) => channelOf(a, widestChannel) - channelOf(b, widestChannel),
+    );
+    const total = box.reduce((sum, bucket) => sum + bucket.count, 0);
+    let seen = 0;
+    let split = 1;
+    while (split < box.length - 1 && seen + box[split - 1].count < total / 2) {
+      seen += box[split - 1].count;
+      split++;
+    }
+    boxes.splice(widest, 1, box.slice(0, split), box.slice(split));
+  }
+
+  return boxes.map((box) => {
+    const count = box.reduce((sum, bucket) => sum + bucket.count, 0);
+    return [0, 1, 2].map((channel) =>
+      Math.round(
+        box.reduce((sum, bucket) => sum + bucket.sums[channel], 0) / count,
+      ),
+    ) as [number, number, number];
+  });
+}
+
+function nearestColor(
+  palette: readonly [number, number, number][],
+  [r, g, b]: [number, number, number],
+): number {
+  let nearest = 0;
+  let nearestDistance = Infinity;
+  palette.forEach(([pr, pg, pb], index) => {
+    const distance = (r - pr) ** 2 + (g - pg) ** 2 + (b - pb) ** 2;
+    if (distance < nearestDistance) {
+      nearest = index;
+      nearestDistance = distance;
+    }
+  });
+  return nearest;
+}
+
+/**
+ * Compresses palette indices with GIF's variable-length LZW, starting at
+ * 9-bit codes for the 8-bit palette.
+ */
+function compressLzw(indices: Uint8Array): number[] {
+  const minCodeSize = 8;
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const bytes: number[] = [];
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+  let buffer = 0;
+  let bufferedBits = 0;
+
+  const write = (code: number) => {
+    buffer |= code << bufferedBits;
+    bufferedBits += codeSize;
+    while (bufferedBits >= 8) {
+      bytes.push(buffer & 0xff);
+      buffer >>>= 8;
+      bufferedBits -= 8;
+    }
+  };
+
+  write(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const index = indices[i];
+    const key = (prefix << 8) | index;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    write(prefix);
+    if (nextCode === MAX_LZW_CODES) {
+      // The table is full: start over with a fresh one
+      write(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = index;
+  }
+  write(prefix);
+  write(endCode);
+  if (bufferedBits > 0) bytes.push(buffer & 0xff);
+  return bytes;
+}
+
+class ByteWriter {
+  readonly bytes: number[] = [];
+
+  push(...values: number[]): void {
+    for (const value of values) this.bytes.push(value);
+  }
+
+  ascii(text: string): void {
+    for (let i = 0; i < text.length; i++) this.bytes.push(text.charCodeAt(i));
+  }
+
+  uint16(value: number): void {
+    this.bytes.push(value & 0xff, (value >> 8) & 0xff);
+  }
+
+  /** Writes data as GIF sub-blocks of up to 255 bytes. */
+  blocks(data: readonly number[]): void {
+    for (let offset = 0; offset < data.length; offset += 255) {
+      const block = data.slice(offset, offset + 255);
+      this.bytes.push(block.length);
+      this.push(...block);
+    }
+    this.bytes.push(0);
+  }
+}
+
+/**
+ * Encodes equally sized images as the frames of an animated GIF. All frames
+ * share one palette; pixels that are mostly transparent become transparent.
+ *
+ * @param images - Frames as premultiplied RGBA pixels
+ * @param delays - How long each frame is shown, in hundredths of a second
+ * @param plays - How many times the animation plays; `0` repeats it forever
+ * @returns The GIF file contents
+ * @internal
+ */
+export function encodeGif(
+  images: readonly RasterImage[],
+  delays: readonly number[],
+  plays: number,
+): Uint8Array {
+  const { width, height } = images[0];
+  const transparent = images.some(({ pixels }) =>
+    pixels.some((value, i) => i % 4 === 3 && value < ALPHA_THRESHOLD),
+  );
+  const palette = buildPalette(
+    images,
+    transparent ? PALETTE_SIZE - 1 : PALETTE_SIZE,
+  );
+  const transparentIndex = palette.length;
+  const lookup = new Map<number, number>();
+
+  const out = new ByteWriter();
+  out.ascii("GIF89a");
+  out.uint16(width);
+  out.uint16(height);
+  // Global color table of 256 entries, 8 bits per channel
+  out.push(0xf7, 0, 0);
+  for (let i = 0; i < PALETTE_SIZE; i++) {
+    out.push(...(palette[i] ?? [0, 0, 0]));
+  }
+  if (plays !== 1) {
+    // The loop count counts repetitions after the first play
+    out.push(0x21, 0xff, 11);
+    out.ascii("NETSCAPE2.0");
+    out.push(3, 1);
+    out.uint16(plays === 0 ? 0 : plays - 1);
+    out.push(0);
+  }
+
+  images.forEach(({ pixels }, frame) => {
+    const indices = new Uint8Array(width * height);
+    for (let i = 0; i < indices.length; i++) {
+      const offset = i * 4;
+      if (pixels[offset + 3] < ALPHA_THRESHOLD) {
+        indices[i] = transparentIndex;
+        continue;
+      }
+      const color = readColor(pixels, offset);
+      const key = colorKey(...color);
+      let index = lookup.get(key);
+      if (index === undefined) {
+        index = nearestColor(palette, color);
+        lookup.set(key, index);
+      }
+      indices[i] = index;
+    }
+
+    // Graphic control: each frame replaces the previous one entirely, so
+    // transparent frames clear their area before the next is drawn
+    out.push(0x21, 0xf9, 4, transparent ? (2 << 2) | 1 : 1 << 2);
+    out.uint16(delays[frame]);
+    out.push(transparent ? transparentIndex : 0, 0);
+    out.push(0x2c);
+    out.uint16(0);
+    out.uint16(0);
+    out.uint16(width);
+    out.uint16(height);
+    out.push(0, 8);
+    out.blocks(compressLzw(indices));
+  });
+
+  out.push(0x3b);
+  return new Uint8Array(out.bytes);
+}
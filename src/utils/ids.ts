@@ -0,0 +1,46 @@
+import { mapSvgAttrs, SvgNode } from "./svg";
+
+const URL_REFERENCE = /url\(#([^)]+)\)/g;
+
+/**
+ * Turns an arbitrary string (such as the value returned by React's `useId`)
+ * into a prefix that is safe to use inside SVG ids and `url(#…)` references.
+ * @internal
+ */
+export function toIdPrefix(value: string): string {
+  return value.replace(/[^A-Za-z0-9_-]/g, "");
+}
+
+/**
+ * Returns the scoped form of an SVG id.
+ * An empty prefix leaves the id unchanged.
+ * @internal
+ */
+export function scopeId(id: string, prefix: string): string {
+  return prefix ? `${prefix}-${id}` : id;
+}
+
+/**
+ * Prefixes every `id` attribute and every `url(#…)` / `#…` reference in an
+ * SVG node tree.
+ * @internal
+ */
+export function scopeSvgIds(nodes: SvgNode[], prefix: string): SvgNode[] {
+  if (!prefix) return nodes;
+  return mapSvgAttrs(nodes, ({ attrs }) => {
+    const scoped: Record<string, string> = {};
+    for (const [name, value] of Object.entries(attrs)) {
+      if (name === "id") {
+        scoped[name] = scopeId(value, prefix);
+      } else if ((name === "href" || name === "xlink:href") && value.startsWith("#")) {
+        scoped[name] = `#${scopeId(value.slice(1), prefix)}`;
+      } else {
+        scoped[name] = value.replace(
+          URL_REFERENCE,
+          (_, id: string) => `url(#${scopeId(id, prefix)})`,
+        );
+      }
+    }
+    return scoped;
+  });
+}
@@ -0,0 +1,256 @@
+import {
+  AvatarConfig,
+  AvatarShapeOptions,
+  GenerateImageOptions,
+  ImageFormat,
+} from "../types";
+import { generateBase64, generateSvg } from "./export";
+
+const FORMATS: Record<
+  ImageFormat,
+  { mimeType: string; label: string; extension: string }
+> = {
+  png: { mimeType: "image/png", label: "PNG", extension: "png" },
+  jpeg: { mimeType: "image/jpeg", label: "JPEG", extension: "jpg" },
+  webp: { mimeType: "image/webp", label: "WebP", extension: "webp" },
+  avif: { mimeType: "image/avif", label: "AVIF", extension: "avif" },
+};
+
+const DEFAULT_JPEG_MATTE = "#ffffff";
+
+function getFormat(format: ImageFormat) {
+  if (!Object.prototype.hasOwnProperty.call(FORMATS, format)) {
+    throw new Error(`Unsupported image format: ${format}`);
+  }
+  return FORMATS[format];
+}
+
+function unsupportedError(format: ImageFormat): Error {
+  const { label } = FORMATS[format];
+  return typeof window === "undefined"
+    ? new Error(
+        `${label} encoding is not available in this runtime; only "png" can be generated outside the browser`,
+      )
+    : new Error(`This browser cannot encode ${label} images`);
+}
+
+/**
+ * Canvas silently falls back to PNG for types it cannot encode, so support
+ * is detected by checking the type of a tiny encoded image.
+ */
+function canvasCanEncode(format: ImageFormat): boolean {
+  const { mimeType } = FORMATS[format];
+  const canvas = document.createElement("canvas");
+  canvas.width = 1;
+  canvas.height = 1;
+  return canvas.toDataURL(mimeType).startsWith(`data:${mimeType}`);
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load SVG image"));
+    img.src = src;
+  });
+}
+
+interface ResolvedImageOptions {
+  format: ImageFormat;
+  size: number;
+  quality: number | undefined;
+  matte: string | undefined;
+  shapeOptions: AvatarShapeOptions;
+}
+
+function resolveOptions(options: GenerateImageOptions): ResolvedImageOptions {
+  const {
+    format = "png",
+    size = 474,
+    quality,
+    shape,
+    cornerRadius,
+    clipBody,
+  } = options;
+  getFormat(format);
+  if (!Number.isInteger(size) || size <= 0) {
+    throw new Error(`Invalid size: ${size} (expected a positive integer)`);
+  }
+  if (quality !== undefined && !(quality >= 0 && quality <= 1)) {
+    throw new Error(`Invalid quality: ${quality} (expected 0 to 1)`);
+  }
+  const matte =
+    options.matte ?? (format === "jpeg" ? DEFAULT_JPEG_MATTE : undefined);
+  return {
+    format,
+    size,
+    quality,
+    matte,
+    shapeOptions: { shape, cornerRadius, clipBody },
+  };
+}
+
+async function encodeWithCanvas(
+  config: Partial<AvatarConfig>,
+  { format, size, quality, matte, shapeOptions }: ResolvedImageOptions,
+): Promise<Blob> {
+  const { mimeType } = FORMATS[format];
+  if (!canvasCanEncode(format)) {
+    throw unsupportedError(format);
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("Could not get canvas context");
+  }
+
+  const img = await loadImage(generateBase64(config, size, shapeOptions));
+  if (matte) {
+    ctx.fillStyle = matte;
+    ctx.fillRect(0, 0, size, size);
+  }
+  ctx.drawImage(img, 0, 0, size, size);
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, mimeType, quality),
+  );
+  if (!blob || blob.type !== mimeType) {
+    throw unsupportedError(format);
+  }
+  return blob;
+}
+
+/**
+ * Reports whether the current runtime can encode `format`.
+ * In the browser this depends on the canvas encoders; in Node.js only
+ * `png` is available, from the `generateImage` of
+ * `pinecone-avatars/rasterizer`.
+ *
+ * @param format - Image format to check
+ * @returns Promise resolving to `true` if `generateImage` supports the format here
+ *
+ * @example
+ * ```ts
+ * import { isImageFormatSupported } from 'pinecone-avatars';
+ *
+ * const format = (await isImageFormatSupported('webp')) ? 'webp' : 'png';
+ * ```
+ */
+export async function isImageFormatSupported(
+  format: ImageFormat,
+): Promise<boolean> {
+  getFormat(format);
+  if (typeof window === "undefined") {
+    return format === "png";
+  }
+  return canvasCanEncode(format);
+}
+
+/**
+ * Rasterizes SVG markup to PNG outside the browser.
+ * @internal
+ */
+export type PngRasterizer = (
+  svg: string,
+  size: number,
+  matte?: string,
+) => Promise<Uint8Array>;
+
+/**
+ * Encodes an avatar with the Canvas API in the browser, or with
+ * `rasterizePng` (PNG only) elsewhere.
+ * @internal
+ */
+export async function encodeImage(
+  config: Partial<AvatarConfig>,
+  options: GenerateImageOptions,
+  rasterizePng?: PngRasterizer,
+): Promise<Uint8Array> {
+  const resolved = resolveOptions(options);
+  const { format, size, matte, shapeOptions } = resolved;
+
+  if (typeof window === "undefined") {
+    if (format !== "png") {
+      throw unsupportedError(format);
+    }
+    if (!rasterizePng) {
+      throw new Error(
+        'PNG encoding outside the browser needs @resvg/resvg-wasm: import generateImage from "pinecone-avatars/rasterizer" instead',
+      );
+    }
+    return rasterizePng(generateSvg(config, size, shapeOptions), size, matte);
+  }
+  const blob = await encodeWithCanvas(config, resolved);
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+/**
+ * Generates a raster image of an avatar in the requested format.
+ * **Browser only** - uses the Canvas API. To generate PNGs in Node.js, use
+ * the `generateImage` of `pinecone-avatars/rasterizer`, which takes the
+ * same arguments.
+ *
+ * @param config - Partial avatar configuration (missing values use defaults)
+ * @param options - Format, size, quality, matte color and shape
+ * @returns Promise resolving to the encoded file contents
+ * @throws Error if called outside the browser, the format is unknown, the
+ * browser cannot encode it, or the size or quality is out of range
+ *
+ * @example
+ * ```ts
+ * import { generateImage } from 'pinecone-avatars';
+ *
+ * const webp = await generateImage(config, { format: 'webp', size: 256, quality: 0.8 });
+ *
+ * // JPEG has no transparency: the corners are filled with the matte color
+ * const jpeg = await generateImage(config, { format: 'jpeg', matte: '#0f172a' });
+ * ```
+ */
+export async function generateImage(
+  config: Partial<AvatarConfig> = {},
+  options: GenerateImageOptions = {},
+): Promise<Uint8Array> {
+  return encodeImage(config, options);
+}
+
+/**
+ * Downloads the avatar as an image file in the requested format.
+ * **Browser only** - uses Canvas API and triggers a file download.
+ *
+ * @param config - Partial avatar configuration (missing values use defaults)
+ * @param options - Format, size, quality, matte color and shape
+ * @param filename - Name for the downloaded file (default: `avatar.<ext>`)
+ * @throws Error if called in a non-browser environment or the browser
+ * cannot encode the format
+ *
+ * @example
+ * ```ts
+ * import { downloadImage } from 'pinecone-avatars';
+ *
+ * await downloadImage(config, { format: 'jpeg', quality: 0.9 }, 'me.jpg');
+ * ```
+ */
+export async function downloadImage(
+  config: Partial<AvatarConfig> = {},
+  options: GenerateImageOptions = {},
+  filename?: string,
+): Promise<void> {
+  if (typeof window === "undefined") {
+    throw new Error("downloadImage is only available in browser environment");
+  }
+
+  const resolved = resolveOptions(options);
+  const blob = await encodeWithCanvas(config, resolved);
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename ?? `avatar.${FORMATS[resolved.format].extension}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,147 @@
+import {
+  AccessoryType,
+  BackgroundPatternType,
+  BackgroundType,
+  ExpressionType,
+  FaceDetailType,
+  HairColorType,
+  HairType,
+  SkinType,
+  TshirtType,
+} from "../types";
+
+/**
+ * Option lists frozen at a point in time.
+ * Versioned formats (seeds, share codes) index into these instead of the
+ * live `BACKGROUNDS`, `HAIRS` etc. arrays, which grow between releases.
+ */
+export interface OptionTable {
+  background: readonly BackgroundType[];
+  skin: readonly SkinType[];
+  tshirt: readonly TshirtType[];
+  expression: readonly ExpressionType[];
+  hair: readonly HairType[];
+}
+
+/**
+ * The options as of seed version 1 and share code version 1.
+ * Never edit a published table; add a new one instead.
+ */
+export const OPTION_TABLE_V1: OptionTable = {
+  background: [
+    "babyBlue",
+    "coralRed",
+    "darkGray",
+    "lightGray",
+    "mintGreen",
+    "pastelGreen",
+    "peach",
+    "softPink",
+  ],
+  skin: ["deepBrown", "lightCream", "mediumTan", "softPeach", "warmBrown"],
+  tshirt: [
+    "amber",
+    "blue",
+    "charcoal",
+    "green",
+    "orange",
+    "pink",
+    "raspberry",
+    "white",
+    "yellow",
+  ],
+  expression: [
+    "angry",
+    "focused",
+    "furious",
+    "happy",
+    "laughing",
+    "sad",
+    "shocked",
+    "sideGlance",
+    "sleepy",
+    "starry",
+    "suspicious",
+    "tired",
+    "worried",
+  ],
+  hair: [
+    "afroPuffs",
+    "asymmetricBuns",
+    "bob",
+    "bobSidePart",
+    "bowlCut",
+    "braids",
+    "bunnyEars",
+    "curlyHeadband",
+    "curlyMessy",
+    "curlyPigtails",
+    "curlyPuff",
+    "fullCurly",
+    "longAfro",
+    "longPeak",
+    "longStraight",
+    "messyArtistic",
+    "pigtailBuns",
+    "shortBuns",
+    "shortBuzz",
+    "shortCurly",
+    "sideBangs",
+    "spaceBuns",
+    "spikyEarmuffs",
+    "tinyBun",
+    "topKnot",
+    "wavyCenterPart",
+    "wavyPuffs",
+  ],
+};
+
+/** Option lists of share code version 2, which adds later attributes. */
+export interface OptionTableV2 extends OptionTable {
+  hairColor: readonly HairColorType[];
+  faceDetail: readonly FaceDetailType[];
+  accessories: readonly AccessoryType[];
+  backgroundPattern: readonly BackgroundPatternType[];
+}
+
+/**
+ * The options as of share code version 2 and catalog version 1.
+ * Never edit a published table; add a new one instead.
+ */
+export const OPTION_TABLE_V2: OptionTableV2 = {
+  ...OPTION_TABLE_V1,
+  hairColor: [
+    "black",
+    "darkBrown",
+    "brown",
+    "auburn",
+    "red",
+    "blonde",
+    "platinum",
+    "gray",
+    "silver",
+    "electricBlue",
+    "bubblegumPink",
+    "lavender",
+  ],
+  faceDetail: [
+    "none",
+    "stubble",
+    "mustache",
+    "goatee",
+    "fullBeard",
+    "freckles",
+    "blush",
+  ],
+  accessories: [
+    "roundGlasses",
+    "squareGlasses",
+    "sunglasses",
+    "beanie",
+    "cap",
+    "studEarrings",
+    "hoopEarrings",
+    "headphones",
+  ],
+  backgroundPattern: ["dots", "stripes", "confetti"],
+};
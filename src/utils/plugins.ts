@@ -0,0 +1,310 @@
+import {
+  AvatarCategory,
+  AvatarConfig,
+  AvatarOptionMap,
+  CategoryDefinition,
+  ExtensibleCategory,
+  PartDefinition,
+  PluginCategories,
+  PluginLayer,
+  PluginOption,
+  BACKGROUNDS,
+  SKINS,
+  TSHIRTS,
+  EXPRESSIONS,
+  HAIRS,
+  HAIR_COLORS,
+  FACE_DETAILS,
+} from "../types";
+import { addPart, getPart } from "../components/svg/parts";
+import { parseSvg, SvgNode } from "./svg";
+
+/**
+ * A category added with `registerCategory`.
+ * @internal
+ */
+export interface PluginCategory {
+  name: keyof PluginCategories & string;
+  label: string;
+  layer: PluginLayer;
+  /** Parsed artwork of every option, in registration order */
+  parts: Record<string, SvgNode[]>;
+}
+
+const BUILT_IN_OPTIONS: Record<
+  ExtensibleCategory | "hairColor",
+  readonly string[]
+> = {
+  background: BACKGROUNDS,
+  skin: SKINS,
+  tshirt: TSHIRTS,
+  expression: EXPRESSIONS,
+  hair: HAIRS,
+  hairColor: HAIR_COLORS,
+  faceDetail: FACE_DETAILS,
+};
+
+/** Options added to each built-in category, in registration order. */
+const registeredOptions: Record<ExtensibleCategory, string[]> = {
+  background: [],
+  skin: [],
+  tshirt: [],
+  expression: [],
+  hair: [],
+  faceDetail: [],
+};
+
+const categories = new Map<string, PluginCategory>();
+
+/** Picker labels of plugin options, by `category/option`. */
+const optionLabels = new Map<string, string>();
+
+function setOptionLabel(category: string, option: string, label?: string) {
+  if (label === undefined) optionLabels.delete(`${category}/${option}`);
+  else optionLabels.set(`${category}/${option}`, label);
+}
+
+const LAYERS: readonly PluginLayer[] = [
+  "behindCharacter",
+  "underHair",
+  "overHair",
+  "overFace",
+];
+
+/** Attributes of `AvatarConfig` that a plugin category cannot be named. */
+const RESERVED_NAMES: readonly string[] = [
+  ...Object.keys(BUILT_IN_OPTIONS),
+  "accessories",
+];
+
+/**
+ * Props of `<Avatar>` besides the config, which a plugin category cannot be
+ * named either: the component would take the value for the prop.
+ */
+const AVATAR_PROP_NAMES: readonly string[] = [
+  "size",
+  "className",
+  "style",
+  "seed",
+  "seedVersion",
+  "shape",
+  "cornerRadius",
+  "clipBody",
+  "animated",
+  "speaking",
+  "theme",
+  "colorScheme",
+  "outline",
+  "key",
+  "ref",
+  "children",
+];
+
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+function parsePart(part: PartDefinition): SvgNode[] {
+  const nodes = parseSvg(part.svg);
+  return part.render
+    ? [{ tag: "g", attrs: {}, children: nodes, render: part.render }]
+    : nodes;
+}
+
+/**
+ * Adds an option to a built-in category, e.g. a house-style hairstyle.
+ * The option is drawn by `<Avatar>`, `generateSvg` and the image
+ * exporters, listed in `AvatarPicker`, drawn by `generateRandomConfig` and
+ * accepted by `validateConfig`. Declare it in `PluginOptions` first so that
+ * it type-checks. Registering an option again replaces its artwork.
+ *
+ * Seeds and share codes only use the built-in options, so that they stay
+ * stable whatever plugins an app loads.
+ *
+ * @param category - Built-in category, e.g. `'hair'`
+ * @param option - Name of the new option
+ * @param part - Its SVG markup, and optionally a React renderer
+ * @throws Error if the category cannot be extended or the option is
+ * built in
+ *
+ * @example
+ * ```tsx
+ * import { registerOption } from 'pinecone-avatars';
+ *
+ * declare module 'pinecone-avatars' {
+ *   interface PluginOptions {
+ *     hair: 'houseMohawk';
+ *   }
+ * }
+ *
+ * registerOption('hair', 'houseMohawk', { svg: houseMohawkSvg });
+ *
+ * <Avatar hair="houseMohawk" />
+ * ```
+ */
+export function registerOption<C extends ExtensibleCategory>(
+  category: C,
+  option: PluginOption<C>,
+  part: PartDefinition,
+): void {
+  if (!hasOwn(registeredOptions, category)) {
+    throw new Error(
+      `Cannot register ${category} options (expected one of: ${Object.keys(registeredOptions).join(", ")})`,
+    );
+  }
+  if (typeof option !== "string" || !option) {
+    throw new Error(`Invalid ${category} option: "${option}"`);
+  }
+  const registered = registeredOptions[category];
+  if (!registered.includes(option)) {
+    if (getPart(category, option)) {
+      throw new Error(`Cannot replace the built-in ${category} "${option}"`);
+    }
+    registered.push(option);
+  }
+  addPart(category, option, parsePart(part));
+  setOptionLabel(category, option, part.label);
+}
+
+/**
+ * Adds a category of parts, e.g. badges or pets. Its value is an optional
+ * attribute of `AvatarConfig`, named after the category; without a value
+ * nothing is drawn. The category gets its own row in `AvatarPicker` and
+ * `generateRandomConfig` draws one of its options. Declare it in
+ * `PluginCategories` first so that it type-checks. Registering a category
+ * again replaces it.
+ *
+ * Seeds, share codes and the catalog leave plugin categories out.
+ *
+ * @param name - Name of the category and of its config attribute
+ * @param definition - Options, picker label and layer
+ * @throws Error if the name is a built-in attribute or an `<Avatar>` prop,
+ * the layer is unknown or there are no options
+ *
+ * @example
+ * ```tsx
+ * import { registerCategory } from 'pinecone-avatars';
+ *
+ * declare module 'pinecone-avatars' {
+ *   interface PluginCategories {
+ *     badge: 'star' | 'heart';
+ *   }
+ * }
+ *
+ * registerCategory('badge', {
+ *   label: 'Badge',
+ *   layer: 'overFace',
+ *   options: {
+ *     star: { svg: starSvg },
+ *     heart: { svg: heartSvg, render: () => <HeartBadge /> },
+ *   },
+ * });
+ *
+ * generateSvg({ ...config, badge: 'star' });
+ * ```
+ */
+export function registerCategory<C extends keyof PluginCategories & string>(
+  name: C,
+  definition: CategoryDefinition<PluginCategories[C] & string>,
+): void {
+  if (RESERVED_NAMES.includes(name)) {
+    throw new Error(`Cannot replace the built-in category ${name}`);
+  }
+  if (AVATAR_PROP_NAMES.includes(name)) {
+    throw new Error(`Cannot name a category ${name}: it is an Avatar prop`);
+  }
+  const { label = name, layer = "overFace", options } = definition;
+  if (!LAYERS.includes(layer)) {
+    throw new Error(
+      `Unsupported layer: ${layer} (expected one of: ${LAYERS.join(", ")})`,
+    );
+  }
+  const keys = Object.keys(options) as (PluginCategories[C] & string)[];
+  if (keys.length === 0) {
+    throw new Error(`The ${name} category needs at least one option`);
+  }
+
+  const parts: Record<string, SvgNode[]> = {};
+  for (const key of Object.keys(categories.get(name)?.parts ?? {})) {
+    setOptionLabel(name, key);
+  }
+  for (const key of keys) {
+    parts[key] = parsePart(options[key]);
+    setOptionLabel(name, key, options[key].label);
+  }
+  categories.set(name, { name, label, layer, parts });
+}
+
+/**
+ * Returns the categories added with `registerCategory`, in registration
+ * order.
+ * @internal
+ */
+export function getPluginCategories(): PluginCategory[] {
+  return [...categories.values()];
+}
+
+/**
+ * Returns the options of a category: the built-in options, followed by
+ * those added by plugins in registration order.
+ * @internal
+ */
+export function getCategoryOptions<K extends AvatarCategory>(
+  category: K,
+): readonly AvatarOptionMap[K][] {
+  const builtIn = hasOwn(BUILT_IN_OPTIONS, category)
+    ? BUILT_IN_OPTIONS[category as keyof typeof BUILT_IN_OPTIONS]
+    : undefined;
+  const options = builtIn
+    ? hasOwn(registeredOptions, category)
+      ? [...builtIn, ...registeredOptions[category as ExtensibleCategory]]
+      : builtIn
+    : Object.keys(categories.get(category)?.parts ?? {});
+  return options as readonly AvatarOptionMap[K][];
+}
+
+/**
+ * Returns the human-readable name of an option: the label it was
+ * registered with, or its key split into words, e.g. `Bob side part`.
+ * @internal
+ */
+export function getOptionLabel(category: string, option: string): string {
+  const label = optionLabels.get(`${category}/${option}`);
+  if (label !== undefined) return label;
+  const words = option.replace(/([a-z0-9])([A-Z])/g, "$1 $2").toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Copies the values of the plugin categories out of a config.
+ * @internal
+ */
+export function pickPluginValues(
+  config: Partial<AvatarConfig>,
+): Partial<AvatarConfig> {
+  const values: Partial<Record<string, unknown>> = {};
+  for (const name of categories.keys()) {
+    const value = (config as Partial<Record<string, unknown>>)[name];
+    if (value !== undefined) values[name] = value;
+  }
+  return values as Partial<AvatarConfig>;
+}
+
+/**
+ * Returns the artwork of the plugin categories drawn in one layer.
+ * Unknown options contribute no artwork.
+ * @internal
+ */
+export function getPluginParts(
+  config: AvatarConfig,
+  layer: PluginLayer,
+): SvgNode[] {
+  return getPluginCategories().flatMap(({ name, layer: drawnIn, parts }) => {
+    const option = config[name];
+    return drawnIn === layer &&
+      typeof option === "string" &&
+      hasOwn(parts, option)
+      ? parts[option]
+      : [];
+  });
+}
@@ -0,0 +1,98 @@
+import {
+  AvatarConfig,
+  AvatarCategory,
+  AvatarOptionMap,
+  RandomConfigOptions,
+} from "../types";
+import { getCategoryOptions, getPluginCategories } from "./plugins";
+
+function pickOption<K extends AvatarCategory>(
+  category: K,
+  options: RandomConfigOptions,
+  random: () => number,
+): AvatarConfig[K] {
+  const locked = options.locked?.[category];
+  if (locked !== undefined) return locked;
+
+  const known: readonly AvatarOptionMap[K][] = getCategoryOptions(category);
+  const include: readonly AvatarOptionMap[K][] =
+    options.include?.[category] ?? known;
+  const exclude: readonly AvatarOptionMap[K][] =
+    options.exclude?.[category] ?? [];
+  const weights: Partial<Record<AvatarOptionMap[K], number>> =
+    options.weights?.[category] ?? {};
+
+  const candidates: [AvatarOptionMap[K], number][] = [];
+  let total = 0;
+  for (const option of known) {
+    if (!include.includes(option) || exclude.includes(option)) continue;
+    const weight = weights[option] ?? 1;
+    if (!Number.isFinite(weight) || weight < 0) {
+      throw new Error(`Invalid weight for ${category} "${option}": ${weight}`);
+    }
+    if (weight === 0) continue;
+    candidates.push([option, weight]);
+    total += weight;
+  }
+
+  if (candidates.length === 0) {
+    throw new Error(`No ${category} options left to choose from`);
+  }
+
+  let target = random() * total;
+  for (const [option, weight] of candidates) {
+    target -= weight;
+    if (target < 0) return option;
+  }
+  return candidates[candidates.length - 1][0];
+}
+
+/**
+ * Generates a random avatar configuration with randomly selected values
+ * for all attributes (background, skin, tshirt, expression, hair, hairColor,
+ * faceDetail and the categories added by plugins).
+ * Optional constraints lock attributes, restrict the options drawn per
+ * category and weight them. Accessories are only included when locked.
+ *
+ * @param options - Locks, allow-lists, deny-lists and weights
+ * @returns A complete AvatarConfig with random values
+ * @throws Error if the constraints leave a category without options,
+ * or a weight is negative or not finite
+ *
+ * @example
+ * ```tsx
+ * import { Avatar, generateRandomConfig } from 'chipmunk-avatars';
+ *
+ * const randomAvatar = generateRandomConfig();
+ * <Avatar {...randomAvatar} />
+ *
+ * // Brand background, work-appropriate expressions only
+ * const teamAvatar = generateRandomConfig({
+ *   locked: { background: 'mintGreen' },
+ *   include: { expression: ['happy', 'focused', 'laughing'] },
+ * });
+ * ```
+ */
+export function generateRandomConfig(
+  options: RandomConfigOptions = {},
+): AvatarConfig {
+  const random = options.random ?? Math.random;
+  const accessories = options.locked?.accessories;
+  return {
+    background: pickOption("background", options, random),
+    skin: pickOption("skin", options, random),
+    tshirt: pickOption("tshirt", options, random),
+    expression: pickOption("expression", options, random),
+    hair: pickOption("hair", options, random),
+    hairColor: pickOption("hairColor", options, random),
+    faceDetail: pickOption("faceDetail", options, random),
+    ...Object.fromEntries(
+      getPluginCategories().map(({ name }) => [
+        name,
+        pickOption(name, options, random),
+      ]),
+    ),
+    // Accessories are never drawn at random; locked ones are kept
+    ...(accessories !== undefined && { accessories }),
+  };
+}
@@ -0,0 +1,270 @@
+import {
+  AvatarConfig,
+  AvatarShapeOptions,
+  GenerateImageOptions,
+  PngAtlas,
+  PngAtlasOptions,
+  RasterizerWasmSource,
+} from "../types";
+import { generateSvg } from "./export";
+import { encodeImage } from "./image";
+import { generateSvgSprite } from "./sprite";
+
+type ResvgModule = typeof import("@resvg/resvg-wasm");
+
+/**
+ * RGBA pixels of a rasterized avatar, row by row from the top left.
+ * The color channels are premultiplied by alpha.
+ * @internal
+ */
+export interface RasterImage {
+  width: number;
+  height: number;
+  pixels: Uint8Array;
+}
+
+let rasterizer: Promise<ResvgModule> | undefined;
+
+function isNode(): boolean {
+  return (
+    typeof process !== "undefined" && typeof process.versions?.node === "string"
+  );
+}
+
+async function importResvg(): Promise<ResvgModule> {
+  try {
+    return await import("@resvg/resvg-wasm");
+  } catch {
+    throw new Error(
+      "PNG rasterization requires @resvg/resvg-wasm. Install it with `npm install @resvg/resvg-wasm`",
+    );
+  }
+}
+
+/**
+ * Reads the rasterizer's WebAssembly binary from `node_modules`.
+ * Bundlers for the web reject `node:` imports, so they are told to leave
+ * these alone; they only run in Node.js.
+ */
+async function readNodeWasm(): Promise<Uint8Array> {
+  const { createRequire } = await import(
+    /* webpackIgnore: true */ /* @vite-ignore */ "node:module"
+  );
+  const { readFile } = await import(
+    /* webpackIgnore: true */ /* @vite-ignore */ "node:fs/promises"
+  );
+  const require = createRequire(import.meta.url);
+  return readFile(require.resolve("@resvg/resvg-wasm/index_bg.wasm"));
+}
+
+/**
+ * Loads the WebAssembly rasterizer used by `generatePng`.
+ *
+ * In Node.js the binary is read from `node_modules` automatically, so calling
+ * this is optional. In the browser, call it once with the URL (or bytes) of
+ * `@resvg/resvg-wasm/index_bg.wasm` before rasterizing.
+ *
+ * @param wasm - The `.wasm` binary or its URL (default: loaded from `node_modules` in Node.js)
+ * @returns Promise that resolves once the rasterizer is ready
+ * @throws Error if `@resvg/resvg-wasm` is not installed, or if no binary is
+ * given outside Node.js
+ *
+ * @example
+ * ```ts
+ * import { initRasterizer } from 'pinecone-avatars/rasterizer';
+ *
+ * // Browser, with a bundler that supports `?url` imports
+ * import wasmUrl from '@resvg/resvg-wasm/index_bg.wasm?url';
+ * await initRasterizer(wasmUrl);
+ * ```
+ */
+export async function initRasterizer(
+  wasm?: RasterizerWasmSource,
+): Promise<void> {
+  await loadRasterizer(wasm);
+}
+
+function loadRasterizer(wasm?: RasterizerWasmSource): Promise<ResvgModule> {
+  if (!rasterizer) {
+    const loading = (async () => {
+      const resvg = await importResvg();
+      if (wasm === undefined && !isNode()) {
+        throw new Error(
+          "initRasterizer needs the URL of @resvg/resvg-wasm/index_bg.wasm outside Node.js",
+        );
+      }
+      await resvg.initWasm(wasm ?? (await readNodeWasm()));
+      return resvg;
+    })();
+    // Allow a retry (e.g. with a corrected URL) after a failed load
+    loading.catch(() => {
+      if (rasterizer === loading) rasterizer = undefined;
+    });
+    rasterizer = loading;
+  }
+  return rasterizer;
+}
+
+function assertSize(size: number): void {
+  if (!Number.isInteger(size) || size <= 0) {
+    throw new Error(`Invalid size: ${size} (expected a positive integer)`);
+  }
+}
+
+type RenderedImage = ReturnType<InstanceType<ResvgModule["Resvg"]>["render"]>;
+
+/**
+ * Renders SVG markup at `size` pixels wide and reads the result while the
+ * WebAssembly memory behind it is still alive.
+ */
+async function renderSvg<T>(
+  svg: string,
+  size: number,
+  matte: string | undefined,
+  read: (image: RenderedImage) => T,
+): Promise<T> {
+  assertSize(size);
+  const { Resvg } = await loadRasterizer();
+
+  // resvg aborts when a filter region rounds down to nothing, which happens
+  // at 1px; the filters' soft shading is invisible at that size anyway
+  const markup = size < 2 ? svg.replace(/ filter="[^"]*"/g, "") : svg;
+  const renderer = new Resvg(markup, {
+    fitTo: { mode: "width", value: size },
+    font: { loadSystemFonts: false },
+    background: matte,
+  });
+  const image = renderer.render();
+  try {
+    return read(image);
+  } finally {
+    image.free();
+    renderer.free();
+  }
+}
+
+/**
+ * Renders SVG markup to RGBA pixels without a browser.
+ * @param matte - CSS color painted behind the image (default: transparent)
+ * @internal
+ */
+export function rasterizeSvg(
+  svg: string,
+  size: number,
+  matte?: string,
+): Promise<RasterImage> {
+  return renderSvg(svg, size, matte, (image) => ({
+    width: image.width,
+    height: image.height,
+    pixels: image.pixels,
+  }));
+}
+
+/**
+ * Renders SVG markup to PNG file contents without a browser.
+ * @param matte - CSS color painted behind the image (default: transparent)
+ * @internal
+ */
+export function rasterizeSvgToPng(
+  svg: string,
+  size: number,
+  matte?: string,
+): Promise<Uint8Array> {
+  return renderSvg(svg, size, matte, (image) => image.asPng());
+}
+
+/**
+ * Generates a PNG image of an avatar as raw bytes.
+ * Works in Node.js (no browser, canvas or native modules needed) and in the
+ * browser after `initRasterizer`. Requires the `@resvg/resvg-wasm` package.
+ *
+ * @param config - Partial avatar configuration (missing values use defaults)
+ * @param size - Width and height of the PNG in pixels (default: 474)
+ * @param options - Shape of the avatar and whether it clips the character
+ * @returns Promise resolving to the PNG file contents
+ * @throws Error if the size is not a positive integer or the rasterizer
+ * cannot be loaded
+ *
+ * @example
+ * ```ts
+ * import { writeFile } from 'node:fs/promises';
+ * import { generatePng } from 'pinecone-avatars/rasterizer';
+ *
+ * const png = await generatePng({ hair: 'spaceBuns' }, 128);
+ * await writeFile('avatar.png', png);
+ *
+ * // Just the character on a transparent canvas
+ * const cutout = await generatePng({ background: 'none' }, 256, { clipBody: false });
+ *
+ * // As an e-mail attachment
+ * attachments.push({ filename: 'avatar.png', content: Buffer.from(png) });
+ * ```
+ */
+export async function generatePng(
+  config: Partial<AvatarConfig> = {},
+  size: number = 474,
+  options: AvatarShapeOptions = {},
+): Promise<Uint8Array> {
+  assertSize(size);
+  return rasterizeSvgToPng(generateSvg(config, size, options), size);
+}
+
+/**
+ * Generates a raster image of an avatar in the requested format, like the
+ * `generateImage` of the main entry, which is browser only. Uses the Canvas
+ * API in the browser and `@resvg/resvg-wasm` in Node.js (PNG only).
+ *
+ * @param config - Partial avatar configuration (missing values use defaults)
+ * @param options - Format, size, quality, matte color and shape
+ * @returns Promise resolving to the encoded file contents
+ * @throws Error if the format is unknown, the runtime cannot encode it, the
+ * size or quality is out of range, or the rasterizer cannot be loaded
+ *
+ * @example
+ * ```ts
+ * import { generateImage } from 'pinecone-avatars/rasterizer';
+ *
+ * // PNG on a white matte, in Node.js
+ * const png = await generateImage(config, { size: 256, matte: '#ffffff' });
+ * ```
+ */
+export function generateImage(
+  config: Partial<AvatarConfig> = {},
+  options: GenerateImageOptions = {},
+): Promise<Uint8Array> {
+  return encodeImage(config, options, rasterizeSvgToPng);
+}
+
+/**
+ * Packs many avatars into one PNG atlas, e.g. for CSS sprites or game
+ * textures. The avatars are laid out as in `generateSvgSprite`.
+ * Works in Node.js (no browser, canvas or native modules needed) and in the
+ * browser after `initRasterizer`. Requires the `@resvg/resvg-wasm` package.
+ *
+ * @param configs - Partial avatar configurations (missing values use defaults)
+ * @param options - Size of each avatar, grid layout, matte color and shape
+ * @returns Promise resolving to the PNG, its size and the manifest of the
+ * avatars
+ * @throws Error if there are no configs, the size, columns or gap are out
+ * of range, or the rasterizer cannot be loaded
+ *
+ * @example
+ * ```ts
+ * import { generatePngAtlas } from 'pinecone-avatars/rasterizer';
+ *
+ * const { png, manifest } = await generatePngAtlas(configs, { size: 96, gap: 2 });
+ * await writeFile('roster.png', png);
+ *
+ * // CSS sprite of a member, by share code
+ * const { x, y } = manifest.find((entry) => entry.code === member.avatarCode)!;
+ * const style = `background: url(roster.png) -${x}px -${y}px; width: 96px; height: 96px`;
+ * ```
+ */
+export async function generatePngAtlas(
+  configs: readonly Partial<AvatarConfig>[],
+  options: PngAtlasOptions = {},
+): Promise<PngAtlas> {
+  const { svg, width, height, manifest } = generateSvgSprite(configs, options);
+  const png = await rasterizeSvgToPng(svg, width, options.matte);
+  return { png, width, height, manifest };
+}
@@ -0,0 +1,82 @@
+import { AvatarConfig, SeedVersion } from "../types";
+import { OPTION_TABLE_V1, OptionTable } from "./optionTables";
+
+/** The newest seed version shipped by this release. */
+export const LATEST_SEED_VERSION: SeedVersion = 1;
+
+/** Frozen option lists per seed version. */
+const SEED_TABLES: Record<SeedVersion, OptionTable> = {
+  1: OPTION_TABLE_V1,
+};
+
+/**
+ * 32-bit FNV-1a hash of the string's UTF-8 bytes.
+ * @internal
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (const byte of new TextEncoder().encode(value)) {
+    hash ^= byte;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Mulberry32 pseudo-random generator returning floats in `[0, 1)`.
+ * @internal
+ */
+export function createPrng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Deterministically maps a string (such as a user id or e-mail address) to
+ * an avatar configuration. The same seed and version always produce the
+ * same avatar, on the server and in the browser, in every release.
+ *
+ * @param seed - Any string, e.g. a user id or e-mail address
+ * @param version - Seed mapping version (default: 1). See {@link SeedVersion}
+ * @returns A complete AvatarConfig
+ * @throws Error if the version is not supported by this release
+ *
+ * @example
+ * ```tsx
+ * import { Avatar, generateConfigFromSeed } from 'pinecone-avatars';
+ *
+ * const config = generateConfigFromSeed(user.email);
+ * <Avatar {...config} />
+ *
+ * // Or let the component do it
+ * <Avatar seed={user.id} />
+ * ```
+ */
+export function generateConfigFromSeed(
+  seed: string,
+  version: SeedVersion = 1,
+): AvatarConfig {
+  const table = SEED_TABLES[version];
+  if (!table) {
+    throw new Error(`Unsupported seed version: ${version}`);
+  }
+
+  const random = createPrng(hashString(seed));
+  const pick = <T>(options: readonly T[]): T =>
+    options[Math.floor(random() * options.length)];
+
+  // The draw order is part of the version contract.
+  return {
+    background: pick(table.background),
+    skin: pick(table.skin),
+    tshirt: pick(table.tshirt),
+    expression: pick(table.expression),
+    hair: pick(table.hair),
+  };
+}
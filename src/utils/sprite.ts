@@ -0,0 +1,125 @@
+import { AvatarConfig, SpriteEntry, SpriteOptions, SvgSprite } from "../types";
+import { encodeConfig } from "./code";
+import {
+  AVATAR_VIEWBOX,
+  composeAvatar,
+  getPreserveAspectRatio,
+} from "./compose";
+import { withDefaults } from "./export";
+import { toIdPrefix } from "./ids";
+import { stringifySvg } from "./svg";
+
+function encodeIfPossible(config: AvatarConfig): string | undefined {
+  try {
+    return encodeConfig(config);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Lays the avatars out in a grid and returns their manifest with the size
+ * of the whole sheet.
+ */
+function layOut(
+  configs: readonly Partial<AvatarConfig>[],
+  options: SpriteOptions,
+): { width: number; height: number; manifest: SpriteEntry[] } {
+  const {
+    size = 474,
+    columns = Math.ceil(Math.sqrt(configs.length)),
+    gap = 0,
+    idPrefix = "avatar-",
+  } = options;
+  if (configs.length === 0) {
+    throw new Error("A sprite needs at least one avatar");
+  }
+  if (!Number.isInteger(size) || size <= 0) {
+    throw new Error(`Invalid size: ${size} (expected a positive integer)`);
+  }
+  if (!Number.isInteger(columns) || columns <= 0) {
+    throw new Error(
+      `Invalid columns: ${columns} (expected a positive integer)`,
+    );
+  }
+  if (!Number.isInteger(gap) || gap < 0) {
+    throw new Error(`Invalid gap: ${gap} (expected a non-negative integer)`);
+  }
+
+  const usedColumns = Math.min(columns, configs.length);
+  const rows = Math.ceil(configs.length / columns);
+  const manifest = configs.map((partial, index): SpriteEntry => {
+    const config = withDefaults(partial);
+    return {
+      index,
+      config,
+      code: encodeIfPossible(config),
+      id: `${toIdPrefix(idPrefix)}${index}`,
+      x: (index % columns) * (size + gap),
+      y: Math.floor(index / columns) * (size + gap),
+      width: size,
+      height: size,
+    };
+  });
+  return {
+    width: usedColumns * (size + gap) - gap,
+    height: rows * (size + gap) - gap,
+    manifest,
+  };
+}
+
+/**
+ * Combines many avatars into one SVG sprite, e.g. to ship a whole team
+ * roster as a single asset. Each avatar is a `<symbol>` that pages can
+ * reuse with `<use href="roster.svg#avatar-3">`, and the sprite also draws
+ * every avatar in a grid, so it doubles as a sprite sheet.
+ *
+ * @param configs - Partial avatar configurations (missing values use defaults)
+ * @param options - Size of each avatar, grid layout, symbol ids and shape
+ * @returns The SVG markup, its size and the manifest of the avatars
+ * @throws Error if there are no configs, or the size, columns or gap are
+ * out of range
+ *
+ * @example
+ * ```ts
+ * import { generateSvgSprite } from 'pinecone-avatars';
+ *
+ * const { svg, manifest } = generateSvgSprite(
+ *   team.map((member) => member.avatar),
+ *   { size: 64, columns: 6 },
+ * );
+ * await writeFile('roster.svg', svg);
+ *
+ * // <svg width="32" height="32"><use href="roster.svg#avatar-0" /></svg>
+ * const ids = manifest.map((entry) => entry.id);
+ * ```
+ */
+export function generateSvgSprite(
+  configs: readonly Partial<AvatarConfig>[],
+  options: SpriteOptions = {},
+): SvgSprite {
+  const { width, height, manifest } = layOut(configs, options);
+  const { shape, cornerRadius, clipBody } = options;
+  const preserveAspectRatio = getPreserveAspectRatio(shape);
+  const aspect = preserveAspectRatio
+    ? ` preserveAspectRatio="${preserveAspectRatio}"`
+    : "";
+
+  const symbols = manifest.map(({ config, id, width: size }) => {
+    const content = stringifySvg(
+      composeAvatar(config, id, { shape, cornerRadius, clipBody, size }),
+    );
+    return `<symbol id="${id}" viewBox="${AVATAR_VIEWBOX}"${aspect}>${content}</symbol>`;
+  });
+  const uses = manifest.map(
+    ({ id, x, y, width: size }) =>
+      `<use href="#${id}" x="${x}" y="${y}" width="${size}" height="${size}"/>`,
+  );
+
+  return {
+    svg: `<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" fill="none" xmlns="http://www.w3.org/2000/svg">${symbols.join("")}${uses.join("")}</svg>`,
+    width,
+    height,
+    manifest,
+  };
+}
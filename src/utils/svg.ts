@@ -0,0 +1,162 @@
+/**
+ * A parsed SVG element.
+ * Part artwork is stored as markup and parsed into this tree once, so that
+ * both the React renderer and the string exporter draw from the same source.
+ */
+export interface SvgNode {
+  /** Element name, e.g. `path` or `clipPath` */
+  tag: string;
+  /** Attributes using their SVG (not React) names, e.g. `fill-opacity` */
+  attrs: Record<string, string>;
+  /** Child elements */
+  children: SvgNode[];
+  /** Text content, e.g. the rules of a `<style>` element */
+  text?: string;
+  /**
+   * Returns the React content drawn in place of `children` by
+   * `renderSvgNodes`, for plugin parts with a React renderer. The string
+   * renderer keeps drawing `children`.
+   */
+  render?: () => unknown;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x?[0-9a-fA-F]+|[a-z]+);/g, (match, entity: string) => {
+    if (entity.startsWith("#x")) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith("#")) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+function encodeText(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;");
+}
+
+function encodeAttribute(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/"/g, "&quot;");
+}
+
+const TAG = /<(\/?)([A-Za-z][\w:.-]*)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+const ATTRIBUTE = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Parses SVG element markup into a list of nodes.
+ * Supports the subset used by the part artwork: elements, attributes,
+ * comments and whitespace. Text content is ignored.
+ *
+ * @param markup - SVG fragment markup (may contain several root elements)
+ * @returns The parsed root nodes
+ * @throws Error if the markup is not well formed
+ */
+export function parseSvg(markup: string): SvgNode[] {
+  const root: SvgNode = { tag: "", attrs: {}, children: [] };
+  const stack: SvgNode[] = [root];
+  let index = 0;
+
+  while (index < markup.length) {
+    const next = markup.indexOf("<", index);
+    if (next === -1) break;
+    index = next;
+
+    if (markup.startsWith("<!--", index)) {
+      const end = markup.indexOf("-->", index);
+      if (end === -1) throw new Error("Unterminated comment in SVG markup");
+      index = end + 3;
+      continue;
+    }
+    if (markup.startsWith("<?", index)) {
+      const end = markup.indexOf("?>", index);
+      if (end === -1) throw new Error("Unterminated declaration in SVG markup");
+      index = end + 2;
+      continue;
+    }
+
+    TAG.lastIndex = index;
+    const match = TAG.exec(markup);
+    if (!match) {
+      throw new Error(`Malformed SVG markup at offset ${index}`);
+    }
+    index = TAG.lastIndex;
+
+    const [, closing, tag, attributes, selfClosing] = match;
+    const parent = stack[stack.length - 1];
+
+    if (closing) {
+      if (parent.tag !== tag) {
+        throw new Error(
+          `Unexpected </${tag}> in SVG markup (expected </${parent.tag || "none"}>)`,
+        );
+      }
+      stack.pop();
+      continue;
+    }
+
+    const node: SvgNode = { tag, attrs: {}, children: [] };
+    for (const [, name, double, single] of attributes.matchAll(ATTRIBUTE)) {
+      node.attrs[name] = decodeEntities(double ?? single);
+    }
+    parent.children.push(node);
+    if (!selfClosing) stack.push(node);
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Unclosed <${stack[stack.length - 1].tag}> in SVG markup`);
+  }
+  return root.children;
+}
+
+/**
+ * Serializes nodes back to compact SVG markup.
+ *
+ * @param nodes - Nodes to serialize
+ * @returns SVG markup string
+ */
+export function stringifySvg(nodes: readonly SvgNode[]): string {
+  return nodes
+    .map((node) => {
+      const attrs = Object.entries(node.attrs)
+        .map(([name, value]) => ` ${name}="${encodeAttribute(value)}"`)
+        .join("");
+      if (node.text !== undefined) {
+        return `<${node.tag}${attrs}>${encodeText(node.text)}</${node.tag}>`;
+      }
+      return node.children.length === 0
+        ? `<${node.tag}${attrs}/>`
+        : `<${node.tag}${attrs}>${stringifySvg(node.children)}</${node.tag}>`;
+    })
+    .join("");
+}
+
+/**
+ * Returns a copy of the tree with `transform` applied to every node's
+ * attributes, depth first. Nodes are never mutated.
+ *
+ * @param nodes - Nodes to transform
+ * @param transform - Receives a node and returns its new attributes
+ * @returns The transformed copy
+ */
+export function mapSvgAttrs(
+  nodes: readonly SvgNode[],
+  transform: (node: SvgNode) => Record<string, string>,
+): SvgNode[] {
+  return nodes.map((node) => ({
+    ...node,
+    attrs: transform(node),
+    children: mapSvgAttrs(node.children, transform),
+  }));
+}
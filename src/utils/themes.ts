@@ -0,0 +1,226 @@
+import {
+  AvatarConfig,
+  AvatarTheme,
+  AvatarThemeName,
+  BackgroundColor,
+  HexColor,
+} from "../types";
+import { isHexColor } from "./colors";
+
+const BUILT_IN_THEMES: Record<AvatarThemeName, AvatarTheme> = {
+  pastel: {
+    background: {
+      babyBlue: "#D6F1FF",
+      coralRed: "#F4AFAF",
+      darkGray: "#8C8C96",
+      lightGray: "#F2F2F2",
+      mintGreen: "#B5F3DA",
+      pastelGreen: "#E8FFD6",
+      peach: "#FFE2B8",
+      softPink: "#FFEEEF",
+    },
+    tshirt: {
+      amber: "#F8CA90",
+      blue: "#A3CFE4",
+      charcoal: "#8A8F98",
+      green: "#BADB94",
+      orange: "#F9BD8E",
+      pink: "#FDDDEB",
+      raspberry: "#E39EB3",
+      white: "#F7F9FA",
+      yellow: "#F8E49E",
+    },
+    hairColor: {
+      red: "#D98872",
+      electricBlue: "#93B6F5",
+      bubblegumPink: "#F9BBDA",
+      lavender: "#CFBFEC",
+    },
+  },
+  dark: {
+    background: {
+      babyBlue: "#3F7FA6",
+      coralRed: "#A84848",
+      darkGray: "#6E6E78",
+      lightGray: "#8F8F99",
+      mintGreen: "#2A9A70",
+      pastelGreen: "#6FA34E",
+      peach: "#B9853F",
+      softPink: "#A86874",
+    },
+    tshirt: {
+      charcoal: "#6B6F78",
+      white: "#C9CED1",
+    },
+  },
+  highContrast: {
+    background: {
+      babyBlue: "#E3F4FF",
+      coralRed: "#FFE1E1",
+      darkGray: "#1A1A1A",
+      lightGray: "#FFFFFF",
+      mintGreen: "#DBFFF1",
+      pastelGreen: "#F0FFE5",
+      peach: "#FFF0DB",
+      softPink: "#FFF0F1",
+    },
+    tshirt: {
+      amber: "#D97A00",
+      blue: "#0057B8",
+      charcoal: "#1A1A1A",
+      green: "#2E7D32",
+      orange: "#E65100",
+      pink: "#D81B60",
+      raspberry: "#A0003A",
+      white: "#FFFFFF",
+      yellow: "#F9C800",
+    },
+  },
+};
+
+/** Categories of a theme, in the order they are checked. */
+const THEME_CATEGORIES = [
+  "background",
+  "skin",
+  "tshirt",
+  "hairColor",
+] as const satisfies readonly (keyof AvatarTheme)[];
+
+function hasOwn(object: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(object, key);
+}
+
+/**
+ * Returns the palette of a built-in theme, or a custom theme as is.
+ * @internal
+ */
+export function resolveTheme(
+  theme: AvatarThemeName | AvatarTheme,
+): AvatarTheme {
+  if (typeof theme !== "string") return theme;
+  if (!hasOwn(BUILT_IN_THEMES, theme)) {
+    throw new Error(
+      `Unknown theme: ${theme} (expected one of: ${Object.keys(BUILT_IN_THEMES).join(", ")})`,
+    );
+  }
+  return BUILT_IN_THEMES[theme];
+}
+
+/** Returns the theme color of a named option, or the value itself. */
+function themeColor<T extends string>(
+  theme: AvatarTheme,
+  category: keyof AvatarTheme,
+  value: T,
+): T | HexColor {
+  const palette: Partial<Record<string, string>> | undefined = theme[category];
+  if (!palette || !hasOwn(palette, value)) return value;
+  const color = palette[value];
+  if (!isHexColor(color)) {
+    throw new Error(
+      `Invalid theme color for ${category} "${value}": ${color} (expected #rgb or #rrggbb)`,
+    );
+  }
+  return color;
+}
+
+function themeBackground(
+  theme: AvatarTheme,
+  background: AvatarConfig["background"],
+): AvatarConfig["background"] {
+  const color = (value: BackgroundColor) =>
+    themeColor(theme, "background", value);
+  if (typeof background === "string") {
+    return background === "none" ? background : color(background);
+  }
+  switch (background.type) {
+    case "linear":
+    case "radial":
+      return { ...background, colors: background.colors.map(color) };
+    case "pattern":
+      // `babyBlue` is the color under a pattern without one
+      return { ...background, color: color(background.color ?? "babyBlue") };
+    default:
+      return background;
+  }
+}
+
+/**
+ * Creates a custom theme, optionally on top of another theme: the palette's
+ * colors are added to (or replace) the base theme's.
+ *
+ * @param palette - Colors of the named options to repaint
+ * @param base - Built-in theme name or theme to extend
+ * @returns The combined theme
+ * @throws Error if the base theme is unknown or a color is not a hex color
+ *
+ * @example
+ * ```ts
+ * import { createTheme } from 'pinecone-avatars';
+ *
+ * // Dark mode with the brand's t-shirt
+ * const brandDark = createTheme({ tshirt: { blue: '#0B3D91' } }, 'dark');
+ *
+ * <AvatarThemeProvider theme={brandDark}>…</AvatarThemeProvider>
+ * ```
+ */
+export function createTheme(
+  palette: AvatarTheme,
+  base?: AvatarThemeName | AvatarTheme,
+): AvatarTheme {
+  const baseTheme = base === undefined ? {} : resolveTheme(base);
+  const theme: AvatarTheme = {};
+  for (const category of THEME_CATEGORIES) {
+    const colors = { ...baseTheme[category], ...palette[category] };
+    for (const [option, color] of Object.entries(colors)) {
+      if (!isHexColor(color)) {
+        throw new Error(
+          `Invalid theme color for ${category} "${option}": ${color} (expected #rgb or #rrggbb)`,
+        );
+      }
+    }
+    if (Object.keys(colors).length > 0) {
+      Object.assign(theme, { [category]: colors });
+    }
+  }
+  return theme;
+}
+
+/**
+ * Repaints the named colors of a configuration with a theme, replacing
+ * them with the theme's hex colors. `<Avatar>` and `generateSvg` do this
+ * for their `theme` option; apply it yourself for the other exporters.
+ *
+ * @param config - Avatar configuration, complete or partial
+ * @param theme - Built-in theme name or custom theme
+ * @returns A copy of the configuration in the theme's colors
+ * @throws Error if the theme is unknown or one of its colors is not a hex
+ * color
+ *
+ * @example
+ * ```ts
+ * import { applyTheme } from 'pinecone-avatars';
+ * import { generatePng } from 'pinecone-avatars/rasterizer';
+ *
+ * const png = await generatePng(applyTheme(config, 'pastel'), 256);
+ * ```
+ */
+export function applyTheme<T extends Partial<AvatarConfig>>(
+  config: T,
+  theme: AvatarThemeName | AvatarTheme,
+): T {
+  const palette = resolveTheme(theme);
+  const { background, skin, tshirt, hairColor } = config;
+  return {
+    ...config,
+    ...(background !== undefined && {
+      background: themeBackground(palette, background),
+    }),
+    ...(skin !== undefined && { skin: themeColor(palette, "skin", skin) }),
+    ...(tshirt !== undefined && {
+      tshirt: themeColor(palette, "tshirt", tshirt),
+    }),
+    ...(hairColor !== undefined && {
+      hairColor: themeColor(palette, "hairColor", hairColor),
+    }),
+  };
+}
@@ -0,0 +1,463 @@
+import {
+  AccessoryType,
+  AvatarCategory,
+  AvatarConfig,
+  AvatarOptionAliases,
+  AvatarOptionMap,
+  BackgroundColor,
+  BackgroundFill,
+  ConfigFieldError,
+  ParseConfigOptions,
+  ParseConfigResult,
+  SanitizeConfigOptions,
+  ACCESSORIES,
+  BACKGROUND_PATTERNS,
+} from "../types";
+import { isHexColor } from "./colors";
+import { getCategoryOptions, getPluginCategories } from "./plugins";
+
+const defaultConfig: AvatarConfig = {
+  background: "babyBlue",
+  skin: "softPeach",
+  tshirt: "orange",
+  expression: "happy",
+  hair: "shortBuzz",
+};
+
+const FIELDS: readonly AvatarCategory[] = [
+  "background",
+  "skin",
+  "tshirt",
+  "expression",
+  "hair",
+  "hairColor",
+  "faceDetail",
+];
+
+/** Fields that may be left out of a config, besides plugin categories. */
+const OPTIONAL_FIELDS: readonly AvatarCategory[] = ["hairColor", "faceDetail"];
+
+/** Fields that also accept a custom hex color. */
+const COLOR_FIELDS: readonly AvatarCategory[] = [
+  "background",
+  "skin",
+  "tshirt",
+  "hairColor",
+];
+
+/**
+ * Built-in migrations for renamed options and spellings that the
+ * separator-insensitive match cannot resolve. When an option is renamed,
+ * add `oldName: 'newName'` under its category so that configs stored by
+ * earlier releases keep resolving. Never remove an entry once it has shipped.
+ */
+const OPTION_ALIASES: AvatarOptionAliases = {
+  background: { darkGrey: "darkGray", lightGrey: "lightGray" },
+  hairColor: { blond: "blonde", grey: "gray" },
+  accessories: { hoops: "hoopEarrings", studs: "studEarrings" },
+};
+
+function normalizeName(value: string): string {
+  return value.replace(/[^A-Za-z0-9]/g, "").toLowerCase();
+}
+
+/**
+ * Looks `value` up in the built-in and the given alias tables, first by
+ * exact name and then ignoring case and separators.
+ */
+function resolveAlias<T extends string>(
+  category: keyof AvatarOptionAliases,
+  value: string,
+  aliases: AvatarOptionAliases | undefined,
+): T | undefined {
+  const tables = [OPTION_ALIASES, aliases].map(
+    (table) => table?.[category] as Record<string, T> | undefined,
+  );
+  for (const map of tables) {
+    if (map && Object.prototype.hasOwnProperty.call(map, value)) {
+      return map[value];
+    }
+  }
+
+  const normalized = normalizeName(value);
+  for (const map of tables) {
+    const key = Object.keys(map ?? {}).find(
+      (name) => normalizeName(name) === normalized,
+    );
+    if (key !== undefined) return map?.[key];
+  }
+  return undefined;
+}
+
+/**
+ * Resolves a raw value to a current option: exact names first, then
+ * aliases, then a case- and separator-insensitive match so that names such
+ * as `"Baby Blue"` or `"baby-blue"` resolve to `"babyBlue"`.
+ */
+function resolveOption<K extends AvatarCategory>(
+  field: K,
+  value: string,
+  aliases: AvatarOptionAliases | undefined,
+): AvatarOptionMap[K] | undefined {
+  const options: readonly AvatarOptionMap[K][] = getCategoryOptions(field);
+  if ((options as readonly string[]).includes(value)) {
+    return value as AvatarOptionMap[K];
+  }
+
+  const normalized = normalizeName(value);
+  return (
+    resolveAlias<AvatarOptionMap[K]>(field, value, aliases) ??
+    options.find((option) => normalizeName(option) === normalized)
+  );
+}
+
+/** Resolves a raw value to an accessory, like `resolveOption`. */
+function resolveAccessory(
+  value: string,
+  aliases: AvatarOptionAliases | undefined,
+): AccessoryType | undefined {
+  const normalized = normalizeName(value);
+  return (
+    resolveAlias<AccessoryType>("accessories", value, aliases) ??
+    ACCESSORIES.find((accessory) => normalizeName(accessory) === normalized)
+  );
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function invalidColor(
+  field: keyof AvatarConfig,
+  value: string,
+): ConfigFieldError {
+  return {
+    field,
+    code: "invalid_color",
+    value,
+    message: `Invalid ${field} color "${value}" (expected #rgb or #rrggbb)`,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Kinds of background that are not a flat color. */
+const BACKGROUND_FILL_TYPES: readonly BackgroundFill["type"][] = [
+  "linear",
+  "radial",
+  "pattern",
+  "transparent",
+];
+
+/**
+ * Checks a gradient, pattern or transparent background, resolving the
+ * names of its colors.
+ */
+function checkBackgroundFill(
+  fill: Record<string, unknown>,
+  aliases: AvatarOptionAliases | undefined,
+): { value: BackgroundFill } | { error: ConfigFieldError } {
+  const fail = (
+    code: ConfigFieldError["code"],
+    value: unknown,
+    message: string,
+  ): { error: ConfigFieldError } => ({
+    error: { field: "background", code, value, message },
+  });
+
+  const resolveColor = (
+    value: unknown,
+  ): { color: BackgroundColor } | { error: ConfigFieldError } => {
+    if (typeof value !== "string") {
+      return fail(
+        "invalid_type",
+        value,
+        `Expected background colors to be strings, received ${describeType(value)}`,
+      );
+    }
+    if (value.startsWith("#")) {
+      return isHexColor(value)
+        ? { color: value }
+        : { error: invalidColor("background", value) };
+    }
+    const color = resolveOption("background", value, aliases);
+    return color === undefined
+      ? fail("unknown_option", value, `Unknown background "${value}"`)
+      : { color };
+  };
+
+  const { type } = fill;
+  if (!BACKGROUND_FILL_TYPES.includes(type as BackgroundFill["type"])) {
+    return fail("unknown_option", type, `Unknown background type "${type}"`);
+  }
+
+  if (type === "linear" || type === "radial") {
+    const { colors, angle } = fill;
+    if (!Array.isArray(colors) || colors.length < 2) {
+      return fail(
+        "invalid_type",
+        colors,
+        "Expected background colors to be an array of at least 2 colors",
+      );
+    }
+    const resolved: BackgroundColor[] = [];
+    for (const item of colors) {
+      const result = resolveColor(item);
+      if ("error" in result) return result;
+      resolved.push(result.color);
+    }
+    if (type === "radial") {
+      return { value: { type, colors: resolved } };
+    }
+    if (angle !== undefined && !Number.isFinite(angle)) {
+      return fail(
+        "invalid_type",
+        angle,
+        `Expected background angle to be a number, received ${describeType(angle)}`,
+      );
+    }
+    return {
+      value: {
+        type,
+        colors: resolved,
+        ...(angle !== undefined && { angle: angle as number }),
+      },
+    };
+  }
+
+  if (type === "pattern") {
+    const { pattern, color, patternColor } = fill;
+    const resolvedPattern = BACKGROUND_PATTERNS.find(
+      (option) =>
+        typeof pattern === "string" &&
+        normalizeName(option) === normalizeName(pattern),
+    );
+    if (resolvedPattern === undefined) {
+      return fail(
+        "unknown_option",
+        pattern,
+        `Unknown background pattern "${pattern}"`,
+      );
+    }
+    const value: BackgroundFill = { type, pattern: resolvedPattern };
+    if (color !== undefined) {
+      const result = resolveColor(color);
+      if ("error" in result) return result;
+      value.color = result.color;
+    }
+    if (patternColor !== undefined) {
+      if (!isHexColor(patternColor)) {
+        return typeof patternColor === "string"
+          ? { error: invalidColor("background", patternColor) }
+          : fail(
+              "invalid_type",
+              patternColor,
+              `Expected background patternColor to be a string, received ${describeType(patternColor)}`,
+            );
+      }
+      value.patternColor = patternColor;
+    }
+    return { value };
+  }
+
+  return { value: { type: "transparent" } };
+}
+
+/**
+ * Checks every field of `input` and collects the resolved values and errors.
+ */
+function checkConfig(
+  input: unknown,
+  options: ParseConfigOptions,
+): { values: Partial<AvatarConfig>; errors: ConfigFieldError[] } {
+  if (!isRecord(input)) {
+    return {
+      values: {},
+      errors: [
+        {
+          field: null,
+          code: "invalid_type",
+          value: input,
+          message: `Expected an avatar config object, received ${describeType(input)}`,
+        },
+      ],
+    };
+  }
+
+  const values: Partial<AvatarConfig> = {};
+  const errors: ConfigFieldError[] = [];
+  const pluginFields: AvatarCategory[] = getPluginCategories().map(
+    ({ name }) => name,
+  );
+
+  for (const field of [...FIELDS, ...pluginFields]) {
+    const value = input[field];
+    const optional =
+      OPTIONAL_FIELDS.includes(field) || pluginFields.includes(field);
+    if (optional && (value === undefined || value === null)) {
+      continue;
+    } else if (value === undefined) {
+      errors.push({
+        field,
+        code: "missing",
+        value,
+        message: `Missing ${field}`,
+      });
+    } else if (field === "background" && value === "none") {
+      values.background = value;
+    } else if (field === "background" && isRecord(value)) {
+      const result = checkBackgroundFill(value, options.aliases);
+      if ("error" in result) {
+        errors.push(result.error);
+      } else {
+        values.background = result.value;
+      }
+    } else if (typeof value !== "string") {
+      errors.push({
+        field,
+        code: "invalid_type",
+        value,
+        message: `Expected ${field} to be a string, received ${describeType(value)}`,
+      });
+    } else if (COLOR_FIELDS.includes(field) && value.startsWith("#")) {
+      if (isHexColor(value)) {
+        Object.assign(values, { [field]: value });
+      } else {
+        errors.push(invalidColor(field, value));
+      }
+    } else {
+      const resolved = resolveOption(field, value, options.aliases);
+      if (resolved === undefined) {
+        errors.push({
+          field,
+          code: "unknown_option",
+          value,
+          message: `Unknown ${field} "${value}"`,
+        });
+      } else {
+        Object.assign(values, { [field]: resolved });
+      }
+    }
+  }
+
+  const { accessories } = input;
+  if (Array.isArray(accessories)) {
+    const resolved: AccessoryType[] = [];
+    for (const item of accessories) {
+      const accessory =
+        typeof item === "string"
+          ? resolveAccessory(item, options.aliases)
+          : undefined;
+      if (accessory === undefined) {
+        errors.push({
+          field: "accessories",
+          code: typeof item === "string" ? "unknown_option" : "invalid_type",
+          value: item,
+          message:
+            typeof item === "string"
+              ? `Unknown accessory "${item}"`
+              : `Expected accessories to contain strings, received ${describeType(item)}`,
+        });
+      } else if (!resolved.includes(accessory)) {
+        resolved.push(accessory);
+      }
+    }
+    values.accessories = resolved;
+  } else if (accessories !== undefined && accessories !== null) {
+    errors.push({
+      field: "accessories",
+      code: "invalid_type",
+      value: accessories,
+      message: `Expected accessories to be an array, received ${describeType(accessories)}`,
+    });
+  }
+
+  return { values, errors };
+}
+
+/**
+ * Validates untrusted input (e.g. from a database, URL or request body)
+ * against the avatar options. Renamed options, aliases, well-formed
+ * custom colors and gradient, pattern, transparent or `"none"` backgrounds
+ * count as valid, as do options and categories registered by plugins.
+ * Unknown extra fields are ignored.
+ *
+ * @param input - Any value
+ * @param options - Extra aliases to accept
+ * @returns One error per invalid field; empty when the input is valid
+ *
+ * @example
+ * ```ts
+ * import { validateConfig } from 'pinecone-avatars';
+ *
+ * const errors = validateConfig(req.body.avatar);
+ * if (errors.length > 0) {
+ *   return res.status(400).json({ errors });
+ * }
+ * ```
+ */
+export function validateConfig(
+  input: unknown,
+  options: ParseConfigOptions = {},
+): ConfigFieldError[] {
+  return checkConfig(input, options).errors;
+}
+
+/**
+ * Parses untrusted input into an AvatarConfig, resolving aliases and
+ * renamed options to their current names.
+ *
+ * @param input - Any value
+ * @param options - Extra aliases to accept
+ * @returns `{ success: true, config }`, or `{ success: false, errors }` with
+ * one error per invalid field
+ *
+ * @example
+ * ```ts
+ * import { parseConfig } from 'pinecone-avatars';
+ *
+ * const result = parseConfig(JSON.parse(row.avatar));
+ * if (result.success) {
+ *   render(<Avatar {...result.config} />);
+ * } else {
+ *   console.warn(result.errors.map((error) => error.message));
+ * }
+ * ```
+ */
+export function parseConfig(
+  input: unknown,
+  options: ParseConfigOptions = {},
+): ParseConfigResult {
+  const { values, errors } = checkConfig(input, options);
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+  return { success: true, config: values as AvatarConfig };
+}
+
+/**
+ * Coerces untrusted input into a valid AvatarConfig. Aliases are resolved;
+ * missing or unknown values are replaced with the fallback config.
+ *
+ * @param input - Any value
+ * @param options - Extra aliases and the fallback config
+ * @returns A complete, valid AvatarConfig
+ *
+ * @example
+ * ```ts
+ * import { sanitizeConfig } from 'pinecone-avatars';
+ *
+ * const config = sanitizeConfig(Object.fromEntries(searchParams));
+ * ```
+ */
+export function sanitizeConfig(
+  input: unknown,
+  options: SanitizeConfigOptions = {},
+): AvatarConfig {
+  const { values } = checkConfig(input, options);
+  return { ...(options.fallback ?? defaultConfig), ...values };
+}
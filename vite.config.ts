@@ -2,20 +2,47 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 import dts from "vite-plugin-dts";
+import { readFileSync } from "fs";
 import { resolve } from "path";
+import type { RenderedChunk } from "rollup";
+
+// Rollup drops module-level directives, so the modules that start with
+// "use client" get it back as a banner. Modules are kept apart so that only
+// the components are client modules in React Server Components.
+function restoreUseClient(chunk: RenderedChunk): string {
+  const source = chunk.facadeModuleId && readFileSync(chunk.facadeModuleId);
+  return source && /^["']use client["']/.test(source.toString())
+    ? '"use client";'
+    : "";
+}
 
 export default defineConfig({
   plugins: [react(), dts({ include: ["src"] })],
   build: {
     lib: {
-      entry: resolve(__dirname, "src/index.ts"),
+      // The rasterizer has its own entry so that the main one never imports
+      // the optional @resvg/resvg-wasm peer
+      entry: {
+        index: resolve(__dirname, "src/index.ts"),
+        rasterizer: resolve(__dirname, "src/rasterizer.ts"),
+      },
       name: "PineconeAvatars",
-      fileName: "index",
+      fileName: (format, entryName) =>
+        `${entryName}.${format === "es" ? "js" : "cjs"}`,
       formats: ["es", "cjs"],
     },
     rollupOptions: {
-      external: ["react", "react-dom", "react/jsx-runtime"],
+      external: [
+        "react",
+        "react-dom",
+        "react/jsx-runtime",
+        "@resvg/resvg-wasm",
+        /^node:/,
+      ],
       output: {
+        preserveModules: true,
+        preserveModulesRoot: "src",
+        banner: restoreUseClient,
         globals: {
           react: "React",
           "react-dom": "ReactDOM",